@@ -0,0 +1,82 @@
+/**
+ * Memory Attributes Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { normalizeAttribute, normalizeAttributes } from './attributes.js';
+import { MemoryStoreV2 } from './store.js';
+import { createMemoryTools } from './tools.js';
+
+describe('normalizeAttribute', () => {
+  it('should normalize valid values', () => {
+    expect(normalizeAttribute('email', ' Sarah@Example.COM ')).toBe('sarah@example.com');
+    expect(normalizeAttribute('phone', '+1 (555) 123-4567')).toBe('+15551234567');
+    expect(normalizeAttribute('birthday', '--02-29')).toBe('--02-29');
+    expect(normalizeAttribute('url', 'example.com/sarah')).toBe('https://example.com/sarah');
+    expect(normalizeAttribute('address', '12 Main St\nSpringfield')).toBe('12 Main St, Springfield');
+  });
+
+  it('should reject invalid values and unknown keys', () => {
+    expect(() => normalizeAttribute('email', 'sarah')).toThrow('not an email address');
+    expect(() => normalizeAttribute('phone', 'call me')).toThrow('not a phone number');
+    expect(() => normalizeAttribute('birthday', '1985-02-30')).toThrow('not a date');
+    expect(() => normalizeAttribute('url', 'javascript:alert(1)')).toThrow('only http and https');
+    expect(() => normalizeAttributes({ shoeSize: '42' })).toThrow('unknown attribute');
+  });
+});
+
+describe('MemoryStore attributes', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep attributes in frontmatter and find them by exact match', async () => {
+    const sarah = await store.create({
+      content: 'My sister',
+      category: 'entity',
+      attributes: { name: 'Sarah Connor', email: 'Sarah@Example.com', phone: '555 123 4567' },
+    });
+    await store.create({ content: 'My brother', category: 'entity', attributes: { name: 'John Connor' } });
+
+    const file = fs.readFileSync(path.join(tempDir, 'entities', `${sarah.id}.md`), 'utf-8');
+    expect(file).toContain('attributes:\n  name: Sarah Connor\n  email: sarah@example.com\n  phone: "5551234567"');
+
+    const byEmail = await store.search({ attributes: { email: 'SARAH@example.com' } });
+    expect(byEmail.map(r => r.memory.id)).toEqual([sarah.id]);
+    const byPhone = await store.search({ attributes: { phone: '(555) 123-4567' } });
+    expect(byPhone.map(r => r.memory.id)).toEqual([sarah.id]);
+    expect(await store.search({ attributes: { name: 'Sarah' } })).toEqual([]);
+
+    // Keyword search sees attribute values too
+    const byQuery = await store.search({ query: 'sarah@example.com' });
+    expect(byQuery[0]?.memory.id).toBe(sarah.id);
+  });
+
+  it('should reject invalid attributes before anything changes', async () => {
+    const tools = createMemoryTools(store as any);
+    const old = await store.create({ content: 'Sarah lives in LA', category: 'entity' });
+
+    const result = await tools.memory_store.execute('call-1', {
+      content: 'Sarah moved',
+      category: 'entity',
+      supersedes: old.id,
+      attributes: { email: 'not-an-email' },
+    });
+
+    expect(result.details).toMatchObject({ error: 'invalid_attribute', key: 'email' });
+    expect(store.get(old.id)).not.toBeNull();
+    await expect(store.update(old.id, { attributes: { birthday: 'tomorrow' } })).rejects.toThrow('Invalid attribute');
+  });
+});
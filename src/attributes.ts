@@ -0,0 +1,208 @@
+/**
+ * Structured Memory Attributes
+ *
+ * Optional typed fields on a memory (mostly contacts in the entity
+ * category), so "what is Sarah's email" is an exact lookup instead of a
+ * semantic search over prose. Values are validated and normalized on the
+ * way in, stored under `attributes:` in the frontmatter, and compared in
+ * their normalized form when filtering.
+ */
+
+import type { Memory } from './types.js';
+
+export const ATTRIBUTE_KEYS = [
+  'name',          // "Sarah Connor"
+  'nickname',      // "Sis"
+  'email',         // "sarah@example.com"
+  'phone',         // "+1 555 123 4567" (stored as +15551234567)
+  'address',       // "12 Main St, Springfield"
+  'birthday',      // "1985-05-13", or "--05-13" without a year
+  'url',           // "https://example.com"
+  'organization',  // "Cyberdyne Systems"
+  'title',         // "Head of Security"
+] as const;
+
+export type AttributeKey = typeof ATTRIBUTE_KEYS[number];
+
+export type MemoryAttributes = Partial<Record<AttributeKey, string>>;
+
+/**
+ * Changes to a memory's attributes: a value sets the key, null removes it
+ */
+export type AttributePatch = Partial<Record<AttributeKey, string | null>>;
+
+export const ATTRIBUTE_DESCRIPTIONS: Record<AttributeKey, string> = {
+  name: 'Full name',
+  nickname: 'Nickname or what the user calls them',
+  email: 'Email address',
+  phone: 'Phone number, ideally with country code',
+  address: 'Postal address',
+  birthday: 'Birthday as YYYY-MM-DD, or --MM-DD when the year is unknown',
+  url: 'Website or profile URL',
+  organization: 'Company or organization',
+  title: 'Job title or role',
+};
+
+export class AttributeValidationError extends Error {
+  readonly key: string;
+
+  constructor(key: string, message: string) {
+    super(`Invalid attribute "${key}": ${message}`);
+    this.name = 'AttributeValidationError';
+    this.key = key;
+  }
+}
+
+const MAX_TEXT_LENGTH = 500;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE = /^\+?[0-9\s().\-/]+$/;
+const BIRTHDAY = /^(\d{4}|-)-(\d{2})-(\d{2})$/;
+
+export function isAttributeKey(key: string): key is AttributeKey {
+  return (ATTRIBUTE_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Validate and normalize one attribute value. Throws AttributeValidationError.
+ */
+export function normalizeAttribute(key: string, value: unknown): string {
+  if (!isAttributeKey(key)) {
+    throw new AttributeValidationError(key, `unknown attribute; use one of ${ATTRIBUTE_KEYS.join(', ')}`);
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new AttributeValidationError(key, 'must be a string');
+  }
+  const text = String(value).trim();
+  if (!text) {
+    throw new AttributeValidationError(key, 'must not be empty');
+  }
+
+  switch (key) {
+    case 'email':
+      if (!EMAIL.test(text)) throw new AttributeValidationError(key, `"${text}" is not an email address`);
+      return text.toLowerCase();
+
+    case 'phone': {
+      const digits = text.replace(/\D/g, '');
+      if (!PHONE.test(text) || digits.length < 3 || digits.length > 15) {
+        throw new AttributeValidationError(key, `"${text}" is not a phone number`);
+      }
+      return `${text.startsWith('+') ? '+' : ''}${digits}`;
+    }
+
+    case 'birthday': {
+      const match = text.match(BIRTHDAY);
+      // Leap year so --02-29 is accepted
+      const year = match?.[1] === '-' ? 2000 : Number(match?.[1]);
+      const date = match ? new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]))) : null;
+      if (!match || !date || date.getUTCMonth() !== Number(match[2]) - 1 || date.getUTCDate() !== Number(match[3])) {
+        throw new AttributeValidationError(key, `"${text}" is not a date (YYYY-MM-DD or --MM-DD)`);
+      }
+      return text;
+    }
+
+    case 'url': {
+      let url: URL;
+      try {
+        url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(text) ? text : `https://${text}`);
+      } catch {
+        throw new AttributeValidationError(key, `"${text}" is not a URL`);
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new AttributeValidationError(key, 'only http and https URLs are allowed');
+      }
+      return url.toString();
+    }
+
+    default:
+      if (text.length > MAX_TEXT_LENGTH) {
+        throw new AttributeValidationError(key, `longer than ${MAX_TEXT_LENGTH} characters`);
+      }
+      return text.replace(/\s*\n\s*/g, ', ');
+  }
+}
+
+/**
+ * Validate and normalize a set of attributes. Undefined when there are none.
+ */
+export function normalizeAttributes(input: Record<string, unknown> | undefined): MemoryAttributes | undefined {
+  if (!input) return undefined;
+  const attributes: MemoryAttributes = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (value === undefined || value === null) continue;
+    attributes[key as AttributeKey] = normalizeAttribute(key, value);
+  }
+  return Object.keys(attributes).length > 0 ? sortAttributes(attributes) : undefined;
+}
+
+/**
+ * Apply a patch to a memory's attributes. Undefined when none are left.
+ */
+export function applyAttributePatch(
+  current: MemoryAttributes | undefined,
+  patch: AttributePatch
+): MemoryAttributes | undefined {
+  const merged: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    // Unknown keys are an error even when removing them
+    if (!isAttributeKey(key)) normalizeAttribute(key, value);
+    if (value === null) delete merged[key];
+    else if (value !== undefined) merged[key] = value;
+  }
+  return normalizeAttributes(merged);
+}
+
+/**
+ * Whether a memory has every attribute in the filter. Comparison is exact
+ * after normalization and ignores case, so "+1 (555) 123-4567" finds
+ * "+15551234567" and "sarah@Example.com" finds "sarah@example.com".
+ */
+export function matchesAttributes(memory: Memory, filter: Record<string, string> | undefined): boolean {
+  if (!filter) return true;
+  for (const [key, wanted] of Object.entries(filter)) {
+    const actual = memory.attributes?.[key as AttributeKey];
+    if (actual === undefined) return false;
+    if (comparable(key, actual) !== comparable(key, wanted)) return false;
+  }
+  return true;
+}
+
+/**
+ * Attributes as one line of text, for keyword search and tool output
+ */
+export function formatAttributes(attributes: MemoryAttributes | undefined): string {
+  if (!attributes) return '';
+  return Object.entries(attributes).map(([key, value]) => `${key}: ${value}`).join('; ');
+}
+
+/**
+ * Attributes read from a file: kept as written (hand edits aren't rejected)
+ * but only string values of known keys
+ */
+export function readAttributes(value: unknown): MemoryAttributes | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const attributes: MemoryAttributes = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (isAttributeKey(key) && raw !== null && raw !== undefined && typeof raw !== 'object') {
+      attributes[key] = String(raw);
+    }
+  }
+  return Object.keys(attributes).length > 0 ? attributes : undefined;
+}
+
+function comparable(key: string, value: string): string {
+  try {
+    return normalizeAttribute(key, value).toLowerCase();
+  } catch {
+    return value.trim().toLowerCase();
+  }
+}
+
+// Keys in ATTRIBUTE_KEYS order, so files and exports are stable
+function sortAttributes(attributes: MemoryAttributes): MemoryAttributes {
+  const sorted: MemoryAttributes = {};
+  for (const key of ATTRIBUTE_KEYS) {
+    if (attributes[key] !== undefined) sorted[key] = attributes[key];
+  }
+  return sorted;
+}
@@ -0,0 +1,202 @@
+/**
+ * Storage Backend Contract Tests
+ *
+ * Every MemoryBackend implementation must pass the same suite.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import type { MemoryBackend } from './backend.js';
+import { MemoryFileManager } from './file-manager.js';
+import { SqliteBackend } from './sqlite-backend.js';
+
+const backends: Array<[string, (dir: string) => MemoryBackend]> = [
+  ['markdown', dir => new MemoryFileManager(dir, { watch: false })],
+  ['sqlite', dir => new SqliteBackend(dir)],
+];
+
+describe.each(backends)('MemoryBackend contract: %s', (_name, createBackend) => {
+  let tempDir: string;
+  let backend: MemoryBackend;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    backend = createBackend(tempDir);
+    await backend.init();
+  });
+
+  afterEach(() => {
+    backend.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create and get memories by full and short id', () => {
+    const memory = backend.create({
+      content: 'User prefers "dark mode", always',
+      category: 'preference',
+      confidence: 0.9,
+      tags: ['ui', 'a, b'],
+      sourceChannel: 'telegram',
+    });
+
+    expect(backend.get(memory.id)).toMatchObject({
+      content: 'User prefers "dark mode", always',
+      category: 'preference',
+      confidence: 0.9,
+      importance: 0.5,
+      decayDays: null,
+      tags: ['ui', 'a, b'],
+      sourceChannel: 'telegram',
+    });
+    expect(backend.get(memory.id.slice(0, 8))?.id).toBe(memory.id);
+    expect(backend.get('missing')).toBeNull();
+  });
+
+  it('should update only the given fields and keep a revision', () => {
+    const memory = backend.create({ content: 'Original', category: 'fact', tags: ['keep'] });
+
+    const updated = backend.update(memory.id, { content: 'Changed', confidence: undefined }, { actor: 'test' });
+    expect(updated?.content).toBe('Changed');
+    expect(updated?.confidence).toBe(0.8);
+    expect(updated?.tags).toEqual(['keep']);
+
+    const history = backend.history(memory.id);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ revision: 1, action: 'update', actor: 'test' });
+    expect(history[0].memory.content).toBe('Original');
+
+    expect(backend.update('missing', { content: 'x' })).toBeNull();
+  });
+
+  it('should revert to a revision', () => {
+    const memory = backend.create({ content: 'First', category: 'fact' });
+    backend.update(memory.id, { content: 'Second' });
+
+    expect(backend.revert(memory.id, 1)?.content).toBe('First');
+    expect(backend.history(memory.id).map(r => r.action)).toEqual(['update', 'revert']);
+    expect(() => backend.revert(memory.id, 9)).toThrow('Revision 9');
+  });
+
+  it('should soft delete, list deleted and restore', () => {
+    const memory = backend.create({ content: 'To forget', category: 'fact' });
+
+    expect(backend.delete(memory.id, 'no longer true')).toBe(true);
+    expect(backend.get(memory.id)).toBeNull();
+    expect(backend.count()).toBe(0);
+    expect(backend.listDeleted().map(m => [m.id, m.deleteReason])).toEqual([[memory.id, 'no longer true']]);
+    expect(backend.getDeleted(memory.id.slice(0, 8))?.id).toBe(memory.id);
+
+    const restored = backend.restore(memory.id);
+    expect(restored?.deletedAt).toBeUndefined();
+    expect(backend.get(memory.id)?.content).toBe('To forget');
+    expect(backend.listDeleted()).toEqual([]);
+    expect(backend.delete('missing')).toBe(false);
+  });
+
+  it('should purge deleted memories per the retention policy', () => {
+    for (let i = 0; i < 3; i++) {
+      backend.delete(backend.create({ content: `Trash ${i}`, category: 'fact' }).id);
+    }
+
+    expect(backend.purgeDeleted({ maxItems: 1, dryRun: true }).purged).toHaveLength(2);
+    expect(backend.listDeleted()).toHaveLength(3);
+
+    const result = backend.purgeDeleted({ maxItems: 1 });
+    expect(result.purged).toHaveLength(2);
+    expect(result.remaining).toBe(1);
+    expect(backend.listDeleted()).toHaveLength(1);
+    expect(backend.history(result.purged[0].id)).toEqual([]);
+  });
+
+  it('should archive out of reach of the purge and restore', () => {
+    const memory = backend.create({ content: 'Dentist on Monday', category: 'event' });
+
+    expect(backend.archive(memory.id, 'Expired 2026-03-01')).toBe(true);
+    expect(backend.get(memory.id)).toBeNull();
+    expect(backend.listDeleted()).toEqual([]);
+    expect(backend.listArchived().map(m => [m.id, m.archiveReason])).toEqual([[memory.id, 'Expired 2026-03-01']]);
+
+    expect(backend.purgeDeleted({ maxItems: 0 }).purged).toEqual([]);
+    expect(backend.getArchived(memory.id.slice(0, 8))?.id).toBe(memory.id);
+
+    const restored = backend.restore(memory.id);
+    expect(restored?.archivedAt).toBeUndefined();
+    expect(backend.get(memory.id)?.content).toBe('Dentist on Monday');
+    expect(backend.listArchived()).toEqual([]);
+    expect(backend.archive('missing')).toBe(false);
+  });
+
+  it('should list with category filter, sorting and pagination', () => {
+    backend.create({ content: 'Low', category: 'fact', importance: 0.1 });
+    backend.create({ content: 'High', category: 'fact', importance: 0.9 });
+    backend.create({ content: 'Mid', category: 'fact', importance: 0.5 });
+    backend.create({ content: 'Other', category: 'preference', importance: 0.7 });
+
+    const page = backend.list({ category: 'fact', sortBy: 'importance', sortOrder: 'desc', limit: 2 });
+    expect(page.total).toBe(3);
+    expect(page.items.map(m => m.content)).toEqual(['High', 'Mid']);
+
+    const next = backend.list({ category: 'fact', sortBy: 'importance', sortOrder: 'desc', limit: 2, offset: 2 });
+    expect(next.items.map(m => m.content)).toEqual(['Low']);
+
+    expect(backend.list({ sortBy: 'importance', sortOrder: 'asc', limit: 1 }).items[0].content).toBe('Low');
+    expect(backend.getByCategory('fact', 2).map(m => m.content)).toEqual(['High', 'Mid']);
+    expect(backend.all('preference').map(m => m.content)).toEqual(['Other']);
+    expect(backend.all()).toHaveLength(4);
+    expect(backend.count()).toBe(4);
+  });
+
+  it('should touch last accessed time', async () => {
+    const memory = backend.create({ content: 'Touched', category: 'fact' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    backend.touchMany([memory.id, 'missing']);
+    expect(backend.get(memory.id)!.lastAccessedAt).toBeGreaterThan(memory.lastAccessedAt);
+  });
+
+  it('should persist across reopening', async () => {
+    const memory = backend.create({ content: 'Durable', category: 'decision', decayDays: 30 });
+    backend.update(memory.id, { importance: 0.9 });
+    backend.close();
+
+    backend = createBackend(tempDir);
+    await backend.init();
+    expect(backend.get(memory.id)).toMatchObject({ content: 'Durable', decayDays: 30, importance: 0.9 });
+    expect(backend.history(memory.id)).toHaveLength(1);
+  });
+
+  it('should store, patch and revert attributes', async () => {
+    const memory = backend.create({
+      content: 'Sarah is my sister',
+      category: 'entity',
+      attributes: { name: 'Sarah Connor', email: 'sarah@example.com' },
+    });
+
+    backend.update(memory.id, { attributes: { email: null, phone: '+15551234567' } });
+    expect(backend.get(memory.id)!.attributes).toEqual({ name: 'Sarah Connor', phone: '+15551234567' });
+
+    backend.revert(memory.id, 1);
+    backend.close();
+    backend = createBackend(tempDir);
+    await backend.init();
+    expect(backend.get(memory.id)!.attributes).toEqual({ name: 'Sarah Connor', email: 'sarah@example.com' });
+
+    backend.update(memory.id, { attributes: { name: null, email: null } });
+    expect(backend.get(memory.id)!.attributes).toBeUndefined();
+  });
+
+  it('should keep reinforcement evidence across reloads', async () => {
+    const memory = backend.create({ content: 'User is vegetarian', category: 'fact' });
+    const evidence = [{ at: 1767225600000, channel: 'telegram', messageId: '42' }, { at: 1767312000000 }];
+
+    backend.update(memory.id, { confidence: 0.86, evidence }, { action: 'reinforce' });
+    backend.close();
+    backend = createBackend(tempDir);
+    await backend.init();
+
+    expect(backend.get(memory.id)).toMatchObject({ confidence: 0.86, evidence });
+    expect(backend.history(memory.id)[0].action).toBe('reinforce');
+  });
+});
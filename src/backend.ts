@@ -0,0 +1,195 @@
+/**
+ * Storage Backend Interface
+ *
+ * The operations MemoryStoreV2 needs from storage. The markdown file
+ * manager is the default implementation; SqliteBackend keeps everything
+ * in a single sql.js database file instead.
+ */
+
+import type {
+  Memory,
+  MemoryCategory,
+  CreateMemoryInput,
+  UpdateMemoryInput,
+  ListOptions,
+  PurgeDeletedOptions,
+  PurgeDeletedResult,
+  RevisionMeta,
+  MemoryRevision,
+  WriteConditions,
+} from './types.js';
+import { ATTRIBUTE_KEYS } from './attributes.js';
+
+export const BACKEND_TYPES = [
+  'markdown', // One .md file per memory (default, human-editable, QMD-searchable)
+  'sqlite',   // One sql.js database file per namespace
+] as const;
+
+export type BackendType = typeof BACKEND_TYPES[number];
+
+export interface MemoryBackend {
+  /** Load anything the backend needs before first use */
+  init(): Promise<void>;
+
+  /** meta says what made the change (used by git versioning) */
+  create(input: CreateMemoryInput, meta?: RevisionMeta): Memory;
+  /** Full UUID or 8-character short ID; deleted memories are not returned */
+  get(id: string): Memory | null;
+  /** Keeps the previous version as a revision; throws MemoryConflictError on a stale write */
+  update(id: string, updates: UpdateMemoryInput, meta?: RevisionMeta, conditions?: WriteConditions): Memory | null;
+  /** Soft delete */
+  delete(id: string, reason?: string, meta?: RevisionMeta): boolean;
+  /** Move an expired memory to the archive, which purging leaves alone */
+  archive(id: string, reason?: string, meta?: RevisionMeta): boolean;
+
+  /** Bring back a deleted or archived memory */
+  restore(id: string, meta?: RevisionMeta): Memory | null;
+  listDeleted(limit?: number): Memory[];
+  getDeleted(id: string): Memory | null;
+  /** Every archived memory (unsorted) */
+  listArchived(): Memory[];
+  getArchived(id: string): Memory | null;
+  purgeDeleted(options: PurgeDeletedOptions, now?: number): PurgeDeletedResult;
+
+  history(id: string): MemoryRevision[];
+  revert(id: string, revision: number, meta?: RevisionMeta): Memory | null;
+
+  list(options?: ListOptions): { total: number; items: Memory[] };
+  getByCategory(category: MemoryCategory, limit?: number): Memory[];
+  /** All non-deleted memories, optionally limited to one category (unsorted) */
+  all(category?: MemoryCategory): Memory[];
+  touchMany(ids: string[]): void;
+  count(): number;
+
+  close(): void;
+}
+
+/**
+ * A compare-and-swap update lost: another writer changed the same fields
+ * since the caller read the memory
+ */
+export class MemoryConflictError extends Error {
+  constructor(public current: Memory, public fields: string[]) {
+    super(`Memory ${current.id} was changed by another writer (${fields.join(', ')}); re-read it and retry`);
+    this.name = 'MemoryConflictError';
+  }
+}
+
+/**
+ * A deleted or archived memory can't be restored: an active memory with
+ * the same id is in the way (e.g. brought back by a git rollback)
+ */
+export class MemoryExistsError extends Error {
+  constructor(public id: string) {
+    super(`Memory ${id} already exists and cannot be restored over`);
+    this.name = 'MemoryExistsError';
+  }
+}
+
+const UPDATABLE_FIELDS = [
+  'content', 'category', 'confidence', 'importance', 'decayDays', 'tags', 'attributes', 'evidence',
+  'startsAt', 'endsAt', 'recurrence',
+] as const;
+
+/**
+ * Check a write against its conditions. When the memory moved on since the
+ * expected version, the update may still go through if nobody else touched
+ * the fields it changes; the base version comes from the revision history.
+ */
+export function checkWriteConditions(
+  backend: MemoryBackend,
+  current: Memory,
+  updates: UpdateMemoryInput,
+  conditions: WriteConditions
+): void {
+  const expected = conditions.expectedUpdatedAt;
+  if (expected === undefined || current.updatedAt === expected) return;
+
+  const base = backend.history(current.id).find(r => r.memory.updatedAt === expected)?.memory;
+  const requested = UPDATABLE_FIELDS.filter(field => updates[field] !== undefined);
+  if (!base) {
+    throw new MemoryConflictError(current, [...requested]);
+  }
+
+  const conflicting = requested.filter(field =>
+    JSON.stringify(base[field]) !== JSON.stringify(current[field]) &&
+    JSON.stringify(updates[field]) !== JSON.stringify(current[field])
+  );
+  if (conflicting.length > 0) {
+    throw new MemoryConflictError(current, conflicting);
+  }
+}
+
+/**
+ * updatedAt for a new version. Strictly increasing per memory, so two writes
+ * in the same millisecond still count as different versions.
+ */
+export function nextUpdatedAt(previous: Memory): number {
+  return Math.max(Date.now(), previous.updatedAt + 1);
+}
+
+/**
+ * Shared revert: apply the fields captured in a revision as a new update,
+ * so the state being replaced is itself kept as a revision
+ */
+export function revertToRevision(
+  backend: MemoryBackend,
+  id: string,
+  revision: number,
+  meta: RevisionMeta = {}
+): Memory | null {
+  const existing = backend.get(id);
+  if (!existing) return null;
+
+  const target = backend.history(existing.id).find(r => r.revision === revision);
+  if (!target) {
+    throw new Error(`Revision ${revision} of memory ${existing.id} not found`);
+  }
+
+  const snapshot = target.memory;
+  return backend.update(
+    existing.id,
+    {
+      content: snapshot.content,
+      category: snapshot.category,
+      confidence: snapshot.confidence,
+      importance: snapshot.importance,
+      decayDays: snapshot.decayDays,
+      tags: snapshot.tags,
+      // Keys added since the revision are removed
+      attributes: Object.fromEntries(ATTRIBUTE_KEYS.map(key => [key, snapshot.attributes?.[key] ?? null])),
+      startsAt: snapshot.startsAt ?? null,
+      endsAt: snapshot.endsAt ?? null,
+      recurrence: snapshot.recurrence ?? null,
+    },
+    { action: 'revert', reason: `Reverted to revision ${revision}`, ...meta }
+  );
+}
+
+/**
+ * Pick the deleted entries a retention policy purges. Entries must be
+ * sorted most recently deleted first.
+ */
+export function selectPurgeable<T extends { deletedAt: number }>(
+  deleted: T[],
+  options: PurgeDeletedOptions,
+  now: number
+): Set<T> {
+  const toPurge = new Set<T>();
+
+  if (options.retentionDays !== undefined) {
+    const cutoff = now - options.retentionDays * 86400000;
+    for (const entry of deleted) {
+      if (entry.deletedAt < cutoff) toPurge.add(entry);
+    }
+  }
+
+  if (options.maxItems !== undefined) {
+    const kept = deleted.filter(entry => !toPurge.has(entry));
+    for (const entry of kept.slice(options.maxItems)) {
+      toPurge.add(entry);
+    }
+  }
+
+  return toPurge;
+}
@@ -0,0 +1,107 @@
+/**
+ * Built-in BM25 Search Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { BM25_FILENAME } from './bm25.js';
+import { INDEX_DIR } from './sidecar.js';
+import { stem, tokenize } from './tokenizer.js';
+import { MemoryCipher } from './encryption.js';
+import { MemoryStoreV2 } from './store.js';
+
+describe('tokenize', () => {
+  it('should drop stopwords and stem English words', () => {
+    expect(tokenize('What does my sister do?')).toEqual(['sister']);
+    expect(tokenize("User's sisters are working at the Café")).toEqual(['user', 'sister', 'work', 'cafe']);
+    expect(['connected', 'connecting', 'connection', 'connections'].map(stem)).toEqual(['connect', 'connect', 'connect', 'connect']);
+  });
+});
+
+describe('MemoryStore built-in search', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find memories by stemmed terms and boost tags', async () => {
+    const sister = await store.create({ content: "User's sister works as a nurse", category: 'relationship' });
+    const tagged = await store.create({ content: 'Weekly sync every Monday', category: 'event', tags: ['work'] });
+    await store.create({ content: 'User prefers dark mode', category: 'preference' });
+
+    const results = await store.search({ query: 'what does my sister do', rankBy: 'relevance' });
+    expect(results.map(r => r.memory.id)).toEqual([sister.id]);
+    expect(results[0].score).toBe(1);
+
+    // The tag counts for more than the same word in the text
+    const work = await store.search({ query: 'working', rankBy: 'relevance' });
+    expect(work.map(r => r.memory.id)).toEqual([tagged.id, sister.id]);
+
+    expect(await store.search({ query: 'what is the' })).toEqual([]);
+  });
+
+  it('should persist the index and keep it in sync with changes', async () => {
+    const memory = await store.create({ content: 'Flight to Lisbon on Friday', category: 'event' });
+    await store.update(memory.id, { content: 'Flight to Porto on Friday' });
+    store.close();
+
+    const indexPath = path.join(tempDir, INDEX_DIR, BM25_FILENAME);
+    const saved = fs.readFileSync(indexPath, 'utf-8');
+    expect(saved).toContain('porto');
+    expect(saved).not.toContain('lisbon');
+
+    // An index older than the memories (e.g. left by a process that didn't
+    // get to save) is brought up to date before searching
+    store = new MemoryStoreV2(tempDir);
+    await store.update(memory.id, { content: 'Flight to Madrid on Friday' });
+    store.close();
+    fs.writeFileSync(indexPath, saved, 'utf-8');
+
+    store = new MemoryStoreV2(tempDir);
+    expect((await store.search({ query: 'madrid' })).map(r => r.memory.id)).toEqual([memory.id]);
+    expect(await store.search({ query: 'porto' })).toEqual([]);
+  });
+
+  it('should seal the index when encryption is on', async () => {
+    store.close();
+    store = new MemoryStoreV2(tempDir, 'memories', { encryption: 'full', cipher: new MemoryCipher('passphrase') });
+    await store.create({ content: 'Bank PIN hint: birthday of Rex', category: 'fact' });
+    expect((await store.search({ query: 'rex' })).length).toBe(1);
+    store.close();
+
+    expect(fs.readFileSync(path.join(tempDir, INDEX_DIR, BM25_FILENAME), 'utf-8')).not.toContain('rex');
+  });
+
+  it('should not keep a plaintext index once the store is encrypted', async () => {
+    const memory = await store.create({ content: 'Safe combination hint: Rex', category: 'fact' });
+    expect((await store.search({ query: 'rex' })).length).toBe(1);
+    store.close();
+    const indexPath = path.join(tempDir, INDEX_DIR, BM25_FILENAME);
+    const plaintext = fs.readFileSync(indexPath, 'utf-8');
+    expect(plaintext).toContain('rex');
+
+    const cipher = new MemoryCipher('passphrase');
+    store = new MemoryStoreV2(tempDir, 'memories', { encryption: 'full', cipher });
+    store.reencode();
+    expect(fs.existsSync(indexPath)).toBe(false);
+    store.close();
+
+    // A plaintext index put back (e.g. from a backup) is rebuilt sealed
+    fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+    fs.writeFileSync(indexPath, plaintext, 'utf-8');
+    store = new MemoryStoreV2(tempDir, 'memories', { encryption: 'full', cipher });
+    expect((await store.search({ query: 'rex' })).map(r => r.memory.id)).toEqual([memory.id]);
+    store.close();
+    expect(fs.readFileSync(indexPath, 'utf-8')).not.toContain('rex');
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Built-in BM25 Search
+ *
+ * An inverted index over memory content, tags and attribute values, scored
+ * with Okapi BM25, for when QMD isn't installed (or finds nothing). Tags and
+ * attributes count for more than a word in the content: a memory tagged
+ * "work" is about work even if the text never says so.
+ *
+ * The index is persisted to .index/bm25.json in the memories directory
+ * (sealed with the store's cipher when encryption is on) and kept up to
+ * date as memories are written. Before each search it is checked against
+ * the memories themselves, so edits by other processes, git rollbacks and
+ * repairs are picked up too.
+ */
+
+import type { Memory } from './types.js';
+import type { MemoryCipher } from './encryption.js';
+import type {
+  SearchEngine,
+  SearchEngineContext,
+  SearchEngineStatus,
+  SearchHit,
+  SearchQueryOptions,
+} from './search-engine.js';
+import { SidecarFile } from './sidecar.js';
+import { tokenize } from './tokenizer.js';
+
+export const BM25_FILENAME = 'bm25.json';
+
+// How much one occurrence of a term in each field counts
+export const FIELD_BOOSTS = { content: 1, tags: 2, attributes: 1.5 };
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Bumped when tokenization or the file format changes; older files are rebuilt
+const FORMAT_VERSION = 1;
+
+interface IndexedMemory {
+  updatedAt: number;
+  /** Weighted term count */
+  length: number;
+  /** Term -> weighted frequency */
+  terms: Record<string, number>;
+}
+
+interface IndexFile {
+  version: number;
+  memories: Record<string, IndexedMemory>;
+}
+
+export class Bm25Index {
+  private file: SidecarFile;
+  private memories = new Map<string, IndexedMemory>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+  private loaded = false;
+
+  /**
+   * memoriesPath is the directory the index is saved in (under .index/).
+   * With a cipher the file is sealed, since it holds the words of every memory.
+   */
+  constructor(memoriesPath: string, options: { cipher?: MemoryCipher } = {}) {
+    this.file = new SidecarFile(memoriesPath, BM25_FILENAME, options);
+  }
+
+  /**
+   * Number of indexed memories
+   */
+  get size(): number {
+    this.load();
+    return this.memories.size;
+  }
+
+  /**
+   * Bring the index in line with the given (active) memories, re-indexing
+   * only those that are new or changed since they were indexed
+   */
+  sync(memories: Memory[]): void {
+    this.load();
+    const current = new Set<string>();
+    for (const memory of memories) {
+      current.add(memory.id);
+      if (this.memories.get(memory.id)?.updatedAt !== memory.updatedAt) {
+        this.upsert(memory);
+      }
+    }
+    for (const id of this.memories.keys()) {
+      if (!current.has(id)) this.remove(id);
+    }
+  }
+
+  /**
+   * Index a memory, replacing what was indexed for it before
+   */
+  upsert(memory: Memory): void {
+    this.load();
+    this.unindex(memory.id);
+
+    const terms: Record<string, number> = {};
+    let length = 0;
+    const add = (text: string, boost: number) => {
+      for (const term of tokenize(text)) {
+        terms[term] = (terms[term] ?? 0) + boost;
+        length += boost;
+      }
+    };
+    add(memory.content, FIELD_BOOSTS.content);
+    add(memory.tags.join(' '), FIELD_BOOSTS.tags);
+    add(Object.values(memory.attributes ?? {}).join(' '), FIELD_BOOSTS.attributes);
+
+    this.index(memory.id, { updatedAt: memory.updatedAt, length, terms });
+    this.scheduleSave();
+  }
+
+  /**
+   * Drop a memory from the index
+   */
+  remove(id: string): void {
+    this.load();
+    if (!this.memories.has(id)) return;
+    this.unindex(id);
+    this.scheduleSave();
+  }
+
+  /**
+   * Score of every memory matching at least one query term, by id: its BM25
+   * score as a share of a perfect match's (every query term once, in a
+   * memory of average length). Repeated terms and boosted fields score
+   * above 1; sharing one rare word of a long query scores low however few
+   * other memories match.
+   */
+  search(query: string): Map<string, number> {
+    this.load();
+    const scores = new Map<string, number>();
+    const count = this.memories.size;
+    if (count === 0) return scores;
+    const averageLength = this.totalLength / count || 1;
+
+    let perfect = 0;
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      const matching = posting?.size ?? 0;
+      // Never negative, so a term in most memories still counts a little
+      const idf = Math.log(1 + (count - matching + 0.5) / (matching + 0.5));
+      // A term found once in a memory of average length scores exactly its idf
+      perfect += idf;
+      for (const [id, frequency] of posting ?? []) {
+        const length = this.memories.get(id)!.length;
+        const saturation = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * saturation);
+      }
+    }
+    for (const [id, score] of scores) {
+      scores.set(id, score / perfect);
+    }
+    return scores;
+  }
+
+  /**
+   * Write pending changes now (called when the store closes)
+   */
+  flush(): void {
+    this.file.flush();
+  }
+
+  private index(id: string, entry: IndexedMemory): void {
+    this.memories.set(id, entry);
+    this.totalLength += entry.length;
+    for (const [term, frequency] of Object.entries(entry.terms)) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+  }
+
+  private unindex(id: string): void {
+    const entry = this.memories.get(id);
+    if (!entry) return;
+    this.memories.delete(id);
+    this.totalLength -= entry.length;
+    for (const term of Object.keys(entry.terms)) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+  }
+
+  /**
+   * Read the saved index once. A missing, outdated or unreadable file
+   * leaves it empty; the next sync rebuilds it.
+   */
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const text = this.file.read();
+    if (text === null) return;
+    try {
+      const file = JSON.parse(text) as IndexFile;
+      if (file.version !== FORMAT_VERSION || !file.memories || typeof file.memories !== 'object') return;
+      for (const [id, entry] of Object.entries(file.memories)) {
+        if (typeof entry?.updatedAt === 'number' && typeof entry.length === 'number' && entry.terms) {
+          this.index(id, entry);
+        }
+      }
+    } catch {
+      // Rebuilt from the memories on the next sync
+    }
+  }
+
+  private scheduleSave(): void {
+    this.file.scheduleWrite(() => {
+      const file: IndexFile = { version: FORMAT_VERSION, memories: Object.fromEntries(this.memories) };
+      return JSON.stringify(file);
+    });
+  }
+}
+
+/**
+ * The BM25 index as a search engine. Scores are Bm25Index.search's share of
+ * a perfect match (capped at 1), so a weak best match still scores low.
+ */
+export class Bm25Engine implements SearchEngine {
+  readonly name = 'bm25';
+  readonly methods = ['keyword'] as const;
+  readonly fast = true;
+  private context: SearchEngineContext;
+  private bm25: Bm25Index;
+
+  constructor(context: SearchEngineContext) {
+    this.context = context;
+    this.bm25 = new Bm25Index(context.memoriesPath, { cipher: context.cipher });
+  }
+
+  index(memories: Memory[]): void {
+    for (const memory of memories) this.bm25.upsert(memory);
+  }
+
+  remove(ids: string[]): void {
+    for (const id of ids) this.bm25.remove(id);
+  }
+
+  async query(query: string, options: SearchQueryOptions): Promise<SearchHit[]> {
+    this.bm25.sync(this.context.memories());
+    const hits: SearchHit[] = [];
+    for (const [id, score] of this.bm25.search(query)) {
+      if (score > 0 && (!options.accept || options.accept(id))) hits.push({ id, score });
+    }
+    return hits
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit)
+      .map(hit => ({ id: hit.id, score: Math.min(1, hit.score) }));
+  }
+
+  /**
+   * Shared words say two memories are about the same thing, not that they
+   * say the same, so this engine never reports duplicates
+   */
+  async findSimilar(): Promise<SearchHit[]> {
+    return [];
+  }
+
+  async status(): Promise<SearchEngineStatus> {
+    return { name: this.name, available: true, documents: this.bm25.size };
+  }
+
+  async rebuild(memories: Memory[]): Promise<void> {
+    for (const memory of memories) this.bm25.upsert(memory);
+    this.bm25.sync(memories);
+  }
+
+  close(): void {
+    this.bm25.flush();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Category Registry Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { CategoryRegistry } from './categories.js';
+import { MemoryStoreV2 } from './store.js';
+import { createMemoryTools } from './tools.js';
+import { runDoctor } from './doctor.js';
+
+describe('CategoryRegistry', () => {
+  it('should add configured categories after the built-ins', () => {
+    const registry = new CategoryRegistry({
+      recipe: { description: 'Recipes the user likes', defaultImportance: 0.3 },
+      'credential-hint': { dir: 'credential-hints', defaultDecayDays: 90 },
+      event: { defaultDecayDays: 30 },
+    });
+
+    expect(registry.names().slice(0, 8)).toEqual([
+      'fact', 'preference', 'event', 'relationship', 'context', 'instruction', 'decision', 'entity',
+    ]);
+    expect(registry.get('recipe')).toMatchObject({ dir: 'recipe', defaultImportance: 0.3, defaultDecayDays: null });
+    expect(registry.dirOf('credential-hint')).toBe('credential-hints');
+    expect(registry.get('event')).toMatchObject({ dir: 'events', defaultDecayDays: 30 });
+    expect(() => registry.dirOf('unknown')).toThrow('Unknown memory category');
+  });
+
+  it('should reject invalid names and directories', () => {
+    expect(() => new CategoryRegistry({ 'Bad Name': {} })).toThrow('Invalid category name');
+    expect(() => new CategoryRegistry({ project: { dir: '../outside' } })).toThrow('Invalid directory');
+    expect(() => new CategoryRegistry({ project: { dir: 'namespaces' } })).toThrow('Invalid directory');
+    expect(() => new CategoryRegistry({ project: { dir: 'facts' } })).toThrow('share directory');
+    expect(() => new CategoryRegistry({ fact: { dir: 'knowledge' } })).toThrow("can't be changed");
+  });
+});
+
+describe('MemoryStore with custom categories', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+  const categories = new CategoryRegistry({
+    health: { description: 'Medical details', defaultImportance: 0.9, defaultDecayDays: 365 },
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir, 'memories', { categories });
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store custom categories in their own directory with their defaults', async () => {
+    const memory = await store.create({ content: 'Allergic to penicillin', category: 'health' });
+
+    expect(memory).toMatchObject({ importance: 0.9, decayDays: 365 });
+    expect(fs.existsSync(path.join(tempDir, 'health', `${memory.id}.md`))).toBe(true);
+    expect(store.getByCategory('health').map(m => m.id)).toEqual([memory.id]);
+
+    const permanent = await store.create({ content: 'Blood type O+', category: 'health', importance: 1, decayDays: null });
+    expect(permanent).toMatchObject({ importance: 1, decayDays: null });
+
+    // Built-ins keep their old defaults
+    expect(await store.create({ content: 'Has a dog', category: 'fact' })).toMatchObject({ importance: 0.5, decayDays: null });
+    expect((await runDoctor(tempDir, { categories })).issues).toEqual([]);
+  });
+
+  it('should reject categories that are not configured', async () => {
+    await expect(store.create({ content: 'Pasta carbonara', category: 'recipe' })).rejects.toThrow('Unknown memory category');
+    const memory = await store.create({ content: 'Pasta carbonara', category: 'fact' });
+    await expect(store.update(memory.id, { category: 'recipe' })).rejects.toThrow('Unknown memory category');
+  });
+
+  it('should offer the configured categories in tool schemas', () => {
+    const tools = createMemoryTools(store as any, { categories });
+    const schema = tools.memory_store.parameters.properties.category as any;
+
+    expect(schema.enum).toContain('health');
+    expect(schema.description).toContain('health: Medical details');
+    expect((tools.memory_list.parameters.properties.category as any).enum).toEqual(categories.names());
+  });
+});
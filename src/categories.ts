@@ -0,0 +1,169 @@
+/**
+ * Memory Category Registry
+ *
+ * The eight built-in categories plus any defined in plugin config. Each
+ * category has its own directory under memoriesPath and defaults applied
+ * when a memory is stored without explicit importance or decay. Tool
+ * schemas list the categories from here, so agents only see what exists.
+ */
+
+import { MEMORY_CATEGORIES, type BuiltinMemoryCategory, type MemoryCategory } from './types.js';
+
+export interface CategoryDefinition {
+  name: MemoryCategory;
+  /** Directory under memoriesPath (and each namespace) */
+  dir: string;
+  /** Shown to the agent in tool schemas */
+  description: string;
+  /** Days until a memory of this category goes stale; null = permanent */
+  defaultDecayDays: number | null;
+  defaultImportance: number;
+}
+
+/**
+ * Category settings as written in plugin config, keyed by category name
+ */
+export interface CategoryConfig {
+  dir?: string;
+  description?: string;
+  defaultDecayDays?: number | null;
+  defaultImportance?: number;
+}
+
+const BUILTIN_DESCRIPTIONS: Record<BuiltinMemoryCategory, [dir: string, description: string]> = {
+  fact: ['facts', 'Facts about the user ("User\'s dog is named Rex")'],
+  preference: ['preferences', 'Likes, dislikes and ways of working ("User prefers dark mode")'],
+  event: ['events', 'Appointments and things happening ("Dentist appointment Tuesday")'],
+  relationship: ['relationships', 'People in the user\'s life ("User\'s sister is named Sarah")'],
+  context: ['contexts', 'What the user is working on ("Building a React project")'],
+  instruction: ['instructions', 'Standing orders for the agent ("Always respond in Spanish")'],
+  decision: ['decisions', 'Choices that were made ("We decided to use PostgreSQL")'],
+  entity: ['entities', 'Contact details: phone numbers, emails, addresses'],
+};
+
+export const BUILTIN_CATEGORIES: CategoryDefinition[] = MEMORY_CATEGORIES.map(name => ({
+  name,
+  dir: BUILTIN_DESCRIPTIONS[name][0],
+  description: BUILTIN_DESCRIPTIONS[name][1],
+  defaultDecayDays: null,
+  defaultImportance: 0.5,
+}));
+
+const CATEGORY_NAME = /^[a-z][a-z0-9_-]{0,31}$/;
+const DIRECTORY_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// Top-level directories the store uses for itself
+const RESERVED_DIRS = new Set(['namespaces']);
+
+export class CategoryRegistry {
+  private definitions = new Map<string, CategoryDefinition>();
+  private byDir = new Map<string, CategoryDefinition>();
+
+  /**
+   * Built-in categories, overridden or extended by config. Throws on names
+   * or directories that are invalid or clash.
+   */
+  constructor(config: Record<string, CategoryConfig> = {}) {
+    for (const builtin of BUILTIN_CATEGORIES) {
+      this.add(builtin);
+    }
+
+    for (const [name, settings] of Object.entries(config)) {
+      const builtin = this.definitions.get(name);
+      if (builtin) {
+        // Existing files live in the built-in directories, so those can't move
+        if (settings.dir !== undefined && settings.dir !== builtin.dir) {
+          throw new Error(`Category "${name}" is built in; its directory "${builtin.dir}" can't be changed`);
+        }
+        this.definitions.set(name, mergeSettings(builtin, settings));
+        this.byDir.set(builtin.dir, this.definitions.get(name)!);
+        continue;
+      }
+
+      if (!CATEGORY_NAME.test(name)) {
+        throw new Error(`Invalid category name "${name}": use lowercase letters, digits, "_" or "-" (max 32)`);
+      }
+      this.add(mergeSettings({
+        name,
+        dir: name,
+        description: name,
+        defaultDecayDays: null,
+        defaultImportance: 0.5,
+      }, settings));
+    }
+  }
+
+  /**
+   * Category names, built-ins first
+   */
+  names(): MemoryCategory[] {
+    return [...this.definitions.keys()];
+  }
+
+  all(): CategoryDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  get(name: string): CategoryDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  /**
+   * Directory of a category. Throws for unknown categories, so a category
+   * read from a hand-edited file can never pick where files are written.
+   */
+  dirOf(name: string): string {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown memory category "${name}"`);
+    }
+    return definition.dir;
+  }
+
+  /**
+   * Category stored in a directory, if any
+   */
+  categoryOfDir(dir: string): MemoryCategory | undefined {
+    return this.byDir.get(dir)?.name;
+  }
+
+  /**
+   * Throws unless the category is known (for validating input)
+   */
+  assertKnown(name: string): void {
+    if (!this.definitions.has(name)) {
+      throw new Error(`Unknown memory category "${name}". Known categories: ${this.names().join(', ')}`);
+    }
+  }
+
+  private add(definition: CategoryDefinition): void {
+    if (!DIRECTORY_NAME.test(definition.dir) || RESERVED_DIRS.has(definition.dir)) {
+      throw new Error(`Invalid directory "${definition.dir}" for category "${definition.name}"`);
+    }
+    const clash = this.byDir.get(definition.dir);
+    if (clash) {
+      throw new Error(`Categories "${clash.name}" and "${definition.name}" can't share directory "${definition.dir}"`);
+    }
+    this.definitions.set(definition.name, definition);
+    this.byDir.set(definition.dir, definition);
+  }
+}
+
+/**
+ * Registry with only the built-in categories
+ */
+export const DEFAULT_CATEGORIES = new CategoryRegistry();
+
+function mergeSettings(base: CategoryDefinition, settings: CategoryConfig): CategoryDefinition {
+  return {
+    ...base,
+    ...(settings.dir !== undefined ? { dir: settings.dir } : {}),
+    ...(settings.description ? { description: settings.description } : {}),
+    ...(settings.defaultDecayDays !== undefined ? { defaultDecayDays: settings.defaultDecayDays } : {}),
+    ...(settings.defaultImportance !== undefined ? { defaultImportance: settings.defaultImportance } : {}),
+  };
+}
@@ -5,7 +5,18 @@
  */
 
 import { Type, type Static } from '@sinclair/typebox';
-import { MEMORY_CATEGORIES } from './types.js';
+import { MEMORY_CATEGORIES, SEARCH_MODES, type SearchMode } from './types.js';
+import { NAMESPACE_STRATEGIES, type NamespaceStrategy } from './namespace.js';
+import { BACKEND_TYPES, type BackendType } from './backend.js';
+import { ENCRYPTION_MODES, type EncryptionMode } from './encryption.js';
+import type { CategoryConfig } from './categories.js';
+import { resolveRanking, type RankingConfig, type RankingSettings } from './ranking.js';
+import { isValidTimeZone, systemTimeZone } from './events.js';
+import { resolveUpcomingEvents, type UpcomingEventsConfig, type UpcomingEventsSettings } from './upcoming.js';
+import { DEFAULT_SEARCH_ENGINES } from './search-engine.js';
+import { DEFAULT_EMBEDDING_PROVIDER } from './embeddings.js';
+import { resolveSearchMode, type SearchModeConfig, type SearchModeSettings } from './search-modes.js';
+import { resolveSearchResults, type SearchResultsConfig, type SearchResultsSettings } from './snippets.js';
 
 export const memoryToolsConfigSchema = Type.Object({
   // Path to store memories (markdown files)
@@ -22,6 +33,76 @@ export const memoryToolsConfigSchema = Type.Object({
 
   // QMD collection name
   qmdCollection: Type.Optional(Type.String()),
+
+  // Storage backend: markdown files (default) or a single SQLite file
+  storageBackend: Type.Optional(Type.Unsafe<BackendType>({ type: 'string', enum: [...BACKEND_TYPES] })),
+
+  // Purge soft-deleted memories from .deleted after this many days (unset = keep forever)
+  deletedRetentionDays: Type.Optional(Type.Number({ minimum: 0 })),
+
+  // Keep at most this many soft-deleted memories, purging the oldest (unset = no limit)
+  deletedMaxItems: Type.Optional(Type.Number({ minimum: 0 })),
+
+  // How memories are partitioned between people: none | sender | agent | session
+  namespaceStrategy: Type.Optional(Type.Unsafe<NamespaceStrategy>({ type: 'string', enum: [...NAMESPACE_STRATEGIES] })),
+
+  // Encryption at rest: off | content | full (markdown backend only)
+  encryption: Type.Optional(Type.Unsafe<EncryptionMode>({ type: 'string', enum: [...ENCRYPTION_MODES] })),
+
+  // Passphrase or 64-char hex key; supports ${VAR_NAME} so it can live in the environment
+  encryptionKey: Type.Optional(Type.String()),
+
+  // Keep memoriesPath as a local git repository with a commit per change
+  gitVersioning: Type.Optional(Type.Boolean()),
+
+  // Extra categories (or new defaults for built-in ones), keyed by category name
+  categories: Type.Optional(Type.Record(Type.String(), Type.Object({
+    dir: Type.Optional(Type.String()),
+    description: Type.Optional(Type.String()),
+    defaultDecayDays: Type.Optional(Type.Union([Type.Number({ minimum: 0 }), Type.Null()])),
+    defaultImportance: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+  }))),
+
+  // Search ranking: weights of relevance, importance, confidence and recency, plus decay shape
+  ranking: Type.Optional(Type.Unsafe<RankingConfig>(Type.Object({
+    weights: Type.Optional(Type.Object({
+      relevance: Type.Optional(Type.Number({ minimum: 0 })),
+      importance: Type.Optional(Type.Number({ minimum: 0 })),
+      confidence: Type.Optional(Type.Number({ minimum: 0 })),
+      recency: Type.Optional(Type.Number({ minimum: 0 })),
+    })),
+    recencyHalfLifeDays: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+    decayExponent: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+  }))),
+
+  // Search engines asked in order until one finds something: qmd, bm25, vector or one registered by a plugin
+  searchEngines: Type.Optional(Type.Array(Type.String(), { minItems: 1 })),
+
+  // Embedding provider of the vector engine: ngram (built-in, offline) or one registered by a plugin
+  embeddingProvider: Type.Optional(Type.String()),
+
+  // Search mode when a call doesn't pick one (auto | fast | keyword | semantic | hybrid), per channel if needed
+  searchMode: Type.Optional(Type.Unsafe<SearchModeConfig>(Type.Object({
+    default: Type.Optional(Type.Unsafe<SearchMode>({ type: 'string', enum: [...SEARCH_MODES] })),
+    channels: Type.Optional(Type.Record(Type.String(), Type.Unsafe<SearchMode>({ type: 'string', enum: [...SEARCH_MODES] }))),
+  }))),
+
+  // Search output: highlighted snippets (default) or whole memories
+  searchResults: Type.Optional(Type.Unsafe<SearchResultsConfig>(Type.Object({
+    fullContent: Type.Optional(Type.Boolean()),
+    snippetLength: Type.Optional(Type.Integer({ minimum: 40 })),
+  }))),
+
+  // Events and birthdays due soon, injected at agent start as <upcoming-events>
+  upcomingEvents: Type.Optional(Type.Unsafe<UpcomingEventsConfig>(Type.Object({
+    enabled: Type.Optional(Type.Boolean()),
+    withinHours: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+    maxItems: Type.Optional(Type.Integer({ minimum: 1 })),
+    channels: Type.Optional(Type.Record(Type.String(), Type.Boolean())),
+  }))),
+
+  // IANA timezone relative event dates are read in (e.g. "Europe/Berlin"); defaults to the system's
+  timezone: Type.Optional(Type.String()),
 });
 
 export type MemoryToolsConfig = Static<typeof memoryToolsConfigSchema>;
@@ -46,6 +127,57 @@ function expandPath(p: string): string {
   return p;
 }
 
+function optionalNonNegative(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Engine names as configured; anything but a list of names gives the default
+ * order. Names are looked up when a store first searches, since plugins may
+ * register engines after this one loads.
+ */
+function parseSearchEngines(value: unknown): string[] {
+  if (!Array.isArray(value)) return DEFAULT_SEARCH_ENGINES;
+  const names = value.filter((name): name is string => typeof name === 'string' && name.trim() !== '').map(name => name.trim());
+  return names.length > 0 ? [...new Set(names)] : DEFAULT_SEARCH_ENGINES;
+}
+
+/**
+ * Keep the well-typed settings of each category. Names and directories are
+ * checked when the CategoryRegistry is built.
+ */
+function parseCategories(value: unknown): Record<string, CategoryConfig> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const categories: Record<string, CategoryConfig> = {};
+  for (const [name, raw] of Object.entries(value as Record<string, unknown>)) {
+    const settings = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const importance = optionalNonNegative(settings.defaultImportance);
+    categories[name] = {
+      ...(typeof settings.dir === 'string' && settings.dir ? { dir: settings.dir } : {}),
+      ...(typeof settings.description === 'string' && settings.description ? { description: settings.description } : {}),
+      ...(settings.defaultDecayDays === null ? { defaultDecayDays: null } : {}),
+      ...(optionalNonNegative(settings.defaultDecayDays) !== undefined
+        ? { defaultDecayDays: settings.defaultDecayDays as number }
+        : {}),
+      ...(importance !== undefined && importance <= 1 ? { defaultImportance: importance } : {}),
+    };
+  }
+  return categories;
+}
+
+/**
+ * The encryption mode, 'off' when unset. Anything else throws: a typo must
+ * never quietly leave memories in plaintext.
+ */
+function parseEncryption(value: unknown): EncryptionMode {
+  if (value === undefined || value === null) return 'off';
+  if (ENCRYPTION_MODES.includes(value as EncryptionMode)) return value as EncryptionMode;
+  throw new Error(
+    `memory-tools: unknown encryption mode '${String(value)}' (expected ${ENCRYPTION_MODES.join(', ')})`
+  );
+}
+
 export function parseConfig(raw: unknown): MemoryToolsConfig {
   const config = (raw ?? {}) as Record<string, unknown>;
 
@@ -63,6 +195,39 @@ export function parseConfig(raw: unknown): MemoryToolsConfig {
     autoInjectInstructions: config.autoInjectInstructions === true,
     autoMigrateLegacy: config.autoMigrateLegacy === true,
     qmdCollection: (config.qmdCollection as string) || 'memories',
+    storageBackend: BACKEND_TYPES.includes(config.storageBackend as BackendType)
+      ? (config.storageBackend as BackendType)
+      : 'markdown',
+    deletedRetentionDays: optionalNonNegative(config.deletedRetentionDays),
+    deletedMaxItems: optionalNonNegative(config.deletedMaxItems),
+    namespaceStrategy: NAMESPACE_STRATEGIES.includes(config.namespaceStrategy as NamespaceStrategy)
+      ? (config.namespaceStrategy as NamespaceStrategy)
+      : 'none',
+    encryption: parseEncryption(config.encryption),
+    encryptionKey: typeof config.encryptionKey === 'string' && config.encryptionKey
+      ? expandEnvVars(config.encryptionKey) || undefined
+      : undefined,
+    gitVersioning: config.gitVersioning === true,
+    categories: parseCategories(config.categories),
+    ranking: resolveRanking(
+      config.ranking && typeof config.ranking === 'object' ? config.ranking as RankingSettings : {}
+    ),
+    searchEngines: parseSearchEngines(config.searchEngines),
+    embeddingProvider: typeof config.embeddingProvider === 'string' && config.embeddingProvider.trim()
+      ? config.embeddingProvider.trim()
+      : DEFAULT_EMBEDDING_PROVIDER,
+    searchMode: resolveSearchMode(
+      config.searchMode && typeof config.searchMode === 'object' ? config.searchMode as SearchModeSettings : {}
+    ),
+    searchResults: resolveSearchResults(
+      config.searchResults && typeof config.searchResults === 'object' ? config.searchResults as SearchResultsSettings : {}
+    ),
+    upcomingEvents: resolveUpcomingEvents(
+      config.upcomingEvents && typeof config.upcomingEvents === 'object'
+        ? config.upcomingEvents as UpcomingEventsSettings
+        : {}
+    ),
+    timezone: isValidTimeZone(config.timezone) ? config.timezone : systemTimeZone(),
   };
 }
 
@@ -0,0 +1,85 @@
+/**
+ * Doctor Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { runDoctor, QUARANTINE_DIR } from './doctor.js';
+import { MemoryFileManager, serializeMemory } from './file-manager.js';
+
+describe('runDoctor', () => {
+  let tempDir: string;
+  let manager: MemoryFileManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    manager = new MemoryFileManager(tempDir, { watch: false });
+  });
+
+  afterEach(() => {
+    manager.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report a healthy directory as clean', async () => {
+    manager.create({ content: 'Fine', category: 'fact' });
+
+    const report = await runDoctor(tempDir);
+    expect(report).toMatchObject({ checked: 1, issues: [] });
+  });
+
+  it('should leave search index temp files alone', async () => {
+    const tempFile = path.join(tempDir, '.index', 'bm25.json.123.abcdef12.tmp');
+    fs.mkdirSync(path.dirname(tempFile), { recursive: true });
+    fs.writeFileSync(tempFile, 'saving');
+
+    expect(await runDoctor(tempDir, { fix: true })).toMatchObject({ issues: [] });
+    expect(fs.existsSync(tempFile)).toBe(true);
+  });
+
+  it('should find and fix every kind of damage', async () => {
+    const misplaced = manager.create({ content: 'Likes tea', category: 'preference' });
+    const renamed = manager.create({ content: 'Has a dog', category: 'fact' });
+    const duplicated = manager.create({ content: 'Old copy', category: 'fact' });
+    const uncategorized = manager.create({ content: 'No category', category: 'fact' });
+
+    fs.renameSync(
+      path.join(tempDir, 'preferences', `${misplaced.id}.md`),
+      path.join(tempDir, 'facts', `${misplaced.id}.md`)
+    );
+    fs.renameSync(path.join(tempDir, 'facts', `${renamed.id}.md`), path.join(tempDir, 'facts', 'dog.md'));
+    fs.writeFileSync(
+      path.join(tempDir, 'decisions', `${duplicated.id}.md`),
+      serializeMemory({ ...duplicated, category: 'decision', content: 'New copy', updatedAt: duplicated.updatedAt + 1000 })
+    );
+    const uncategorizedPath = path.join(tempDir, 'facts', `${uncategorized.id}.md`);
+    fs.writeFileSync(uncategorizedPath, fs.readFileSync(uncategorizedPath, 'utf-8').replace(/^category: fact\n/m, ''));
+    fs.writeFileSync(path.join(tempDir, 'facts', 'broken.md'), '---\nid: [unclosed\n---\nBroken');
+    fs.writeFileSync(path.join(tempDir, 'facts', `${renamed.id}.md.tmp`), 'partial');
+
+    const report = await runDoctor(tempDir);
+    expect(report.issues.map(issue => [issue.code, issue.path, issue.fixed]).sort()).toEqual([
+      ['category-mismatch', path.join('facts', `${misplaced.id}.md`), false],
+      ['duplicate-id', path.join('facts', `${duplicated.id}.md`), false],
+      ['id-mismatch', path.join('facts', 'dog.md'), false],
+      ['invalid-category', path.join('facts', `${uncategorized.id}.md`), false],
+      ['stray-temp-file', path.join('facts', `${renamed.id}.md.tmp`), false],
+      ['unparseable', path.join('facts', 'broken.md'), false],
+    ]);
+
+    const fixed = await runDoctor(tempDir, { fix: true });
+    expect(fixed.issues.every(issue => issue.fixed)).toBe(true);
+    expect(await runDoctor(tempDir)).toMatchObject({ issues: [] });
+
+    manager.invalidateIndex();
+    expect(manager.get(misplaced.id)?.category).toBe('preference');
+    expect(manager.get(renamed.id)?.content).toBe('Has a dog');
+    expect(manager.get(duplicated.id)?.content).toBe('New copy');
+    expect(manager.get(uncategorized.id)?.category).toBe('fact');
+    expect(fs.readdirSync(path.join(tempDir, QUARANTINE_DIR)).sort()).toEqual(
+      ['facts__broken.md', `facts__${duplicated.id}.md`].sort()
+    );
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Memories Directory Doctor
+ *
+ * Finds what hand edits, crashes and failed restores leave behind in a
+ * memories directory - files the store would otherwise skip with a log
+ * line or trip over later - and optionally repairs them. Nothing is ever
+ * deleted except leftover temp files: broken and duplicate memories are
+ * moved to .quarantine/ for a human to look at.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { decodeMemoryFile, encodeMemoryFile } from './file-manager.js';
+import { FileLock } from './lock.js';
+import { DEFAULT_CATEGORIES, type CategoryRegistry } from './categories.js';
+import type { Memory, MemoryCategory } from './types.js';
+import type { EncryptionMode, MemoryCipher } from './encryption.js';
+import type { QMDClient } from './qmd.js';
+import { INDEX_DIR } from './sidecar.js';
+
+export const QUARANTINE_DIR = '.quarantine';
+
+export type DoctorIssueCode =
+  | 'stray-temp-file'    // Left behind by an interrupted atomic write
+  | 'unparseable'        // Malformed frontmatter or undecryptable file
+  | 'invalid-category'   // Frontmatter category missing or unknown
+  | 'category-mismatch'  // Frontmatter category differs from its directory
+  | 'id-mismatch'        // Frontmatter id differs from the filename
+  | 'duplicate-id'       // Same id in more than one file
+  | 'not-indexed'        // On disk but missing from the QMD index
+  | 'index-stale';       // In the QMD index but gone from disk
+
+export interface DoctorIssue {
+  code: DoctorIssueCode;
+  /** Path relative to the memories directory */
+  path: string;
+  id?: string;
+  message: string;
+  /** What --fix does (or did) about it */
+  fix?: string;
+  fixed: boolean;
+}
+
+export interface DoctorReport {
+  memoriesPath: string;
+  namespace?: string;
+  /** Memory files examined */
+  checked: number;
+  issues: DoctorIssue[];
+}
+
+export interface DoctorOptions {
+  /** Repair what can be repaired */
+  fix?: boolean;
+  /** Encryption mode used when a fix rewrites a file */
+  encryption?: EncryptionMode;
+  cipher?: MemoryCipher;
+  /** Compare against this QMD collection's index */
+  qmd?: QMDClient;
+  /** Lock held while fixing, the one the store's writers use */
+  lockPath?: string;
+  /** Top-level directories that are checked separately (namespaces) */
+  excludeDirs?: string[];
+  namespace?: string;
+  /** Categories the store knows about. Defaults to the built-ins. */
+  categories?: CategoryRegistry;
+}
+
+interface Entry {
+  filePath: string;
+  dirCategory: MemoryCategory;
+  memory: Memory;
+  mtimeMs: number;
+}
+
+/**
+ * Check a memories directory and, with fix, repair it
+ */
+export async function runDoctor(memoriesPath: string, options: DoctorOptions = {}): Promise<DoctorReport> {
+  const report: DoctorReport = {
+    memoriesPath,
+    ...(options.namespace !== undefined ? { namespace: options.namespace } : {}),
+    checked: 0,
+    issues: [],
+  };
+  const fix = options.fix === true;
+  const rel = (filePath: string) => path.relative(memoriesPath, filePath);
+
+  const check = () => {
+    checkTempFiles(memoriesPath, options, fix, report, rel);
+    const entries = checkFiles(memoriesPath, options, fix, report, rel);
+    checkLayout(memoriesPath, entries, options, fix, report, rel);
+  };
+
+  if (fix) {
+    new FileLock(options.lockPath ?? path.join(memoriesPath, '.lock')).withLock(check);
+  } else {
+    check();
+  }
+
+  if (options.qmd) {
+    await checkIndex(memoriesPath, options.qmd, options.categories ?? DEFAULT_CATEGORIES, fix, report);
+  }
+
+  return report;
+}
+
+/**
+ * Format a report for people (the CLI prints JSON with --json instead)
+ */
+export function formatDoctorReport(report: DoctorReport): string {
+  const where = report.namespace !== undefined ? `namespace ${report.namespace}` : report.memoriesPath;
+  if (report.issues.length === 0) {
+    return `${where}: ${report.checked} memory files, no problems found`;
+  }
+
+  const lines = [`${where}: ${report.checked} memory files, ${report.issues.length} problems`];
+  for (const issue of report.issues) {
+    const status = issue.fixed ? 'fixed' : issue.fix ? 'fixable' : 'needs attention';
+    lines.push(`  [${issue.code}] ${issue.path}: ${issue.message} (${status}${issue.fix ? `: ${issue.fix}` : ''})`);
+  }
+  return lines.join('\n');
+}
+
+function checkTempFiles(
+  memoriesPath: string,
+  options: DoctorOptions,
+  fix: boolean,
+  report: DoctorReport,
+  rel: (filePath: string) => string
+): void {
+  // Search engines write their .index/ files without taking the lock, so a
+  // temp file there may belong to a save in progress
+  const skip = new Set(['.git', QUARANTINE_DIR, INDEX_DIR, ...(options.excludeDirs ?? [])]);
+
+  const walk = (dir: string, top: boolean) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const filePath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!(top && skip.has(entry.name)) && entry.name !== '.git') walk(filePath, false);
+      } else if (entry.name.endsWith('.tmp')) {
+        if (fix) fs.rmSync(filePath, { force: true });
+        report.issues.push({
+          code: 'stray-temp-file',
+          path: rel(filePath),
+          message: 'leftover from an interrupted write',
+          fix: 'delete it',
+          fixed: fix,
+        });
+      }
+    }
+  };
+
+  if (fs.existsSync(memoriesPath)) walk(memoriesPath, true);
+}
+
+/**
+ * Parse every memory file; unreadable ones are reported (and quarantined)
+ */
+function checkFiles(
+  memoriesPath: string,
+  options: DoctorOptions,
+  fix: boolean,
+  report: DoctorReport,
+  rel: (filePath: string) => string
+): Entry[] {
+  const entries: Entry[] = [];
+  const categories = options.categories ?? DEFAULT_CATEGORIES;
+  const dirs: Array<[string, MemoryCategory | null]> = [
+    ...categories.all().map(category => [path.join(memoriesPath, category.dir), category.name] as [string, MemoryCategory]),
+    [path.join(memoriesPath, '.deleted'), null],
+    [path.join(memoriesPath, '.archive'), null],
+  ];
+
+  for (const [dir, dirCategory] of dirs) {
+    if (!fs.existsSync(dir)) continue;
+
+    for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.md')).sort()) {
+      const filePath = path.join(dir, file);
+      report.checked++;
+
+      let memory: Memory;
+      try {
+        memory = decodeMemoryFile(fs.readFileSync(filePath, 'utf-8'), path.basename(file, '.md'), options.cipher);
+      } catch (err: any) {
+        if (fix) quarantine(memoriesPath, filePath);
+        report.issues.push({
+          code: 'unparseable',
+          path: rel(filePath),
+          message: err?.message ?? String(err),
+          fix: `move to ${QUARANTINE_DIR}/`,
+          fixed: fix,
+        });
+        continue;
+      }
+
+      // Deleted and archived memories only need to be readable
+      if (dirCategory) {
+        entries.push({ filePath, dirCategory, memory, mtimeMs: fs.statSync(filePath).mtimeMs });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Categories, ids and duplicates of the active memory files
+ */
+function checkLayout(
+  memoriesPath: string,
+  entries: Entry[],
+  options: DoctorOptions,
+  fix: boolean,
+  report: DoctorReport,
+  rel: (filePath: string) => string
+): void {
+  const categories = options.categories ?? DEFAULT_CATEGORIES;
+
+  // Duplicates first: the newest copy wins, the others are quarantined
+  const byId = new Map<string, Entry[]>();
+  for (const entry of entries) {
+    byId.set(entry.memory.id, [...(byId.get(entry.memory.id) ?? []), entry]);
+  }
+
+  const losers = new Set<Entry>();
+  for (const [id, copies] of byId) {
+    if (copies.length < 2) continue;
+    const [keeper, ...others] = [...copies].sort((a, b) =>
+      (b.memory.updatedAt - a.memory.updatedAt) || (b.mtimeMs - a.mtimeMs)
+    );
+    for (const other of others) {
+      losers.add(other);
+      if (fix) quarantine(memoriesPath, other.filePath);
+      report.issues.push({
+        code: 'duplicate-id',
+        path: rel(other.filePath),
+        id,
+        message: `same id as ${rel(keeper.filePath)}, which is newer`,
+        fix: `move to ${QUARANTINE_DIR}/`,
+        fixed: fix,
+      });
+    }
+  }
+
+  for (const entry of entries) {
+    if (losers.has(entry)) continue;
+    const { memory, filePath, dirCategory } = entry;
+    const issues: DoctorIssue[] = [];
+
+    let category = memory.category;
+    if (!categories.has(category)) {
+      issues.push({
+        code: 'invalid-category',
+        path: rel(filePath),
+        id: memory.id,
+        message: category ? `unknown category "${category}"` : 'no category in frontmatter',
+        fix: `set category to "${dirCategory}" from its directory`,
+        fixed: false,
+      });
+      category = dirCategory;
+      if (fix) {
+        const tempPath = `${filePath}.${process.pid}.doctor.tmp`;
+        fs.writeFileSync(tempPath, encodeMemoryFile({ ...memory, category }, options.encryption ?? 'off', options.cipher), 'utf-8');
+        fs.renameSync(tempPath, filePath);
+        issues[issues.length - 1].fixed = true;
+      }
+    } else if (category !== dirCategory) {
+      issues.push({
+        code: 'category-mismatch',
+        path: rel(filePath),
+        id: memory.id,
+        message: `category "${category}" but stored in ${categories.dirOf(dirCategory)}/`,
+        fix: `move to ${categories.dirOf(category)}/`,
+        fixed: false,
+      });
+    }
+
+    if (memory.id !== path.basename(filePath, '.md')) {
+      issues.push({
+        code: 'id-mismatch',
+        path: rel(filePath),
+        id: memory.id,
+        message: `frontmatter id ${memory.id} doesn't match the filename`,
+        fix: `rename to ${memory.id}.md`,
+        fixed: false,
+      });
+    }
+
+    // One move fixes both the directory and the filename
+    const target = path.join(memoriesPath, categories.dirOf(category), `${memory.id}.md`);
+    const moves = issues.filter(issue => issue.code === 'category-mismatch' || issue.code === 'id-mismatch');
+    if (moves.length > 0) {
+      if (fs.existsSync(target)) {
+        for (const issue of moves) issue.fix = `${rel(target)} already exists; merge by hand`;
+      } else if (fix) {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.renameSync(filePath, target);
+        for (const issue of moves) issue.fixed = true;
+      }
+    }
+
+    report.issues.push(...issues);
+  }
+}
+
+/**
+ * Active memory files and QMD's index should list the same files
+ */
+async function checkIndex(
+  memoriesPath: string,
+  qmd: QMDClient,
+  categories: CategoryRegistry,
+  fix: boolean,
+  report: DoctorReport
+): Promise<void> {
+  const indexed = await qmd.listIndexedFiles();
+  if (!indexed) return;
+
+  const categoryDirs = new Set(categories.all().map(category => category.dir));
+  const onDisk = new Set<string>();
+  for (const categoryDir of categoryDirs) {
+    const dir = path.join(memoriesPath, categoryDir);
+    if (!fs.existsSync(dir)) continue;
+    for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.md'))) {
+      onDisk.add(`${categoryDir}/${file}`);
+    }
+  }
+
+  const inIndex = new Set(indexed.filter(file => categoryDirs.has(file.split('/')[0])));
+
+  const issues: DoctorIssue[] = [];
+  for (const file of onDisk) {
+    if (!inIndex.has(file)) {
+      issues.push({ code: 'not-indexed', path: file, message: 'missing from the QMD index', fix: 'run qmd update', fixed: false });
+    }
+  }
+  for (const file of inIndex) {
+    if (!onDisk.has(file)) {
+      issues.push({ code: 'index-stale', path: file, message: 'in the QMD index but not on disk', fix: 'run qmd update', fixed: false });
+    }
+  }
+
+  if (fix && issues.length > 0) {
+    await qmd.update();
+    for (const issue of issues) issue.fixed = true;
+  }
+  report.issues.push(...issues);
+}
+
+/**
+ * Move a file out of the store's way, keeping it for a human to look at
+ */
+function quarantine(memoriesPath: string, filePath: string): void {
+  const dir = path.join(memoriesPath, QUARANTINE_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const relative = path.relative(memoriesPath, filePath).replace(/[\\/]/g, '__');
+  let target = path.join(dir, relative);
+  for (let n = 1; fs.existsSync(target); n++) {
+    target = path.join(dir, `${n}-${relative}`);
+  }
+  fs.renameSync(filePath, target);
+}
@@ -0,0 +1,120 @@
+/**
+ * Embedding Providers
+ *
+ * Turn text into vectors for the vector index (vector-index.ts). The
+ * built-in 'ngram' provider needs no model: it hashes the stemmed words of
+ * a text and their character trigrams into a fixed number of dimensions,
+ * so texts sharing words (or most of a word: "Lisbon" and "Lisboa") end up
+ * close. It captures wording, not meaning; plug in a local model with
+ * registerEmbeddingProvider for real semantic similarity.
+ */
+
+import { STOPWORDS, stem, words } from './tokenizer.js';
+
+export interface EmbeddingProvider {
+  /** Stored with the vectors; changing provider re-embeds everything */
+  readonly name: string;
+  readonly dimensions: number;
+  /** One vector per text, any length scale (they're normalized when stored) */
+  embed(texts: string[]): Promise<ArrayLike<number>[]>;
+  /**
+   * Map the cosine of two vectors to a 0-1 similarity comparable to QMD's
+   * scores, used for duplicate detection. Defaults to the cosine.
+   */
+  similarity?(cosine: number): number;
+}
+
+export type EmbeddingProviderFactory = () => EmbeddingProvider;
+
+export const DEFAULT_EMBEDDING_PROVIDER = 'ngram';
+
+// Weight of a whole (stemmed) word and of each of its trigrams
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+export class HashedNgramEmbedding implements EmbeddingProvider {
+  readonly name = 'ngram';
+
+  constructor(readonly dimensions: number = 512) {}
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.vector(text));
+  }
+
+  /**
+   * Texts sharing half their words have a cosine around 0.5, which says
+   * "same topic", not "same fact"; squaring keeps them below the conflict
+   * threshold while restatements (cosine 0.9+) stay high.
+   */
+  similarity(cosine: number): number {
+    return cosine > 0 ? cosine * cosine : 0;
+  }
+
+  private vector(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The sign bit spreads collisions evenly around zero
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of words(text)) {
+      if (STOPWORDS.has(word)) continue;
+      const stemmed = stem(word);
+      add(`w:${stemmed}`, WORD_WEIGHT);
+      const padded = `<${stemmed}>`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+    return vector;
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const factories = new Map<string, EmbeddingProviderFactory>([
+  ['ngram', () => new HashedNgramEmbedding()],
+]);
+const instances = new Map<string, EmbeddingProvider>();
+
+/**
+ * Make a provider available under a name for the embeddingProvider config,
+ * replacing any provider registered under it before. The factory is called
+ * once, when the provider is first needed, so models load lazily.
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  factories.set(name, factory);
+  instances.delete(name);
+}
+
+export function embeddingProviderNames(): string[] {
+  return [...factories.keys()];
+}
+
+/**
+ * The provider registered under a name, shared by every store using it.
+ * Unknown names fall back to the built-in provider with a warning.
+ */
+export function getEmbeddingProvider(name: string = DEFAULT_EMBEDDING_PROVIDER): EmbeddingProvider {
+  let provider = instances.get(name);
+  if (provider) return provider;
+
+  const factory = factories.get(name);
+  if (!factory) {
+    console.warn(
+      `[memory-tools] Unknown embedding provider '${name}' (known: ${embeddingProviderNames().join(', ')}), using '${DEFAULT_EMBEDDING_PROVIDER}'`
+    );
+    return getEmbeddingProvider(DEFAULT_EMBEDDING_PROVIDER);
+  }
+  provider = factory();
+  instances.set(name, provider);
+  return provider;
+}
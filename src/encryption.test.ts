@@ -0,0 +1,148 @@
+/**
+ * Encryption at Rest Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { MemoryCipher, DecryptionError, isSealed } from './encryption.js';
+import { MemoryFileManager } from './file-manager.js';
+import { MemoryStoreV2 } from './store.js';
+import { parseConfig } from './config.js';
+
+const cipher = new MemoryCipher('correct horse battery staple');
+
+function readAll(dir: string): string {
+  return fs.readdirSync(dir, { recursive: true })
+    .map(String)
+    .filter(file => file.endsWith('.md'))
+    .map(file => fs.readFileSync(path.join(dir, file), 'utf-8'))
+    .join('\n');
+}
+
+describe('MemoryCipher', () => {
+  it('should round-trip and reject the wrong key', () => {
+    const sealed = cipher.seal('Call Ana on +1 555 0100');
+
+    expect(isSealed(sealed)).toBe(true);
+    expect(sealed).not.toContain('555');
+    expect(cipher.seal('Call Ana on +1 555 0100')).not.toBe(sealed);
+    expect(cipher.open(sealed)).toBe('Call Ana on +1 555 0100');
+    expect(() => new MemoryCipher('wrong').open(sealed)).toThrow(DecryptionError);
+    expect(new MemoryCipher('ab'.repeat(32)).open(new MemoryCipher('AB'.repeat(32)).seal('hex key'))).toBe('hex key');
+  });
+});
+
+describe('encryption config', () => {
+  it('should reject an unknown mode instead of writing plaintext', () => {
+    expect(parseConfig({}).encryption).toBe('off');
+    expect(parseConfig({ encryption: 'content' }).encryption).toBe('content');
+    expect(() => parseConfig({ encryption: 'ful' })).toThrow("unknown encryption mode 'ful'");
+    expect(() => parseConfig({ encryption: true })).toThrow('expected off, content, full');
+  });
+});
+
+describe('Encrypted MemoryFileManager', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep no plaintext on disk in full mode', () => {
+    const manager = new MemoryFileManager(tempDir, { watch: false, encryption: 'full', cipher });
+    const memory = manager.create({ content: 'Ana lives at 12 Elm Street', category: 'entity', tags: ['ana'] });
+    manager.update(memory.id, { content: 'Ana lives at 14 Oak Avenue' });
+    manager.delete(memory.id, 'moved away');
+
+    const disk = readAll(tempDir);
+    expect(disk).not.toMatch(/Elm|Oak|ana|moved away/);
+
+    const reopened = new MemoryFileManager(tempDir, { watch: false, encryption: 'full', cipher });
+    expect(reopened.getDeleted(memory.id)).toMatchObject({ content: 'Ana lives at 14 Oak Avenue', deleteReason: 'moved away' });
+    expect(reopened.history(memory.id).map(r => r.memory.content)).toEqual([
+      'Ana lives at 12 Elm Street',
+      'Ana lives at 14 Oak Avenue',
+    ]);
+  });
+
+  it('should keep frontmatter readable in content mode', () => {
+    const manager = new MemoryFileManager(tempDir, { watch: false, encryption: 'content', cipher });
+    manager.create({ content: 'Ana: ana@example.com', category: 'entity', tags: ['ana'] });
+
+    const disk = readAll(tempDir);
+    expect(disk).toContain('category: entity');
+    expect(disk).not.toContain('example.com');
+  });
+
+  it('should seal attributes, evidence and extra frontmatter in content mode', () => {
+    const manager = new MemoryFileManager(tempDir, { watch: false, encryption: 'content', cipher });
+    const memory = manager.create({
+      content: 'Ana is a colleague',
+      category: 'entity',
+      tags: ['ana'],
+      attributes: { email: 'ana@example.com', phone: '+15550001234' },
+    });
+    manager.update(memory.id, { evidence: [{ at: Date.now(), channel: 'whatsapp', messageId: 'msg-4242' }] });
+
+    const disk = readAll(tempDir);
+    expect(disk).toContain('category: entity');
+    expect(disk).not.toContain('example.com');
+    expect(disk).not.toContain('5550001234');
+    expect(disk).not.toContain('msg-4242');
+
+    const reread = new MemoryFileManager(tempDir, { watch: false, encryption: 'content', cipher }).get(memory.id);
+    expect(reread?.attributes).toEqual({ email: 'ana@example.com', phone: '+15550001234' });
+    expect(reread?.evidence?.[0].messageId).toBe('msg-4242');
+  });
+
+  it('should refuse to read encrypted files without the key', () => {
+    const manager = new MemoryFileManager(tempDir, { watch: false, encryption: 'full', cipher });
+    manager.create({ content: 'Secret', category: 'fact' });
+
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(new MemoryFileManager(tempDir, { watch: false }).count()).toBe(0);
+    expect(String(logged.mock.calls[0][1])).toContain('set encryptionKey');
+    logged.mockRestore();
+    expect(() => new MemoryFileManager(tempDir, { encryption: 'full' })).toThrow('needs an encryption key');
+  });
+});
+
+describe('Encrypted MemoryStore', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should convert an existing store both ways and keep search working', async () => {
+    const plain = new MemoryStoreV2(tempDir);
+    const memory = await plain.create({ content: 'User drinks green tea', category: 'preference' });
+    await plain.update(memory.id, { importance: 0.9 });
+    await plain.forNamespace('bob').create({ content: 'Bob drinks coffee', category: 'preference' });
+    plain.close();
+
+    const encrypted = new MemoryStoreV2(tempDir, 'memories', { encryption: 'full', cipher });
+    expect(encrypted.reencode()).toBe(3);
+    expect(encrypted.reencode()).toBe(0);
+    expect(readAll(tempDir)).not.toMatch(/tea|coffee/);
+
+    const results = await encrypted.search({ query: 'green tea' });
+    expect(results.map(r => r.memory.id)).toEqual([memory.id]);
+    encrypted.close();
+
+    const decrypted = new MemoryStoreV2(tempDir, 'memories', { encryption: 'off', cipher });
+    expect(decrypted.reencode()).toBe(3);
+    decrypted.close();
+    expect(readAll(tempDir)).toContain('Bob drinks coffee');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Encryption at Rest
+ *
+ * AES-256-GCM for memory files. Memories can hold phone numbers, emails
+ * and addresses, so the markdown files can be sealed either whole or
+ * body-only (frontmatter stays readable for grep and hand inspection).
+ * Search keeps working through the decrypted in-memory index; QMD only
+ * sees files, so it is switched off while encryption is on.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+
+export const ENCRYPTION_MODES = [
+  'off',      // Plain markdown (default)
+  'content',  // Encrypt the memory text and personal fields; the rest of the frontmatter stays readable
+  'full',     // Encrypt the whole file
+] as const;
+
+export type EncryptionMode = typeof ENCRYPTION_MODES[number];
+
+// Marks a sealed value, with the scheme version so it can change later
+const SEALED_PREFIX = 'memory-tools:aes-256-gcm:v1:';
+
+// Fixed salt: the passphrase is the secret, the salt only separates this
+// derivation from any other use of the same passphrase
+const KDF_SALT = 'openclaw-memory-tools';
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * Is this text (a whole file or a memory body) sealed by MemoryCipher?
+ */
+export function isSealed(text: string): boolean {
+  return text.trimStart().startsWith(SEALED_PREFIX);
+}
+
+export class MemoryCipher {
+  private key: Buffer;
+
+  /**
+   * secret is either 64 hex characters (a raw 256-bit key) or a passphrase,
+   * which is stretched with scrypt
+   */
+  constructor(secret: string) {
+    if (!secret) {
+      throw new Error('Encryption key is empty');
+    }
+    this.key = /^[0-9a-f]{64}$/i.test(secret)
+      ? Buffer.from(secret, 'hex')
+      : scryptSync(secret, KDF_SALT, 32);
+  }
+
+  seal(plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+    return SEALED_PREFIX + payload.toString('base64');
+  }
+
+  open(sealed: string): string {
+    const trimmed = sealed.trim();
+    if (!trimmed.startsWith(SEALED_PREFIX)) {
+      throw new DecryptionError('Not an encrypted memory value');
+    }
+
+    const payload = Buffer.from(trimmed.slice(SEALED_PREFIX.length), 'base64');
+    if (payload.length < IV_BYTES + TAG_BYTES) {
+      throw new DecryptionError('Encrypted memory value is truncated');
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.key, payload.subarray(0, IV_BYTES));
+      decipher.setAuthTag(payload.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+      return Buffer.concat([
+        decipher.update(payload.subarray(IV_BYTES + TAG_BYTES)),
+        decipher.final(),
+      ]).toString('utf-8');
+    } catch {
+      throw new DecryptionError('Could not decrypt memory: wrong encryptionKey or corrupted file');
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Event Date Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { EventTimeError, findEventTime, nextOccurrence, resolveSchedule } from './events.js';
+import { MemoryStoreV2 } from './store.js';
+import type { Memory } from './types.js';
+
+// Monday 2026-03-02, 10:00 in Berlin
+const NOW = Date.UTC(2026, 2, 2, 9);
+const BERLIN = { now: NOW, timeZone: 'Europe/Berlin' };
+
+describe('findEventTime', () => {
+  it('should resolve relative phrases against now in the given timezone', () => {
+    expect(findEventTime('Dentist Tuesday at 3pm', BERLIN)).toEqual({ start: Date.UTC(2026, 2, 3, 14), allDay: false });
+    expect(findEventTime('tomorrow at 3pm', BERLIN)?.start).toBe(Date.UTC(2026, 2, 3, 14));
+    expect(findEventTime('Standup 3-5pm', BERLIN)).toEqual({
+      start: Date.UTC(2026, 2, 2, 14),
+      end: Date.UTC(2026, 2, 2, 16),
+      allDay: false,
+    });
+    expect(findEventTime('in two weeks', BERLIN)).toEqual({
+      start: Date.UTC(2026, 2, 15, 23),
+      end: Date.UTC(2026, 2, 16, 23),
+      allDay: true,
+    });
+    expect(findEventTime('User likes coffee', BERLIN)).toBeNull();
+  });
+
+  it('should reject what it cannot read', () => {
+    expect(() => resolveSchedule({ startsAt: 'someday' }, BERLIN)).toThrow(EventTimeError);
+    expect(() => resolveSchedule({ startsAt: 'Friday 3pm', endsAt: '2026-03-04' }, BERLIN)).toThrow(/endsAt/);
+    expect(resolveSchedule({ content: 'Yoga every Tuesday at 9am' }, BERLIN)).toEqual({
+      startsAt: Date.UTC(2026, 2, 3, 8),
+      recurrence: 'weekly',
+    });
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('should keep a recurring event at the same wall-clock time across DST', () => {
+    // 09:00 Berlin is 08:00 UTC in winter and 07:00 UTC after 2026-03-29
+    const yoga = { startsAt: Date.UTC(2026, 2, 24, 8), recurrence: 'weekly' } as Memory;
+    expect(nextOccurrence(yoga, Date.UTC(2026, 2, 26), 'Europe/Berlin')?.start).toBe(Date.UTC(2026, 2, 31, 7));
+
+    const once = { startsAt: Date.UTC(2026, 2, 24, 8) } as Memory;
+    expect(nextOccurrence(once, Date.UTC(2026, 2, 26), 'Europe/Berlin')).toBeNull();
+  });
+});
+
+describe('MemoryStore event dates', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir, 'memories', { timezone: 'Europe/Berlin' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find events in a date range in chronological order', async () => {
+    const later = await store.create({ content: 'Flight to Lisbon', category: 'event', startsAt: Date.UTC(2026, 2, 12, 6) });
+    const sooner = await store.create({ content: 'Dentist', category: 'event', startsAt: Date.UTC(2026, 2, 10, 14) });
+    await store.create({ content: 'Conference', category: 'event', startsAt: Date.UTC(2026, 3, 20, 7) });
+    const yoga = await store.create({
+      content: 'Yoga',
+      category: 'event',
+      startsAt: Date.UTC(2026, 1, 3, 8),
+      recurrence: 'weekly',
+    });
+    await store.create({ content: 'User likes coffee', category: 'preference' });
+
+    const results = await store.search({ from: Date.UTC(2026, 2, 8, 23), to: Date.UTC(2026, 2, 15, 23) });
+    expect(results.map(r => r.memory.id)).toEqual([yoga.id, sooner.id, later.id]);
+  });
+
+  it('should expire a one-off event once it has ended', async () => {
+    const dentist = await store.create({
+      content: 'Dentist',
+      category: 'event',
+      startsAt: Date.UTC(2026, 2, 3, 14),
+      endsAt: Date.UTC(2026, 2, 3, 15),
+    });
+    expect((await store.expireDecayed()).expired).toEqual([]);
+
+    vi.setSystemTime(Date.UTC(2026, 2, 3, 16));
+    const { expired } = await store.expireDecayed();
+    expect(expired).toEqual([expect.objectContaining({ id: dentist.id, reason: 'Event ended 2026-03-03' })]);
+  });
+});
@@ -0,0 +1,637 @@
+/**
+ * Event Dates
+ *
+ * Events carry an absolute start time, an optional end time and an
+ * optional recurrence, so "what's coming up next week" is a date-range
+ * filter instead of guesswork over prose like "dentist appointment
+ * Tuesday". Relative phrases are resolved once, when the memory is stored,
+ * against the current time in the user's timezone.
+ *
+ * Understood phrases (case-insensitive, anywhere in the text):
+ *   dates:  2026-03-05, today, tonight, tomorrow, the day after tomorrow,
+ *           Tuesday / next Tuesday / on Tue (the coming one, never today),
+ *           March 5 / 5th of March [2027], in two weeks, in 3 days,
+ *           next week / next month / next year (the whole period)
+ *   times:  3pm, 3:30 pm, 15:00, noon, midnight, in 2 hours, 3-5pm,
+ *           from 9am to 11:30am
+ *   repeat: daily, weekly, monthly, yearly, every day / week / month /
+ *           year, every Tuesday
+ *
+ * A one-off event ends at endsAt, or an hour after it starts; after that
+ * it expires (see expiry.ts). Recurring events don't expire by date.
+ */
+
+import type { Memory } from './types.js';
+
+export const RECURRENCES = ['daily', 'weekly', 'monthly', 'yearly'] as const;
+
+export type Recurrence = typeof RECURRENCES[number];
+
+/** How long an event without endsAt is taken to last */
+export const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+export class EventTimeError extends Error {
+  readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(`Invalid ${field}: ${message}`);
+    this.name = 'EventTimeError';
+    this.field = field;
+  }
+}
+
+export interface ParsedEventTime {
+  start: number;
+  /** End of the day or period for dates without a time, or of a time range */
+  end?: number;
+  allDay: boolean;
+}
+
+export interface EventSchedule {
+  startsAt?: number;
+  endsAt?: number;
+  recurrence?: Recurrence;
+}
+
+/**
+ * Changes to a memory's schedule: a value sets the field, null clears it
+ */
+export interface SchedulePatch {
+  startsAt?: number | null;
+  endsAt?: number | null;
+  recurrence?: Recurrence | null;
+}
+
+export interface DateContext {
+  /** Reference time phrases are resolved against (default: now) */
+  now?: number;
+  /** IANA timezone, e.g. "Europe/Berlin" (default: the system's) */
+  timeZone?: string;
+}
+
+interface WallDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface WallTime extends WallDate {
+  hour: number;
+  minute: number;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+const DAY_MS = 86400000;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_ABBREVIATIONS: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6,
+};
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const AMOUNT_PATTERN = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+const TIME_PATTERN = '(\\d{1,2})(?::(\\d{2}))?\\s*(?:(am|pm|a\\.m\\.|p\\.m\\.)(?![a-z]))?';
+
+export function isRecurrence(value: unknown): value is Recurrence {
+  return (RECURRENCES as readonly unknown[]).includes(value);
+}
+
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find a date and/or time in free text. Null when there is none.
+ */
+export function findEventTime(text: string, context: DateContext = {}): ParsedEventTime | null {
+  const now = context.now ?? Date.now();
+  const timeZone = context.timeZone ?? systemTimeZone();
+  const lower = text.toLowerCase();
+
+  // A full ISO timestamp with an offset is already absolute
+  const absolute = lower.match(/\b\d{4}-\d{2}-\d{2}t\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})/);
+  if (absolute) {
+    return { start: Date.parse(absolute[0].toUpperCase()), allDay: false };
+  }
+
+  const today = toWallTime(now, timeZone);
+  const date = findDate(lower, today, now);
+  if (date?.exact !== undefined) {
+    return { start: date.exact, allDay: false };
+  }
+
+  const range = date?.time ? { start: date.time } : findTime(lower);
+  if (!date && !range) return null;
+
+  if (!range) {
+    // A day (or a whole week, month or year) without a time
+    const { from, to } = date!;
+    return {
+      start: fromWallTime({ ...from, hour: 0, minute: 0 }, timeZone),
+      end: fromWallTime({ ...to, hour: 0, minute: 0 }, timeZone),
+      allDay: true,
+    };
+  }
+
+  let day: WallDate = date?.from ?? today;
+  let start = fromWallTime({ ...day, ...range.start }, timeZone);
+  // "at 3pm" alone means the next 3pm
+  if (!date && start <= now) {
+    day = addDays(day, 1);
+    start = fromWallTime({ ...day, ...range.start }, timeZone);
+  }
+
+  let end: number | undefined;
+  if (range.end) {
+    end = fromWallTime({ ...day, ...range.end }, timeZone);
+    if (end <= start) end = fromWallTime({ ...addDays(day, 1), ...range.end }, timeZone);
+  }
+
+  return { start, ...(end !== undefined ? { end } : {}), allDay: false };
+}
+
+/**
+ * Read a date/time given on its own (a tool parameter). Throws
+ * EventTimeError when nothing can be made of it.
+ */
+export function parseEventTime(value: string, field: string, context: DateContext = {}): ParsedEventTime {
+  const parsed = value.trim() ? findEventTime(value, context) : null;
+  if (!parsed || !Number.isFinite(parsed.start)) {
+    throw new EventTimeError(field, `can't read "${value}" as a date or time (try "2026-03-05 15:00", "tomorrow at 3pm" or "next Tuesday")`);
+  }
+  return parsed;
+}
+
+/**
+ * Recurrence mentioned in free text ("every Tuesday", "weekly"), if any
+ */
+export function findRecurrence(text: string): Recurrence | undefined {
+  const lower = text.toLowerCase();
+  if (/\b(daily|every\s+day)\b/.test(lower)) return 'daily';
+  if (/\b(weekly|every\s+week)\b/.test(lower)) return 'weekly';
+  if (new RegExp(`\\bevery\\s+(${WEEKDAYS.join('|')})\\b`).test(lower)) return 'weekly';
+  if (/\b(monthly|every\s+month)\b/.test(lower)) return 'monthly';
+  if (/\b(yearly|annually|every\s+year)\b/.test(lower)) return 'yearly';
+  return undefined;
+}
+
+/**
+ * Work out an event's schedule from memory_store / memory_update input.
+ * Explicit values win; otherwise the date and recurrence are looked for in
+ * the content, when given. Throws EventTimeError.
+ */
+export function resolveSchedule(
+  input: { startsAt?: string; endsAt?: string; recurrence?: string; content?: string },
+  context: DateContext = {}
+): EventSchedule {
+  if (input.recurrence !== undefined && !isRecurrence(input.recurrence)) {
+    throw new EventTimeError('recurrence', `use one of ${RECURRENCES.join(', ')}`);
+  }
+
+  const start = input.startsAt !== undefined
+    ? parseEventTime(input.startsAt, 'startsAt', context)
+    : input.content !== undefined ? findEventTime(input.content, context) : null;
+  const recurrence = input.recurrence ?? (input.content !== undefined ? findRecurrence(input.content) : undefined);
+
+  if (!start) {
+    if (input.endsAt !== undefined) throw new EventTimeError('endsAt', 'needs startsAt');
+    if (input.recurrence !== undefined) throw new EventTimeError('recurrence', 'needs startsAt');
+    return {};
+  }
+
+  let endsAt = start.end;
+  if (input.endsAt !== undefined) {
+    // "5pm" means 5pm on the day the event starts
+    const end = parseEventTime(input.endsAt, 'endsAt', { ...context, now: start.start });
+    endsAt = end.allDay ? end.end : end.start;
+  }
+
+  const schedule: EventSchedule = {
+    startsAt: start.start,
+    ...(endsAt !== undefined ? { endsAt } : {}),
+    ...(recurrence ? { recurrence } : {}),
+  };
+  assertValidSchedule(schedule);
+  return schedule;
+}
+
+/**
+ * Work out the schedule changes of a memory_update call: null clears a
+ * field (clearing startsAt clears the whole schedule), and a new start
+ * without an end drops the old end. Throws EventTimeError.
+ */
+export function resolveSchedulePatch(
+  input: { startsAt?: string | null; endsAt?: string | null; recurrence?: string | null },
+  existing: Memory,
+  context: DateContext = {}
+): SchedulePatch {
+  if (input.recurrence !== undefined && input.recurrence !== null && !isRecurrence(input.recurrence)) {
+    throw new EventTimeError('recurrence', `use one of ${RECURRENCES.join(', ')}`);
+  }
+  if (input.startsAt === null) {
+    return { startsAt: null, endsAt: null, recurrence: null };
+  }
+
+  const patch: SchedulePatch = {};
+  if (input.startsAt !== undefined) {
+    const start = parseEventTime(input.startsAt, 'startsAt', context);
+    patch.startsAt = start.start;
+    patch.endsAt = start.end ?? null;
+  }
+
+  if (input.endsAt === null) {
+    patch.endsAt = null;
+  } else if (input.endsAt !== undefined) {
+    const startsAt = patch.startsAt ?? existing.startsAt;
+    if (startsAt === undefined) throw new EventTimeError('endsAt', 'needs startsAt');
+    const end = parseEventTime(input.endsAt, 'endsAt', { ...context, now: startsAt });
+    patch.endsAt = end.allDay ? end.end : end.start;
+  }
+
+  if (input.recurrence !== undefined) {
+    patch.recurrence = input.recurrence as Recurrence | null;
+  }
+  return patch;
+}
+
+/**
+ * A search date range from phrases: "from" is where the phrase starts, "to"
+ * where it ends, so from "today" to "next week" covers all of next week.
+ * Errors name the fields as given (e.g. createdFrom). Throws EventTimeError.
+ */
+export function resolveDateRange(
+  input: { from?: string; to?: string },
+  context: DateContext = {},
+  fields: { from: string; to: string } = { from: 'from', to: 'to' }
+): { from?: number; to?: number } {
+  const from = input.from !== undefined ? parseEventTime(input.from, fields.from, context).start : undefined;
+  let to: number | undefined;
+  if (input.to !== undefined) {
+    const end = parseEventTime(input.to, fields.to, context);
+    to = end.allDay ? end.end : end.start;
+  }
+  if (from !== undefined && to !== undefined && to <= from) {
+    throw new EventTimeError(fields.to, `is not after ${fields.from}`);
+  }
+  return { ...(from !== undefined ? { from } : {}), ...(to !== undefined ? { to } : {}) };
+}
+
+/**
+ * Check a schedule's fields fit together. Throws EventTimeError.
+ */
+export function assertValidSchedule(schedule: EventSchedule): void {
+  if (schedule.startsAt === undefined) {
+    if (schedule.endsAt !== undefined) throw new EventTimeError('endsAt', 'needs startsAt');
+    if (schedule.recurrence !== undefined) throw new EventTimeError('recurrence', 'needs startsAt');
+    return;
+  }
+  if (!Number.isFinite(schedule.startsAt)) throw new EventTimeError('startsAt', 'not a time');
+  if (schedule.endsAt !== undefined && !(schedule.endsAt >= schedule.startsAt)) {
+    throw new EventTimeError('endsAt', 'is before the start');
+  }
+  if (schedule.recurrence !== undefined && !isRecurrence(schedule.recurrence)) {
+    throw new EventTimeError('recurrence', `use one of ${RECURRENCES.join(', ')}`);
+  }
+}
+
+/**
+ * Apply a schedule patch to a memory in place
+ */
+export function applySchedulePatch(memory: Memory, patch: SchedulePatch): void {
+  if (patch.startsAt === null) delete memory.startsAt;
+  else if (patch.startsAt !== undefined) memory.startsAt = patch.startsAt;
+
+  if (patch.endsAt === null) delete memory.endsAt;
+  else if (patch.endsAt !== undefined) memory.endsAt = patch.endsAt;
+
+  if (patch.recurrence === null) delete memory.recurrence;
+  else if (patch.recurrence !== undefined) memory.recurrence = patch.recurrence;
+}
+
+/**
+ * When a one-off event is over. Null for undated or recurring memories.
+ */
+export function eventEnd(memory: Memory): number | null {
+  if (memory.startsAt === undefined || memory.recurrence) return null;
+  return memory.endsAt ?? memory.startsAt + DEFAULT_EVENT_DURATION_MS;
+}
+
+/**
+ * The first occurrence of an event that hasn't ended by `after`, or null
+ * (undated memory, or a one-off event that is over)
+ */
+export function nextOccurrence(
+  memory: Memory,
+  after: number,
+  timeZone: string = systemTimeZone()
+): { start: number; end: number } | null {
+  if (memory.startsAt === undefined) return null;
+  const duration = (memory.endsAt ?? memory.startsAt + DEFAULT_EVENT_DURATION_MS) - memory.startsAt;
+
+  if (!memory.recurrence) {
+    return memory.startsAt + duration > after ? { start: memory.startsAt, end: memory.startsAt + duration } : null;
+  }
+
+  // Step in wall-clock time so "weekly at 9am" stays at 9am across DST changes
+  const first = toWallTime(memory.startsAt, timeZone);
+  const approxPeriod = { daily: 1, weekly: 7, monthly: 30, yearly: 365 }[memory.recurrence] * DAY_MS;
+  let n = Math.max(0, Math.floor((after - duration - memory.startsAt) / approxPeriod) - 1);
+  for (let guard = 0; guard < 1000; guard++, n++) {
+    const start = fromWallTime(repeat(first, memory.recurrence, n), timeZone);
+    if (start + duration > after) return { start, end: start + duration };
+  }
+  return null;
+}
+
+/**
+ * Whether an event has an occurrence overlapping [from, to). Undated
+ * memories never match. Either end may be left open.
+ */
+export function occursBetween(
+  memory: Memory,
+  from: number | undefined,
+  to: number | undefined,
+  timeZone?: string
+): boolean {
+  if (memory.startsAt === undefined) return false;
+  const occurrence = nextOccurrence(memory, from ?? -Infinity, timeZone);
+  return occurrence !== null && (to === undefined || occurrence.start < to);
+}
+
+/**
+ * The first birthday ("1985-05-13", or "--05-13" without a year) that isn't
+ * over by `after`: that whole day, and the age turned when the year is
+ * known. Feb 29 birthdays fall on Feb 28 in other years. Null if unreadable.
+ */
+export function nextBirthday(
+  birthday: string,
+  after: number,
+  timeZone: string = systemTimeZone()
+): { start: number; end: number; age?: number } | null {
+  const match = birthday.match(/^(\d{4}|-)-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const born = match[1] === '-' ? undefined : Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const today = toWallTime(after, timeZone);
+  for (const year of [today.year, today.year + 1]) {
+    const date = validDate(year, month, day) ?? { year, month, day: daysInMonth(year, month) };
+    const start = fromWallTime({ ...date, hour: 0, minute: 0 }, timeZone);
+    const end = fromWallTime({ ...addDays(date, 1), hour: 0, minute: 0 }, timeZone);
+    if (end > after) {
+      return { start, end, ...(born !== undefined && year > born ? { age: year - born } : {}) };
+    }
+  }
+  return null;
+}
+
+/**
+ * An event's time for people and agents: "Tue 2026-03-03 15:00-16:00 (weekly)"
+ */
+export function formatEventTime(memory: Memory, timeZone: string = systemTimeZone()): string {
+  if (memory.startsAt === undefined) return '';
+  const start = toWallTime(memory.startsAt, timeZone);
+  const end = memory.endsAt !== undefined ? toWallTime(memory.endsAt, timeZone) : null;
+  const weekday = WEEKDAYS[weekdayOf(start)].slice(0, 3);
+  const day = (w: WallDate) => `${w.year}-${pad(w.month)}-${pad(w.day)}`;
+  const time = (w: WallTime) => `${pad(w.hour)}:${pad(w.minute)}`;
+
+  const allDay = start.hour === 0 && start.minute === 0 && (!end || (end.hour === 0 && end.minute === 0));
+  let text = `${weekday[0].toUpperCase()}${weekday.slice(1)} ${day(start)}`;
+  if (allDay) {
+    const lastDay = end ? addDays(end, -1) : start;
+    if (end && day(lastDay) !== day(start)) text += ` to ${day(lastDay)}`;
+  } else {
+    text += ` ${time(start)}`;
+    if (end) text += day(end) === day(start) ? `-${time(end)}` : ` to ${day(end)} ${time(end)}`;
+  }
+  return memory.recurrence ? `${text} (${memory.recurrence})` : text;
+}
+
+// ─── Phrase matching ────────────────────────────────────────────────────────
+
+interface FoundDate {
+  from: WallDate;
+  /** Exclusive end: the day after, or after the week/month/year */
+  to: WallDate;
+  time?: TimeOfDay;
+  /** "in 2 hours": an exact time, no wall-clock involved */
+  exact?: number;
+}
+
+function findDate(text: string, today: WallTime, now: number): FoundDate | null {
+  const single = (from: WallDate, time?: TimeOfDay): FoundDate => ({ from, to: addDays(from, 1), ...(time ? { time } : {}) });
+
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2}))?\b/);
+  if (iso) {
+    const date = validDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (date) return single(date, iso[4] !== undefined ? { hour: Number(iso[4]), minute: Number(iso[5]) } : undefined);
+  }
+
+  const monthFirst = text.match(new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`));
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\b(?:,?\\s+(\\d{4})\\b)?`));
+  const named = monthFirst
+    ? { month: monthIndex(monthFirst[1]), day: Number(monthFirst[2]), year: monthFirst[3] }
+    : dayFirst ? { month: monthIndex(dayFirst[2]), day: Number(dayFirst[1]), year: dayFirst[3] } : null;
+  if (named) {
+    let date = validDate(named.year ? Number(named.year) : today.year, named.month, named.day);
+    // Without a year, a date that has passed is next year's
+    if (date && !named.year && compareDates(date, today) < 0) {
+      date = validDate(today.year + 1, named.month, named.day);
+    }
+    if (date) return single(date);
+  }
+
+  const relative = text.match(new RegExp(`\\bin\\s+(?:a\\s+couple\\s+of|${AMOUNT_PATTERN})\\s+(minute|hour|day|week|fortnight|month|year)s?\\b`));
+  if (relative) {
+    const amount = relative[1] === undefined ? 2 : NUMBER_WORDS[relative[1]] ?? Number(relative[1]);
+    switch (relative[2]) {
+      case 'minute': return { ...single(today), exact: now + amount * 60000 };
+      case 'hour': return { ...single(today), exact: now + amount * 3600000 };
+      case 'day': return single(addDays(today, amount));
+      case 'week': return single(addDays(today, amount * 7));
+      case 'fortnight': return single(addDays(today, amount * 14));
+      case 'month': return single(addMonths(today, amount));
+      case 'year': return single(addMonths(today, amount * 12));
+    }
+  }
+
+  if (/\b(?:the\s+)?day\s+after\s+tomorrow\b/.test(text)) return single(addDays(today, 2));
+  if (/\btomorrow\b/.test(text)) return single(addDays(today, 1));
+  if (/\b(today|tonight|this\s+(?:morning|afternoon|evening))\b/.test(text)) return single(today);
+
+  const period = text.match(/\bnext\s+(week|month|year)\b/);
+  if (period) {
+    if (period[1] === 'week') {
+      // Weeks start on Monday
+      const monday = addDays(today, ((8 - weekdayOf(today)) % 7) || 7);
+      return { from: monday, to: addDays(monday, 7) };
+    }
+    if (period[1] === 'month') {
+      const first = addMonths({ year: today.year, month: today.month, day: 1 }, 1);
+      return { from: first, to: addMonths(first, 1) };
+    }
+    return { from: { year: today.year + 1, month: 1, day: 1 }, to: { year: today.year + 2, month: 1, day: 1 } };
+  }
+
+  const weekday = text.match(
+    new RegExp(`\\b(?:(next|this|on|every)\\s+)?(${WEEKDAYS.join('|')}|${Object.keys(WEEKDAY_ABBREVIATIONS).join('|')})\\b`)
+  );
+  // Abbreviations ("sat", "sun") are common words, so they need "on", "next", ...
+  if (weekday && (weekday[1] || WEEKDAYS.includes(weekday[2]))) {
+    const target = WEEKDAYS.includes(weekday[2]) ? WEEKDAYS.indexOf(weekday[2]) : WEEKDAY_ABBREVIATIONS[weekday[2]];
+    return single(addDays(today, ((target - weekdayOf(today) + 7) % 7) || 7));
+  }
+
+  return null;
+}
+
+function findTime(text: string): { start: TimeOfDay; end?: TimeOfDay } | null {
+  const range = text.match(new RegExp(`\\b(?:from\\s+)?${TIME_PATTERN}\\s*(?:-|–|to|until|till)\\s*${TIME_PATTERN}`));
+  if (range) {
+    const endMeridiem = range[6];
+    // "3-5pm": the start takes the end's am/pm
+    const start = toTimeOfDay(range[1], range[2], range[3] ?? endMeridiem);
+    const end = toTimeOfDay(range[4], range[5], endMeridiem);
+    if (start && end && (range[2] || range[3] || range[5] || endMeridiem)) return { start, end };
+  }
+
+  const withMeridiem = text.match(/\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?![a-z])/);
+  if (withMeridiem) {
+    const start = toTimeOfDay(withMeridiem[1], withMeridiem[2], withMeridiem[3]);
+    if (start) return { start };
+  }
+
+  const clock = text.match(/\b(?:at\s+)?(\d{1,2}):(\d{2})\b/);
+  if (clock) {
+    const start = toTimeOfDay(clock[1], clock[2], undefined);
+    if (start) return { start };
+  }
+
+  const named = text.match(/\b(noon|midday|midnight)\b/);
+  if (named) return { start: { hour: named[1] === 'midnight' ? 0 : 12, minute: 0 } };
+
+  return null;
+}
+
+function toTimeOfDay(hourText: string, minuteText: string | undefined, meridiem: string | undefined): TimeOfDay | null {
+  let hour = Number(hourText);
+  const minute = minuteText ? Number(minuteText) : 0;
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    const pm = meridiem.startsWith('p');
+    if (hour === 12) hour = pm ? 12 : 0;
+    else if (pm) hour += 12;
+  } else if (hour > 23) {
+    return null;
+  }
+  return { hour, minute };
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(month => month.startsWith(name.slice(0, 3))) + 1;
+}
+
+// ─── Wall-clock arithmetic ──────────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function toWallTime(ms: number, timeZone: string): WallTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+// Wall-clock time in a timezone -> Unix ms. In a DST gap the time moves
+// forward; in an overlap the first of the two instants is used.
+function fromWallTime(wall: WallTime, timeZone: string): number {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offsetAt = (ms: number) => {
+    const seen = toWallTime(ms, timeZone);
+    return Date.UTC(seen.year, seen.month - 1, seen.day, seen.hour, seen.minute) - Math.floor(ms / 60000) * 60000;
+  };
+  const first = asUtc - offsetAt(asUtc);
+  return asUtc - offsetAt(first);
+}
+
+function addDays(date: WallDate, days: number): WallDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+// Jan 31 + 1 month = Feb 28 (or 29)
+function addMonths<T extends WallDate>(date: T, months: number): T {
+  const index = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(index / 12);
+  const month = index % 12 + 1;
+  return { ...date, year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+function repeat(first: WallTime, recurrence: Recurrence, n: number): WallTime {
+  switch (recurrence) {
+    case 'daily': return { ...first, ...addDays(first, n) };
+    case 'weekly': return { ...first, ...addDays(first, n * 7) };
+    case 'monthly': return addMonths(first, n);
+    case 'yearly': return addMonths(first, n * 12);
+  }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function validDate(year: number, month: number, day: number): WallDate | null {
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month) ? { year, month, day } : null;
+}
+
+function compareDates(a: WallDate, b: WallDate): number {
+  return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
+
+function weekdayOf(date: WallDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
@@ -0,0 +1,102 @@
+/**
+ * Expiry Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { MemoryStoreV2 } from './store.js';
+import type { BackendType } from './backend.js';
+import { EventEndedError } from './expiry.js';
+
+const DAY_MS = 86400000;
+
+describe.each<BackendType>(['markdown', 'sqlite'])('MemoryStore expiry: %s', backend => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir, 'memories', { backend, searchEngines: ['bm25'] });
+    await store.init();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function createExpired(content: string) {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() - 3 * DAY_MS);
+    const memory = await store.create({ content, category: 'event', decayDays: 2 });
+    vi.useRealTimers();
+    return memory;
+  }
+
+  it('should move expired memories to the archive', async () => {
+    const meeting = await createExpired('Dentist on Monday');
+    const trip = await store.create({ content: 'Trip next week', category: 'event', decayDays: 10 });
+
+    const preview = store.expireDecayed({ dryRun: true });
+    expect(preview.expired.map(m => m.id)).toEqual([meeting.id]);
+    expect(store.count()).toBe(2);
+
+    const result = store.expireDecayed();
+    expect(result.expired[0].reason).toMatch(/^Expired \d{4}-\d{2}-\d{2} \(decayDays: 2\)$/);
+    expect(store.count()).toBe(1);
+    expect(store.get(trip.id)).not.toBeNull();
+    expect(store.getDeleted(meeting.id)).toBeNull();
+    expect(store.getArchived(meeting.id)?.archiveReason).toBe(result.expired[0].reason);
+  });
+
+  it('should keep archived memories when the retention policy purges', async () => {
+    const meeting = await createExpired('Dentist on Monday');
+    store.expireDecayed();
+    await store.delete((await store.create({ content: 'Old note', category: 'fact' })).id);
+
+    const result = store.purgeDeleted({ maxItems: 0 });
+    expect(result.purged).toHaveLength(1);
+    expect(store.getArchived(meeting.id)).not.toBeNull();
+    expect(store.history(meeting.id).current?.archivedAt).toBeDefined();
+  });
+
+  it('should find archived memories only when expired ones are included', async () => {
+    const meeting = await createExpired('Dentist appointment on Monday');
+    store.expireDecayed();
+
+    const ids = async (opts: object) => (await store.search({ query: 'dentist appointment', ...opts })).map(r => r.memory.id);
+    expect(await ids({})).toEqual([]);
+    expect(await ids({ excludeDecayed: false })).toEqual([meeting.id]);
+    expect((await store.search({ excludeDecayed: false })).map(r => r.memory.id)).toEqual([meeting.id]);
+
+    const restored = await store.restore(meeting.id);
+    expect(restored.archivedAt).toBeUndefined();
+    expect(store.getArchived(meeting.id)).toBeNull();
+  });
+
+  it('should start the decay of a restored memory over', async () => {
+    const meeting = await createExpired('Dentist appointment on Monday');
+    store.expireDecayed();
+
+    await store.restore(meeting.id);
+    expect((await store.search({ query: 'dentist appointment' })).map(r => r.memory.id)).toEqual([meeting.id]);
+    expect(store.expireDecayed().expired).toEqual([]);
+    expect(store.get(meeting.id)?.decayDays).toBe(2);
+  });
+
+  it('should not restore an event that has ended', async () => {
+    const dentist = await store.create({
+      content: 'Dentist',
+      category: 'event',
+      startsAt: Date.now() - 3 * DAY_MS,
+      endsAt: Date.now() - 3 * DAY_MS + 3600000,
+    });
+    store.expireDecayed();
+
+    await expect(store.restore(dentist.id)).rejects.toThrow(EventEndedError);
+    expect(store.getArchived(dentist.id)).not.toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Memory Expiry
+ *
+ * A memory with decayDays expires that many days after it was created,
+ * or after it was last reinforced (see reinforcement.ts). A one-off event
+ * with a date expires when it ends instead (see events.ts).
+ * Searches hide expired memories right away; the plugin service sweeps
+ * them into .archive periodically, so they stop counting towards stats,
+ * listings and injected instructions. The retention policy never purges
+ * the archive: searches that include expired memories still find them,
+ * and they can be restored.
+ */
+
+import type { Memory } from './types.js';
+import { eventEnd } from './events.js';
+import { addEvidence } from './reinforcement.js';
+
+const DAY_MS = 86400000;
+
+/**
+ * When a memory's decay clock started: its last reinforcement, else its creation
+ */
+export function decayStart(memory: Memory): number {
+  const reinforcedAt = memory.evidence?.[memory.evidence.length - 1]?.at;
+  return reinforcedAt !== undefined ? Math.max(reinforcedAt, memory.createdAt) : memory.createdAt;
+}
+
+/**
+ * When a memory expires (Unix timestamp ms), or null if it's permanent
+ */
+export function expiresAt(memory: Memory): number | null {
+  const end = eventEnd(memory);
+  if (end !== null) return end;
+  if (!memory.decayDays || memory.decayDays <= 0) return null;
+  return decayStart(memory) + memory.decayDays * DAY_MS;
+}
+
+export function isExpired(memory: Memory, now: number = Date.now()): boolean {
+  const expiry = expiresAt(memory);
+  return expiry !== null && now > expiry;
+}
+
+/**
+ * A one-off event that has ended can't be restored from the archive: it
+ * would expire again straight away
+ */
+export class EventEndedError extends Error {
+  constructor(public id: string, public endedAt: number) {
+    super(`Memory ${id} is an event that ended ${new Date(endedAt).toISOString().slice(0, 10)} and cannot be restored`);
+    this.name = 'EventEndedError';
+  }
+}
+
+/**
+ * Start the decay clock of a memory restored from the archive over, as a
+ * fresh mention would, so it isn't expired (and swept back) right away
+ */
+export function restartDecay(memory: Memory, now: number = Date.now()): void {
+  if (memory.decayDays && memory.decayDays > 0 && eventEnd(memory) === null) {
+    memory.evidence = addEvidence(memory, {}, now);
+  }
+}
+
+/**
+ * The delete reason recorded for a swept memory
+ */
+export function expiryReason(memory: Memory): string {
+  const end = eventEnd(memory);
+  if (end !== null) return `Event ended ${new Date(end).toISOString().slice(0, 10)}`;
+  return `Expired ${new Date(expiresAt(memory) ?? decayStart(memory)).toISOString().slice(0, 10)} ` +
+    `(decayDays: ${memory.decayDays})`;
+}
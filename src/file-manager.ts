@@ -8,120 +8,451 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { randomUUID } from 'node:crypto';
-import type { Memory, MemoryCategory, CreateMemoryInput, UpdateMemoryInput } from './types.js';
+import {
+  type Memory,
+  type MemoryCategory,
+  type CreateMemoryInput,
+  type UpdateMemoryInput,
+  type PurgeDeletedOptions,
+  type PurgeDeletedResult,
+  type RevisionMeta,
+  type MemoryRevision,
+  type WriteConditions,
+} from './types.js';
+import { MemoryIndex } from './memory-index.js';
+import { DEFAULT_CATEGORIES, type CategoryRegistry } from './categories.js';
+import { applyAttributePatch, readAttributes } from './attributes.js';
+import { evidenceToFrontmatter, readEvidence } from './reinforcement.js';
+import { applySchedulePatch, isRecurrence } from './events.js';
+import { restartDecay } from './expiry.js';
+import {
+  checkWriteConditions,
+  MemoryExistsError,
+  nextUpdatedAt,
+  revertToRevision,
+  selectPurgeable,
+  type MemoryBackend,
+} from './backend.js';
+import { FileLock } from './lock.js';
+import { isSealed, type EncryptionMode, type MemoryCipher } from './encryption.js';
+import type { GitClient } from './git.js';
+import { INDEX_DIR, SidecarFile } from './sidecar.js';
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter.js';
 
-// Simple YAML frontmatter parser/serializer (no external deps)
-function parseYamlFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } {
-  const match = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
-  if (!match) {
-    return { frontmatter: {}, body: content };
-  }
+// Frontmatter keys owned by the Memory schema. Anything else is preserved
+// in Memory.extraFrontmatter so hand-added keys survive a rewrite.
+const MEMORY_FRONTMATTER_KEYS = new Set([
+  'id',
+  'category',
+  'confidence',
+  'importance',
+  'created_at',
+  'updated_at',
+  'last_accessed_at',
+  'decay_days',
+  'source_channel',
+  'source_message_id',
+  'namespace',
+  'tags',
+  'supersedes',
+  'deleted_at',
+  'delete_reason',
+  'archived_at',
+  'archive_reason',
+  'attributes',
+  'evidence',
+  'starts_at',
+  'ends_at',
+  'recurrence',
+]);
 
-  const [, yaml, body] = match;
-  const frontmatter: Record<string, unknown> = {};
+// Frontmatter key of a content-mode file holding its sealed attributes,
+// evidence and extra keys
+const SEALED_FRONTMATTER_KEY = 'sealed';
 
-  for (const line of yaml.split('\n')) {
-    const colonIdx = line.indexOf(':');
-    if (colonIdx === -1) continue;
+// Sidecar (in .index/, which git leaves out) of access times under git versioning
+const ACCESS_FILENAME = 'access.json';
 
-    const key = line.slice(0, colonIdx).trim();
-    let value: unknown = line.slice(colonIdx + 1).trim();
+// Revision metadata stored alongside the memory snapshot in .history files
+const REVISION_FRONTMATTER_KEYS = [
+  'revision',
+  'revision_action',
+  'revision_recorded_at',
+  'revision_actor',
+  'revision_reason',
+] as const;
 
-    // Parse arrays: [item1, item2]
-    if (typeof value === 'string' && value.startsWith('[') && value.endsWith(']')) {
-      value = value.slice(1, -1).split(',').map(s => s.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
-    }
-    // Parse numbers
-    else if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value)) {
-      value = parseFloat(value);
-    }
-    // Parse booleans
-    else if (value === 'true') value = true;
-    else if (value === 'false') value = false;
-    else if (value === 'null') value = null;
-    // Remove quotes from strings
-    else if (typeof value === 'string') {
-      value = value.replace(/^["']|["']$/g, '');
-    }
+/**
+ * Serialize a memory to a markdown document with YAML frontmatter
+ */
+export function serializeMemory(memory: Memory): string {
+  const data: Record<string, unknown> = {
+    id: memory.id,
+    category: memory.category,
+    confidence: memory.confidence,
+    importance: memory.importance,
+    created_at: toIsoTimestamp(memory.createdAt),
+    updated_at: toIsoTimestamp(memory.updatedAt),
+    last_accessed_at: toIsoTimestamp(memory.lastAccessedAt),
+    decay_days: memory.decayDays ?? null,
+    source_channel: memory.sourceChannel ?? null,
+    source_message_id: memory.sourceMessageId ?? null,
+    namespace: memory.namespace ?? null,
+    tags: memory.tags,
+    supersedes: memory.supersedes ?? null,
+    deleted_at: toIsoTimestamp(memory.deletedAt),
+    delete_reason: memory.deleteReason ?? null,
+    // Only written when set, so files without them look as before
+    ...(memory.archivedAt !== undefined ? { archived_at: toIsoTimestamp(memory.archivedAt) } : {}),
+    ...(memory.archiveReason !== undefined ? { archive_reason: memory.archiveReason } : {}),
+    ...(memory.attributes ? { attributes: memory.attributes } : {}),
+    ...(memory.evidence ? { evidence: evidenceToFrontmatter(memory.evidence) } : {}),
+    ...(memory.startsAt !== undefined ? { starts_at: toIsoTimestamp(memory.startsAt) } : {}),
+    ...(memory.endsAt !== undefined ? { ends_at: toIsoTimestamp(memory.endsAt) } : {}),
+    ...(memory.recurrence ? { recurrence: memory.recurrence } : {}),
+  };
 
-    frontmatter[key] = value;
+  for (const [key, value] of Object.entries(memory.extraFrontmatter ?? {})) {
+    if (!MEMORY_FRONTMATTER_KEYS.has(key)) data[key] = value;
   }
 
-  return { frontmatter, body: body.trim() };
+  return stringifyFrontmatter(data, memory.content);
+}
+
+/**
+ * Parse a memory document. fallbackId is used when the frontmatter has no id
+ * (e.g. a hand-written file). Throws FrontmatterParseError on malformed YAML.
+ */
+export function parseMemory(content: string, fallbackId: string): Memory {
+  const { data, body } = parseFrontmatter(content);
+  return memoryFromFrontmatter(data, body, fallbackId);
 }
 
-function serializeYamlFrontmatter(data: Record<string, unknown>): string {
-  const lines: string[] = [];
+function memoryFromFrontmatter(data: Record<string, unknown>, body: string, fallbackId: string): Memory {
+  const now = Date.now();
 
+  const extra: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(data)) {
-    if (value === undefined) continue;
-    if (value === null) {
-      lines.push(`${key}: null`);
-    } else if (Array.isArray(value)) {
-      lines.push(`${key}: [${value.map(v => `"${v}"`).join(', ')}]`);
-    } else if (typeof value === 'string') {
-      // Quote strings with special chars
-      if (value.includes(':') || value.includes('#') || value.includes('\n')) {
-        lines.push(`${key}: "${value.replace(/"/g, '\\"')}"`);
-      } else {
-        lines.push(`${key}: ${value}`);
-      }
-    } else {
-      lines.push(`${key}: ${value}`);
+    if (!MEMORY_FRONTMATTER_KEYS.has(key)) extra[key] = value;
+  }
+  const attributes = readAttributes(data.attributes);
+  const evidence = readEvidence(data.evidence);
+  const startsAt = fromTimestamp(data.starts_at);
+  const endsAt = startsAt !== undefined ? fromTimestamp(data.ends_at) : undefined;
+  const archivedAt = fromTimestamp(data.archived_at);
+
+  return {
+    id: optionalString(data.id) ?? fallbackId,
+    content: body,
+    category: data.category as MemoryCategory,
+    confidence: typeof data.confidence === 'number' ? data.confidence : 0.8,
+    importance: typeof data.importance === 'number' ? data.importance : 0.5,
+    createdAt: fromTimestamp(data.created_at) ?? now,
+    updatedAt: fromTimestamp(data.updated_at) ?? now,
+    lastAccessedAt: fromTimestamp(data.last_accessed_at) ?? now,
+    decayDays: typeof data.decay_days === 'number' ? data.decay_days : null,
+    sourceChannel: optionalString(data.source_channel),
+    sourceMessageId: optionalString(data.source_message_id),
+    namespace: optionalString(data.namespace),
+    tags: Array.isArray(data.tags) ? data.tags.map(String) : [],
+    supersedes: optionalString(data.supersedes),
+    deletedAt: fromTimestamp(data.deleted_at),
+    deleteReason: optionalString(data.delete_reason),
+    ...(archivedAt !== undefined ? { archivedAt, archiveReason: optionalString(data.archive_reason) } : {}),
+    ...(attributes ? { attributes } : {}),
+    ...(evidence ? { evidence } : {}),
+    ...(startsAt !== undefined ? { startsAt } : {}),
+    ...(endsAt !== undefined ? { endsAt } : {}),
+    ...(startsAt !== undefined && isRecurrence(data.recurrence) ? { recurrence: data.recurrence } : {}),
+    ...(Object.keys(extra).length > 0 ? { extraFrontmatter: extra } : {}),
+  };
+}
+
+/**
+ * Serialize a memory for disk according to an encryption mode
+ */
+export function encodeMemoryFile(memory: Memory, encryption: EncryptionMode, cipher?: MemoryCipher): string {
+  if (encryption !== 'off' && !cipher) {
+    throw new Error(`Encryption mode '${encryption}' needs an encryption key`);
+  }
+  switch (encryption) {
+    case 'off':
+      return serializeMemory(memory);
+    case 'content': {
+      // Attributes, evidence and extra keys can be as personal as the text
+      const { attributes, evidence, extraFrontmatter, ...visible } = memory;
+      const hidden: Record<string, unknown> = {
+        ...extraFrontmatter,
+        ...(attributes ? { attributes } : {}),
+        ...(evidence ? { evidence: evidenceToFrontmatter(evidence) } : {}),
+      };
+      return serializeMemory({
+        ...visible,
+        content: cipher!.seal(memory.content),
+        ...(Object.keys(hidden).length > 0
+          ? { extraFrontmatter: { [SEALED_FRONTMATTER_KEY]: cipher!.seal(JSON.stringify(hidden)) } }
+          : {}),
+      });
     }
+    case 'full':
+      return `${cipher!.seal(serializeMemory(memory))}\n`;
   }
+}
 
-  return lines.join('\n');
+/**
+ * Parse a memory file written in any encryption mode. Throws when the file
+ * is encrypted and no (or the wrong) cipher is given.
+ */
+export function decodeMemoryFile(raw: string, fallbackId: string, cipher?: MemoryCipher): Memory {
+  const needsKey = () => {
+    if (!cipher) {
+      throw new Error('Memory file is encrypted; set encryptionKey to read it');
+    }
+    return cipher;
+  };
+
+  const document = isSealed(raw) ? needsKey().open(raw) : raw;
+  const { data, body } = parseFrontmatter(document);
+  const sealed = data[SEALED_FRONTMATTER_KEY];
+  if (typeof sealed === 'string' && isSealed(sealed)) {
+    delete data[SEALED_FRONTMATTER_KEY];
+    Object.assign(data, JSON.parse(needsKey().open(sealed)));
+  }
+  const memory = memoryFromFrontmatter(data, body, fallbackId);
+  if (isSealed(memory.content)) {
+    memory.content = needsKey().open(memory.content);
+  }
+  return memory;
 }
 
-export class MemoryFileManager {
+function toIsoTimestamp(ms: number | undefined): string | null {
+  return ms === undefined || ms === null ? null : new Date(ms).toISOString();
+}
+
+function fromTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return undefined;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  return String(value);
+}
+
+export interface MemoryFileManagerOptions {
+  /**
+   * Watch the category directories and invalidate the in-memory index
+   * when files are edited by hand. Defaults to true. Without a watcher
+   * the index can't be trusted, so every read goes to disk.
+   */
+  watch?: boolean;
+
+  /**
+   * Namespace this directory belongs to. Memories read from it are
+   * tagged with it regardless of what their frontmatter says.
+   */
+  namespace?: string;
+
+  /** How files are written: plain (default), body encrypted or fully encrypted */
+  encryption?: EncryptionMode;
+
+  /**
+   * Key for reading and writing encrypted files. Required unless encryption
+   * is 'off'; with 'off' it still lets encrypted files be read (for decrypting).
+   */
+  cipher?: MemoryCipher;
+
+  /** Commit every change to this git repository (see GitClient) */
+  git?: GitClient;
+
+  /** Categories and their directories. Defaults to the built-ins. */
+  categories?: CategoryRegistry;
+}
+
+export class MemoryFileManager implements MemoryBackend {
   private memoriesPath: string;
   private deletedPath: string;
+  private archivePath: string;
+  private historyPath: string;
+  private index: MemoryIndex | null = null;
+  // Archived memories by id, kept while the watcher can invalidate them
+  private archived: Map<string, Memory> | null = null;
+  private dirtyPaths = new Set<string>();
+  private watchers: fs.FSWatcher[] = [];
+  private watching: boolean = false;
+  private namespace: string | undefined;
+  private lock: FileLock;
+  private encryption: EncryptionMode;
+  private cipher: MemoryCipher | undefined;
+  private git: GitClient | undefined;
+  // With git, access times are kept here instead of in the versioned files
+  private accessFile: SidecarFile | null = null;
+  private accessTimes: Map<string, number> | null = null;
+  private categories: CategoryRegistry;
 
-  constructor(memoriesPath: string) {
+  constructor(memoriesPath: string, options: MemoryFileManagerOptions = {}) {
     this.memoriesPath = memoriesPath;
     this.deletedPath = path.join(memoriesPath, '.deleted');
+    this.archivePath = path.join(memoriesPath, '.archive');
+    this.historyPath = path.join(memoriesPath, '.history');
+    this.namespace = options.namespace;
+    this.encryption = options.encryption ?? 'off';
+    this.cipher = options.cipher;
+    if (this.encryption !== 'off' && !this.cipher) {
+      throw new Error(`Encryption mode '${this.encryption}' needs an encryption key`);
+    }
+    // Shared by every process using this directory
+    this.lock = new FileLock(path.join(memoriesPath, '.lock'));
+    this.git = options.git;
+    if (this.git) {
+      this.accessFile = new SidecarFile(memoriesPath, ACCESS_FILENAME, { cipher: this.cipher });
+    }
+    this.categories = options.categories ?? DEFAULT_CATEGORIES;
     this.ensureDirectories();
+    this.git?.init();
+    if (options.watch !== false) {
+      this.startWatching();
+    }
   }
 
   private ensureDirectories(): void {
     // Create category directories
-    const categories = ['facts', 'preferences', 'events', 'relationships', 'contexts', 'instructions', 'decisions', 'entities'];
-    for (const cat of categories) {
-      const dir = path.join(this.memoriesPath, cat);
+    for (const dir of this.categoryDirs()) {
       if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
       }
     }
-    // Create deleted directory
-    if (!fs.existsSync(this.deletedPath)) {
-      fs.mkdirSync(this.deletedPath, { recursive: true });
+    // Create deleted and archive directories
+    for (const dir of [this.deletedPath, this.archivePath]) {
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
     }
   }
 
   private categoryToDir(category: MemoryCategory): string {
-    // Pluralize category names for directory
-    const map: Record<MemoryCategory, string> = {
-      fact: 'facts',
-      preference: 'preferences',
-      event: 'events',
-      relationship: 'relationships',
-      context: 'contexts',
-      instruction: 'instructions',
-      decision: 'decisions',
-      entity: 'entities',
-    };
-    return map[category];
+    return this.categories.dirOf(category);
+  }
+
+  private categoryDirs(): string[] {
+    return this.categories.all().map(category => path.join(this.memoriesPath, category.dir));
   }
 
   private getFilePath(id: string, category: MemoryCategory): string {
     return path.join(this.memoriesPath, this.categoryToDir(category), `${id}.md`);
   }
 
+  /**
+   * Watch every category directory and the archive. Events only mark
+   * paths dirty (or the archive as a whole); files are re-read lazily on
+   * the next access.
+   */
+  private startWatching(): void {
+    try {
+      for (const dir of this.categoryDirs()) {
+        const watcher = fs.watch(dir, (_event, filename) => {
+          if (!filename) {
+            // Platform couldn't tell us which file changed - rebuild everything
+            this.index = null;
+            return;
+          }
+          if (filename.endsWith('.md')) {
+            this.dirtyPaths.add(path.join(dir, filename));
+          }
+        });
+        watcher.on('error', () => this.stopWatching());
+        watcher.unref();
+        this.watchers.push(watcher);
+      }
+      const archiveWatcher = fs.watch(this.archivePath, () => {
+        this.archived = null;
+      });
+      archiveWatcher.on('error', () => this.stopWatching());
+      archiveWatcher.unref();
+      this.watchers.push(archiveWatcher);
+      this.watching = true;
+    } catch (err: any) {
+      console.warn(`[memory-tools] File watching unavailable, memory index disabled: ${err.message}`);
+      this.stopWatching();
+    }
+  }
+
+  private stopWatching(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    this.watching = false;
+    this.index = null;
+    this.archived = null;
+    this.dirtyPaths.clear();
+  }
+
+  /**
+   * Get the up-to-date index, building it on first use and
+   * re-reading any files the watcher reported as changed.
+   */
+  private getIndex(): MemoryIndex {
+    if (!this.watching || !this.index) {
+      const index = new MemoryIndex();
+      for (const dir of this.categoryDirs()) {
+        if (!fs.existsSync(dir)) continue;
+
+        for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.md'))) {
+          const filePath = path.join(dir, file);
+          const memory = this.readMemoryFile(filePath);
+          if (memory) index.upsert(memory, filePath);
+        }
+      }
+      this.dirtyPaths.clear();
+      // Only keep the index around while the watcher can invalidate it
+      if (this.watching) this.index = index;
+      return index;
+    }
+
+    if (this.dirtyPaths.size > 0) {
+      const dirty = [...this.dirtyPaths];
+      this.dirtyPaths.clear();
+      for (const filePath of dirty) {
+        const memory = fs.existsSync(filePath) ? this.readMemoryFile(filePath) : null;
+        if (memory) {
+          this.index.upsert(memory, filePath);
+        } else {
+          this.index.removePath(filePath);
+        }
+      }
+    }
+
+    return this.index;
+  }
+
+  /**
+   * Drop the in-memory index so the next read rebuilds it from disk
+   */
+  invalidateIndex(): void {
+    this.index = null;
+    this.archived = null;
+    this.dirtyPaths.clear();
+  }
+
+  /**
+   * Stop watching the memories directory
+   */
+  close(): void {
+    this.stopWatching();
+  }
+
+  /**
+   * Nothing to load up front: files are read lazily through the index
+   */
+  async init(): Promise<void> {}
+
   /**
    * Create a new memory file
    */
-  create(input: CreateMemoryInput): Memory {
+  create(input: CreateMemoryInput, meta: RevisionMeta = {}): Memory {
     const id = randomUUID();
     const now = Date.now();
 
@@ -137,93 +468,370 @@ export class MemoryFileManager {
       decayDays: input.decayDays ?? null,
       sourceChannel: input.sourceChannel,
       sourceMessageId: input.sourceMessageId,
+      namespace: this.namespace,
       tags: input.tags ?? [],
-      supersedes: undefined,
+      supersedes: input.supersedes,
       deletedAt: undefined,
       deleteReason: undefined,
+      ...(input.attributes ? { attributes: input.attributes } : {}),
+      ...(input.startsAt !== undefined ? { startsAt: input.startsAt } : {}),
+      ...(input.endsAt !== undefined ? { endsAt: input.endsAt } : {}),
+      ...(input.recurrence ? { recurrence: input.recurrence } : {}),
     };
 
-    this.writeMemory(memory);
+    this.lock.withLock(() => {
+      this.writeMemory(memory);
+      this.commit(memory.id, { action: 'create', ...meta });
+    });
     return memory;
   }
 
   /**
-   * Read a memory by ID
+   * Read a memory by ID (full UUID or 8-character short ID)
    */
   get(id: string): Memory | null {
-    // Try to find in any category directory
-    const categories: MemoryCategory[] = ['fact', 'preference', 'event', 'relationship', 'context', 'instruction', 'decision', 'entity'];
+    const index = this.getIndex();
+    const memory = index.get(id) ?? (id.length === 8 ? index.getByShortId(id) : null);
+    return memory ? cloneMemory(memory) : null;
+  }
+
+  /**
+   * Update an existing memory, keeping the previous version as a revision
+   */
+  update(
+    id: string,
+    updates: UpdateMemoryInput,
+    meta: RevisionMeta = {},
+    conditions: WriteConditions = {}
+  ): Memory | null {
+    return this.lock.withLock(() => {
+      const existing = this.readFresh(id);
+      if (!existing) return null;
 
-    for (const category of categories) {
-      const filePath = this.getFilePath(id, category);
-      if (fs.existsSync(filePath)) {
-        return this.readMemoryFile(filePath);
+      // Ignore fields the caller left undefined rather than clearing them
+      const defined = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      ) as UpdateMemoryInput;
+
+      checkWriteConditions(this, existing, defined, conditions);
+      this.recordRevision(existing, { action: 'update', ...meta });
+
+      const { attributes: patch, startsAt, endsAt, recurrence, ...fields } = defined;
+      const updated: Memory = {
+        ...existing,
+        ...fields,
+        content: updates.content ?? existing.content,
+        updatedAt: nextUpdatedAt(existing),
+        tags: updates.tags ?? existing.tags,
+      };
+      if (patch !== undefined) {
+        const attributes = applyAttributePatch(existing.attributes, patch);
+        if (attributes) updated.attributes = attributes;
+        else delete updated.attributes;
       }
+      applySchedulePatch(updated, { startsAt, endsAt, recurrence });
 
-      // Also try short ID match
-      if (id.length === 8) {
-        const dir = path.join(this.memoriesPath, this.categoryToDir(category));
-        if (fs.existsSync(dir)) {
-          const files = fs.readdirSync(dir);
-          const match = files.find(f => f.startsWith(id) && f.endsWith('.md'));
-          if (match) {
-            return this.readMemoryFile(path.join(dir, match));
-          }
-        }
+      // If category changed, move the file
+      if (existing.category !== updated.category) {
+        const oldPath = this.getFilePath(existing.id, existing.category);
+        fs.unlinkSync(oldPath);
+        this.index?.removePath(oldPath);
       }
+
+      this.writeMemory(updated);
+      this.commit(updated.id, { action: 'update', ...meta });
+      return updated;
+    });
+  }
+
+  /**
+   * Soft delete a memory (move to .deleted folder)
+   */
+  delete(id: string, reason?: string, meta: RevisionMeta = {}): boolean {
+    return this.lock.withLock(() => {
+      const memory = this.readFresh(id);
+      if (!memory) return false;
+
+      this.recordRevision(memory, { action: 'delete', reason, ...meta });
+
+      const oldPath = this.getFilePath(memory.id, memory.category);
+      const deletedPath = path.join(this.deletedPath, `${memory.id}.md`);
+
+      // Update memory with deletion info
+      memory.deletedAt = Date.now();
+      memory.deleteReason = reason;
+
+      // Write to deleted folder
+      this.writeMemoryToPath(memory, deletedPath);
+
+      // Remove from active folder
+      if (fs.existsSync(oldPath)) {
+        fs.unlinkSync(oldPath);
+      }
+      this.index?.remove(memory.id);
+      this.commit(memory.id, { action: 'delete', reason, ...meta });
+
+      return true;
+    });
+  }
+
+  /**
+   * Move an expired memory to .archive, out of the active memories but
+   * out of reach of purgeDeleted
+   */
+  archive(id: string, reason?: string, meta: RevisionMeta = {}): boolean {
+    return this.lock.withLock(() => {
+      const memory = this.readFresh(id);
+      if (!memory) return false;
+
+      this.recordRevision(memory, { action: 'archive', reason, ...meta });
+
+      const oldPath = this.getFilePath(memory.id, memory.category);
+      memory.archivedAt = Date.now();
+      memory.archiveReason = reason;
+      this.writeMemoryToPath(memory, path.join(this.archivePath, `${memory.id}.md`));
+
+      if (fs.existsSync(oldPath)) {
+        fs.unlinkSync(oldPath);
+      }
+      this.index?.remove(memory.id);
+      this.archived = null;
+      this.commit(memory.id, { action: 'archive', reason, ...meta });
+
+      return true;
+    });
+  }
+
+  /**
+   * List soft-deleted memories, most recently deleted first
+   */
+  listDeleted(limit: number = 20): Memory[] {
+    return this.readDeleted()
+      .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+      .slice(0, limit);
+  }
+
+  /**
+   * Read a soft-deleted memory by ID (full UUID or 8-character short ID)
+   */
+  getDeleted(id: string): Memory | null {
+    const exactPath = path.join(this.deletedPath, `${id}.md`);
+    if (fs.existsSync(exactPath)) {
+      return this.readMemoryFile(exactPath);
+    }
+
+    if (id.length === 8) {
+      return this.readDeleted().find(m => m.id.startsWith(id)) ?? null;
     }
 
     return null;
   }
 
   /**
-   * Update an existing memory
+   * Every archived memory
    */
-  update(id: string, updates: UpdateMemoryInput): Memory | null {
-    const existing = this.get(id);
-    if (!existing) return null;
+  listArchived(): Memory[] {
+    return [...this.getArchivedMap().values()].map(cloneMemory);
+  }
 
-    const updated: Memory = {
-      ...existing,
-      ...updates,
-      content: updates.content ?? existing.content,
-      updatedAt: Date.now(),
-      tags: updates.tags ?? existing.tags,
-    };
+  /**
+   * Read an archived memory by ID (full UUID or 8-character short ID)
+   */
+  getArchived(id: string): Memory | null {
+    const archived = this.getArchivedMap();
+    const memory = archived.get(id)
+      ?? (id.length === 8 ? [...archived.values()].find(m => m.id.startsWith(id)) : undefined);
+    return memory ? cloneMemory(memory) : null;
+  }
+
+  /**
+   * Restore a soft-deleted or archived memory to its category directory,
+   * keeping its original ID and clearing the deletion or archive fields.
+   * An archived memory's decay starts over.
+   */
+  restore(id: string, meta: RevisionMeta = {}): Memory | null {
+    return this.lock.withLock(() => {
+      const deleted = this.getDeleted(id);
+      const memory = deleted ?? this.getArchived(id);
+      if (!memory) return null;
+
+      if (this.readFresh(memory.id)) {
+        throw new MemoryExistsError(memory.id);
+      }
+
+      const storedFile = path.join(deleted ? this.deletedPath : this.archivePath, `${memory.id}.md`);
+      memory.deletedAt = undefined;
+      memory.deleteReason = undefined;
+      if (!deleted) restartDecay(memory);
+      delete memory.archivedAt;
+      delete memory.archiveReason;
+
+      this.writeMemory(memory);
+      if (fs.existsSync(storedFile)) {
+        fs.unlinkSync(storedFile);
+      }
+      if (!deleted) this.archived = null;
+      this.commit(memory.id, { action: 'restore', ...meta });
+
+      return memory;
+    });
+  }
+
+  /**
+   * Permanently remove soft-deleted memories past the retention policy.
+   * Memories without a deletedAt (e.g. hand-moved files) use the file mtime.
+   */
+  purgeDeleted(options: PurgeDeletedOptions, now: number = Date.now()): PurgeDeletedResult {
+    return this.lock.withLock(() => {
+      const deleted = this.readDeletedEntries()
+        .map(({ memory, filePath }) => ({
+          memory,
+          filePath,
+          deletedAt: memory.deletedAt ?? fs.statSync(filePath).mtimeMs,
+        }))
+        .sort((a, b) => b.deletedAt - a.deletedAt);
+
+      const toPurge = selectPurgeable(deleted, options, now);
 
-    // If category changed, move the file
-    if (existing.category !== updated.category) {
-      const oldPath = this.getFilePath(existing.id, existing.category);
-      fs.unlinkSync(oldPath);
+      const dryRun = options.dryRun === true;
+      if (!dryRun) {
+        for (const entry of toPurge) {
+          if (fs.existsSync(entry.filePath)) {
+            fs.unlinkSync(entry.filePath);
+          }
+          fs.rmSync(path.join(this.historyPath, entry.memory.id), { recursive: true, force: true });
+        }
+        this.commit(undefined, { action: 'purge', reason: `Purged ${toPurge.size} deleted memories` });
+      }
+
+      return {
+        purged: [...toPurge].map(({ memory }) => ({
+          id: memory.id,
+          deletedAt: memory.deletedAt,
+          deleteReason: memory.deleteReason,
+        })),
+        remaining: deleted.length - toPurge.size,
+        dryRun,
+      };
+    });
+  }
+
+  /**
+   * List the recorded revisions of a memory, oldest first.
+   * Works for active, soft-deleted and archived memories; purging a
+   * memory removes its revisions.
+   */
+  history(id: string): MemoryRevision[] {
+    const dir = this.resolveHistoryDir(id);
+    if (!dir) return [];
+
+    const revisions: MemoryRevision[] = [];
+    for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.md')).sort()) {
+      const revision = this.readRevisionFile(path.join(dir, file));
+      if (revision) revisions.push(revision);
     }
+    return revisions.sort((a, b) => a.revision - b.revision);
+  }
 
-    this.writeMemory(updated);
-    return updated;
+  /**
+   * Roll a memory back to the state captured in one of its revisions.
+   * The current state is kept as a new revision, so a revert can be undone.
+   */
+  revert(id: string, revision: number, meta: RevisionMeta = {}): Memory | null {
+    return this.lock.withLock(() => revertToRevision(this, id, revision, meta));
   }
 
   /**
-   * Soft delete a memory (move to .deleted folder)
+   * Append an immutable snapshot of a memory to .history/<id>/
    */
-  delete(id: string, reason?: string): boolean {
-    const memory = this.get(id);
-    if (!memory) return false;
+  private recordRevision(memory: Memory, meta: RevisionMeta & { action: MemoryRevision['action'] }): void {
+    const dir = path.join(this.historyPath, memory.id);
+    fs.mkdirSync(dir, { recursive: true });
 
-    const oldPath = this.getFilePath(memory.id, memory.category);
-    const deletedPath = path.join(this.deletedPath, `${memory.id}.md`);
+    const revision = fs.readdirSync(dir).filter(f => f.endsWith('.md')).length + 1;
+    const content = this.encode({
+      ...memory,
+      extraFrontmatter: {
+        ...memory.extraFrontmatter,
+        revision,
+        revision_action: meta.action,
+        revision_recorded_at: new Date().toISOString(),
+        revision_actor: meta.actor ?? null,
+        revision_reason: meta.reason ?? null,
+      },
+    });
 
-    // Update memory with deletion info
-    memory.deletedAt = Date.now();
-    memory.deleteReason = reason;
+    // 'wx' so an existing revision is never overwritten
+    fs.writeFileSync(path.join(dir, `${String(revision).padStart(4, '0')}.md`), content, { encoding: 'utf-8', flag: 'wx' });
+  }
+
+  private resolveHistoryDir(id: string): string | null {
+    if (!fs.existsSync(this.historyPath)) return null;
+
+    const exact = path.join(this.historyPath, id);
+    if (fs.existsSync(exact)) return exact;
+
+    if (id.length === 8) {
+      const match = fs.readdirSync(this.historyPath).find(dir => dir.startsWith(id));
+      if (match) return path.join(this.historyPath, match);
+    }
+
+    return null;
+  }
+
+  private readRevisionFile(filePath: string): MemoryRevision | null {
+    const memory = this.readMemoryFile(filePath);
+    if (!memory) return null;
 
-    // Write to deleted folder
-    this.writeMemoryToPath(memory, deletedPath);
+    const extra = { ...memory.extraFrontmatter };
+    const meta = Object.fromEntries(REVISION_FRONTMATTER_KEYS.map(key => [key, extra[key]]));
+    for (const key of REVISION_FRONTMATTER_KEYS) delete extra[key];
 
-    // Remove from active folder
-    if (fs.existsSync(oldPath)) {
-      fs.unlinkSync(oldPath);
+    if (Object.keys(extra).length > 0) {
+      memory.extraFrontmatter = extra;
+    } else {
+      delete memory.extraFrontmatter;
+    }
+
+    return {
+      revision: typeof meta.revision === 'number' ? meta.revision : parseInt(path.basename(filePath, '.md')),
+      action: (meta.revision_action as MemoryRevision['action']) ?? 'update',
+      recordedAt: fromTimestamp(meta.revision_recorded_at) ?? fs.statSync(filePath).mtimeMs,
+      actor: optionalString(meta.revision_actor),
+      reason: optionalString(meta.revision_reason),
+      memory,
+    };
+  }
+
+  private getArchivedMap(): Map<string, Memory> {
+    if (this.watching && this.archived) return this.archived;
+
+    const archived = new Map<string, Memory>();
+    if (fs.existsSync(this.archivePath)) {
+      for (const file of fs.readdirSync(this.archivePath).filter(f => f.endsWith('.md'))) {
+        const memory = this.readMemoryFile(path.join(this.archivePath, file));
+        if (memory) archived.set(memory.id, memory);
+      }
     }
+    // Only kept while the watcher can invalidate it
+    if (this.watching) this.archived = archived;
+    return archived;
+  }
+
+  private readDeleted(): Memory[] {
+    return this.readDeletedEntries().map(entry => entry.memory);
+  }
 
-    return true;
+  private readDeletedEntries(): Array<{ memory: Memory; filePath: string }> {
+    if (!fs.existsSync(this.deletedPath)) return [];
+
+    const entries: Array<{ memory: Memory; filePath: string }> = [];
+    for (const file of fs.readdirSync(this.deletedPath).filter(f => f.endsWith('.md'))) {
+      const filePath = path.join(this.deletedPath, file);
+      const memory = this.readMemoryFile(filePath);
+      if (memory) entries.push({ memory, filePath });
+    }
+    return entries;
   }
 
   /**
@@ -236,23 +844,7 @@ export class MemoryFileManager {
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
   } = {}): { total: number; items: Memory[] } {
-    const memories: Memory[] = [];
-    const categories: MemoryCategory[] = options.category
-      ? [options.category]
-      : ['fact', 'preference', 'event', 'relationship', 'context', 'instruction', 'decision', 'entity'];
-
-    for (const category of categories) {
-      const dir = path.join(this.memoriesPath, this.categoryToDir(category));
-      if (!fs.existsSync(dir)) continue;
-
-      const files = fs.readdirSync(dir).filter(f => f.endsWith('.md'));
-      for (const file of files) {
-        const memory = this.readMemoryFile(path.join(dir, file));
-        if (memory && !memory.deletedAt) {
-          memories.push(memory);
-        }
-      }
-    }
+    const memories = this.all(options.category);
 
     // Sort
     const sortBy = options.sortBy ?? 'createdAt';
@@ -275,54 +867,91 @@ export class MemoryFileManager {
    * Get memories by category
    */
   getByCategory(category: MemoryCategory, limit: number = 50): Memory[] {
-    const dir = path.join(this.memoriesPath, this.categoryToDir(category));
-    if (!fs.existsSync(dir)) return [];
-
-    const files = fs.readdirSync(dir).filter(f => f.endsWith('.md'));
-    const memories: Memory[] = [];
-
-    for (const file of files) {
-      if (memories.length >= limit) break;
-      const memory = this.readMemoryFile(path.join(dir, file));
-      if (memory && !memory.deletedAt) {
-        memories.push(memory);
-      }
-    }
+    const memories = this.all(category);
 
     // Sort by importance
     memories.sort((a, b) => b.importance - a.importance);
     return memories.slice(0, limit);
   }
 
+  /**
+   * Get memories carrying a tag
+   */
+  getByTag(tag: string): Memory[] {
+    const index = this.getIndex();
+    return index.getMany(index.byTagIds(tag))
+      .filter(m => !m.deletedAt)
+      .map(cloneMemory);
+  }
+
+  /**
+   * All non-deleted memories, optionally limited to one category (unsorted)
+   */
+  all(category?: MemoryCategory): Memory[] {
+    const index = this.getIndex();
+    const memories = category ? index.getMany(index.byCategoryIds(category)) : index.all();
+    return memories.filter(m => !m.deletedAt).map(cloneMemory);
+  }
+
   /**
    * Count non-deleted memories
    */
   count(): number {
-    let total = 0;
-    const categories: MemoryCategory[] = ['fact', 'preference', 'event', 'relationship', 'context', 'instruction', 'decision', 'entity'];
+    return this.getIndex().all().filter(m => !m.deletedAt).length;
+  }
 
-    for (const category of categories) {
-      const dir = path.join(this.memoriesPath, this.categoryToDir(category));
-      if (fs.existsSync(dir)) {
-        total += fs.readdirSync(dir).filter(f => f.endsWith('.md')).length;
+  /**
+   * Update last accessed time for memories. With git versioning the times
+   * go to .index/access.json instead of the memory files, so reads never
+   * commit or leave changes for the next commit to pick up.
+   */
+  touchMany(ids: string[]): void {
+    const now = Date.now();
+    this.lock.withLock(() => {
+      if (this.accessFile) {
+        // Re-read, so times another process recorded since aren't lost
+        this.accessTimes = null;
+        const times = this.getAccessTimes();
+        for (const id of ids) {
+          const memory = this.readFresh(id);
+          if (!memory) continue;
+          times.set(memory.id, now);
+          const indexed = this.index?.get(memory.id);
+          if (indexed) indexed.lastAccessedAt = now;
+        }
+        this.accessFile.scheduleWrite(() => JSON.stringify(Object.fromEntries(times)));
+        this.accessFile.flush();
+        return;
       }
-    }
 
-    return total;
+      for (const id of ids) {
+        const memory = this.readFresh(id);
+        if (memory) {
+          memory.lastAccessedAt = now;
+          this.writeMemory(memory);
+        }
+      }
+    });
   }
 
   /**
-   * Update last accessed time for memories
+   * Access times kept outside the memory files (git versioning only).
+   * Losing the file only loses recency; the files' own times remain.
    */
-  touchMany(ids: string[]): void {
-    const now = Date.now();
-    for (const id of ids) {
-      const memory = this.get(id);
-      if (memory) {
-        memory.lastAccessedAt = now;
-        this.writeMemory(memory);
+  private getAccessTimes(): Map<string, number> {
+    if (this.accessTimes) return this.accessTimes;
+
+    const times = new Map<string, number>();
+    try {
+      const text = this.accessFile?.read();
+      for (const [id, at] of Object.entries(text ? JSON.parse(text) : {})) {
+        if (typeof at === 'number') times.set(id, at);
       }
+    } catch {
+      // Unreadable: start over
     }
+    this.accessTimes = times;
+    return times;
   }
 
   /**
@@ -338,62 +967,169 @@ export class MemoryFileManager {
   private writeMemory(memory: Memory): void {
     const filePath = this.getFilePath(memory.id, memory.category);
     this.writeMemoryToPath(memory, filePath);
+    this.index?.upsert(cloneMemory(memory), filePath);
   }
 
   private writeMemoryToPath(memory: Memory, filePath: string): void {
-    const frontmatter = serializeYamlFrontmatter({
-      id: memory.id,
-      category: memory.category,
-      confidence: memory.confidence,
-      importance: memory.importance,
-      created_at: new Date(memory.createdAt).toISOString(),
-      updated_at: new Date(memory.updatedAt).toISOString(),
-      last_accessed_at: memory.lastAccessedAt ? new Date(memory.lastAccessedAt).toISOString() : null,
-      decay_days: memory.decayDays,
-      source_channel: memory.sourceChannel || null,
-      source_message_id: memory.sourceMessageId || null,
-      tags: memory.tags,
-      supersedes: memory.supersedes || null,
-      deleted_at: memory.deletedAt ? new Date(memory.deletedAt).toISOString() : null,
-      delete_reason: memory.deleteReason || null,
-    });
-
-    const content = `---\n${frontmatter}\n---\n\n${memory.content}\n`;
+    this.writeFileAtomic(filePath, this.encode(memory));
+  }
 
-    // Atomic write: write to temp file, then rename
-    const tempPath = `${filePath}.tmp`;
+  private writeFileAtomic(filePath: string, content: string): void {
+    // Atomic write: write to a temp file unique to this write, then rename
+    const tempPath = `${filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
     fs.writeFileSync(tempPath, content, 'utf-8');
     fs.renameSync(tempPath, filePath);
   }
 
+  /**
+   * Read a memory straight from disk rather than the index, so a locked
+   * read-modify-write sees what other processes wrote
+   */
+  private readFresh(id: string): Memory | null {
+    const cached = this.get(id);
+    if (cached) {
+      const filePath = this.getFilePath(cached.id, cached.category);
+      const fresh = fs.existsSync(filePath) ? this.readMemoryFile(filePath) : null;
+      if (fresh) {
+        this.index?.upsert(cloneMemory(fresh), filePath);
+        return fresh;
+      }
+    }
+
+    // Moved, deleted or created by another process: rebuild and look again
+    this.invalidateIndex();
+    return this.get(id);
+  }
+
   /**
    * Read a memory from file
    */
   private readMemoryFile(filePath: string): Memory | null {
     try {
       const content = fs.readFileSync(filePath, 'utf-8');
-      const { frontmatter, body } = parseYamlFrontmatter(content);
-
-      return {
-        id: frontmatter.id as string,
-        content: body,
-        category: frontmatter.category as MemoryCategory,
-        confidence: (frontmatter.confidence as number) ?? 0.8,
-        importance: (frontmatter.importance as number) ?? 0.5,
-        createdAt: frontmatter.created_at ? new Date(frontmatter.created_at as string).getTime() : Date.now(),
-        updatedAt: frontmatter.updated_at ? new Date(frontmatter.updated_at as string).getTime() : Date.now(),
-        lastAccessedAt: frontmatter.last_accessed_at ? new Date(frontmatter.last_accessed_at as string).getTime() : Date.now(),
-        decayDays: frontmatter.decay_days as number | null,
-        sourceChannel: frontmatter.source_channel as string | undefined,
-        sourceMessageId: frontmatter.source_message_id as string | undefined,
-        tags: (frontmatter.tags as string[]) ?? [],
-        supersedes: frontmatter.supersedes as string | undefined,
-        deletedAt: frontmatter.deleted_at ? new Date(frontmatter.deleted_at as string).getTime() : undefined,
-        deleteReason: frontmatter.delete_reason as string | undefined,
-      };
+      const memory = this.decode(content, path.basename(filePath, '.md'));
+      // Location decides the namespace, so a copied file can't claim another one
+      memory.namespace = this.namespace;
+      if (this.accessFile) {
+        memory.lastAccessedAt = Math.max(memory.lastAccessedAt, this.getAccessTimes().get(memory.id) ?? 0);
+      }
+      return memory;
     } catch (err) {
       console.error(`Failed to read memory file: ${filePath}`, err);
       return null;
     }
   }
+
+  /**
+   * Record the change just written as a git commit, when versioning is on.
+   * The write already happened, so a failing commit is reported, not thrown.
+   */
+  private commit(memoryId: string | undefined, meta: Omit<RevisionMeta, 'action'> & { action: string }): void {
+    if (!this.git) return;
+    try {
+      this.git.commit({ action: meta.action, memoryId, actor: meta.actor, reason: meta.reason });
+    } catch (err: any) {
+      console.warn(`[memory-tools] git commit failed: ${err?.stderr || err?.message || err}`);
+    }
+  }
+
+  /**
+   * Git repository recording this directory, if versioning is on
+   */
+  getGit(): GitClient | undefined {
+    return this.git;
+  }
+
+  /**
+   * Put every memory back to how it was at a git commit. The rollback is
+   * itself committed, so it can be undone the same way.
+   */
+  rollback(rev: string, meta: RevisionMeta = {}): string {
+    if (!this.git) {
+      throw new Error('Git versioning is not enabled');
+    }
+    const git = this.git;
+    return this.lock.withLock(() => {
+      const hash = git.restoreTo(rev);
+      this.invalidateIndex();
+      this.commit(undefined, {
+        action: 'rollback',
+        reason: `Rolled back to ${hash.slice(0, 12)}`,
+        ...meta,
+      });
+      return hash;
+    });
+  }
+
+  private encode(memory: Memory): string {
+    return encodeMemoryFile(memory, this.encryption, this.cipher);
+  }
+
+  private decode(raw: string, fallbackId: string): Memory {
+    return decodeMemoryFile(raw, fallbackId, this.cipher);
+  }
+
+  /**
+   * Rewrite every file (active, deleted, archived and revisions) in the
+   * current encryption mode and drop the search indexes written in the old
+   * one. Used to encrypt or decrypt an existing store.
+   * Returns the number of files rewritten.
+   */
+  reencodeAll(): number {
+    return this.lock.withLock(() => {
+      let rewritten = 0;
+      const rewrite = (filePath: string) => {
+        const raw = fs.readFileSync(filePath, 'utf-8');
+        if (encodedMode(raw) === this.encryption) return;
+        // Throws rather than skipping, so a wrong key stops the conversion
+        this.writeFileAtomic(filePath, this.encode(this.decode(raw, path.basename(filePath, '.md'))));
+        rewritten++;
+      };
+
+      const dirs = [
+        ...this.categoryDirs(),
+        this.deletedPath,
+        this.archivePath,
+        ...(fs.existsSync(this.historyPath)
+          ? fs.readdirSync(this.historyPath).map(dir => path.join(this.historyPath, dir))
+          : []),
+      ];
+      for (const dir of dirs) {
+        if (!fs.existsSync(dir)) continue;
+        for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.md'))) {
+          rewrite(path.join(dir, file));
+        }
+      }
+
+      // Search indexes hold memory text in the old mode; they're rebuilt
+      // (sealed or not, like the memories) on the next search
+      fs.rmSync(path.join(this.memoriesPath, INDEX_DIR), { recursive: true, force: true });
+
+      this.invalidateIndex();
+      if (rewritten > 0) {
+        this.commit(undefined, { action: 'reencode', reason: `Rewrote ${rewritten} files with encryption ${this.encryption}` });
+      }
+      return rewritten;
+    });
+  }
+}
+
+/**
+ * Which encryption mode a memory file was written in, or null when it's
+ * only partly sealed
+ */
+function encodedMode(raw: string): EncryptionMode | null {
+  if (isSealed(raw)) return 'full';
+  const { data, body } = parseFrontmatter(raw);
+  if (!isSealed(body)) return data[SEALED_FRONTMATTER_KEY] === undefined ? 'off' : null;
+  // Content mode seals everything but the memory's own plain fields;
+  // older content-mode files left attributes and extra keys readable
+  const readable = Object.keys(data).every(key =>
+    key === SEALED_FRONTMATTER_KEY || (MEMORY_FRONTMATTER_KEYS.has(key) && key !== 'attributes' && key !== 'evidence')
+  );
+  return readable ? 'content' : null;
+}
+
+function cloneMemory(memory: Memory): Memory {
+  return structuredClone(memory);
 }
@@ -0,0 +1,91 @@
+/**
+ * Search Filter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { MemoryStoreV2 } from './store.js';
+import { InvalidCursorError } from './filters.js';
+
+describe('MemoryStore search filters', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should filter before the limit, with or without a query', async () => {
+    const old = await store.create({ content: 'Likes green tea', category: 'preference', tags: ['food', 'drink'], sourceChannel: 'telegram' });
+    for (let i = 0; i < 12; i++) {
+      await store.create({ content: `Green tea note ${i}`, category: 'fact', tags: ['misc'] });
+    }
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 60_000);
+    const work = await store.create({ content: 'Green tea at the office', category: 'context', tags: ['food', 'old'] });
+
+    for (const query of [undefined, 'green tea']) {
+      const ids = async (opts: object) => (await store.search({ query, limit: 5, ...opts })).map(r => r.memory.id).sort();
+
+      expect(await ids({ sourceChannel: 'telegram' })).toEqual([old.id]);
+      expect(await ids({ categories: ['preference', 'context'] })).toEqual([old.id, work.id].sort());
+      expect(await ids({ anyTags: ['drink', 'old'] })).toEqual([old.id, work.id].sort());
+      expect(await ids({ tags: ['food'], excludeTags: ['old'] })).toEqual([old.id]);
+      expect(await ids({ createdFrom: work.createdAt })).toEqual([work.id]);
+    }
+  });
+
+  it('should page through results with a cursor tied to the search', async () => {
+    for (let i = 0; i < 5; i++) {
+      await store.create({ content: `Note ${i}`, category: 'fact', importance: 0.1 * (i + 1) });
+    }
+
+    const opts = { limit: 2, sortBy: 'importance' as const, sortOrder: 'asc' as const };
+    const seen: string[] = [];
+    let page = await store.searchPage(opts);
+    expect(page.total).toBe(5);
+    for (;;) {
+      seen.push(...page.results.map(r => r.memory.content));
+      if (!page.nextCursor) break;
+      page = await store.searchPage({ ...opts, cursor: page.nextCursor });
+    }
+    expect(seen).toEqual(['Note 0', 'Note 1', 'Note 2', 'Note 3', 'Note 4']);
+
+    const first = await store.searchPage(opts);
+    await expect(store.searchPage({ ...opts, sortOrder: 'desc', cursor: first.nextCursor }))
+      .rejects.toThrow(InvalidCursorError);
+    await expect(store.searchPage({ ...opts, cursor: 'garbage' })).rejects.toThrow(InvalidCursorError);
+  });
+
+  it('should split one ranking of a query into pages without repeats or gaps', async () => {
+    for (let i = 0; i < 25; i++) {
+      const filler = ' and more'.repeat(i % 4);
+      await store.create({ content: `Green tea note ${i}${filler}`, category: 'fact', importance: ((i * 7) % 10) / 10 });
+    }
+
+    const all = (await store.search({ query: 'green tea', limit: 100 })).map(r => r.memory.id);
+    expect(all.length).toBe(25);
+
+    const opts = { query: 'green tea', limit: 4 };
+    const paged: string[] = [];
+    const totals = new Set<number>();
+    let page = await store.searchPage(opts);
+    for (;;) {
+      paged.push(...page.results.map(r => r.memory.id));
+      totals.add(page.total);
+      if (!page.nextCursor) break;
+      page = await store.searchPage({ ...opts, cursor: page.nextCursor });
+    }
+    expect(paged).toEqual(all);
+    expect([...totals]).toEqual([25]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Search Filters
+ *
+ * The one place a memory is checked against SearchOptions, whether it came
+ * from a search engine or from listing every memory, plus the sort orders
+ * and page cursors of search results.
+ *
+ * Filters combine with AND. Within one: category and categories together
+ * list the allowed categories, tags must all be present, anyTags at least
+ * one, excludeTags none. Date ranges include their start and exclude their
+ * end, like from/to.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Memory, MemorySearchResult, SearchOptions, SearchSortBy } from './types.js';
+import { matchesAttributes } from './attributes.js';
+import { isExpired } from './expiry.js';
+import { nextOccurrence, occursBetween } from './events.js';
+
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(`Invalid cursor: ${message}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export interface FilterContext {
+  /** For expiry; defaults to now */
+  now?: number;
+  /** Timezone recurring events repeat in */
+  timeZone?: string;
+}
+
+/**
+ * Whether a memory passes every filter of a search
+ */
+export function matchesSearchFilters(memory: Memory, opts: SearchOptions, context: FilterContext = {}): boolean {
+  if (memory.deletedAt) return false;
+
+  const categories = allowedCategories(opts);
+  if (categories && !categories.includes(memory.category)) return false;
+
+  if (opts.tags?.length && !opts.tags.every(tag => memory.tags.includes(tag))) return false;
+  if (opts.anyTags?.length && !opts.anyTags.some(tag => memory.tags.includes(tag))) return false;
+  if (opts.excludeTags?.some(tag => memory.tags.includes(tag))) return false;
+
+  if (opts.sourceChannel !== undefined && memory.sourceChannel !== opts.sourceChannel) return false;
+  if (!matchesAttributes(memory, opts.attributes)) return false;
+
+  if (opts.minConfidence !== undefined && memory.confidence < opts.minConfidence) return false;
+  if (opts.minImportance !== undefined && memory.importance < opts.minImportance) return false;
+
+  if (!inRange(memory.createdAt, opts.createdFrom, opts.createdTo)) return false;
+  if (!inRange(memory.updatedAt, opts.updatedFrom, opts.updatedTo)) return false;
+  if (!inRange(memory.lastAccessedAt, opts.accessedFrom, opts.accessedTo)) return false;
+  if (hasEventRange(opts) && !occursBetween(memory, opts.from, opts.to, context.timeZone)) return false;
+
+  if (opts.excludeDecayed !== false && (memory.archivedAt !== undefined || isExpired(memory, context.now))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether the search asks for events in a date range (from/to)
+ */
+export function hasEventRange(opts: SearchOptions): boolean {
+  return opts.from !== undefined || opts.to !== undefined;
+}
+
+/**
+ * The order results are returned in: by score unless sortBy says otherwise,
+ * except that a date range without a query (or relatedTo) lists events by date
+ */
+export function resolveSort(opts: SearchOptions): { sortBy: SearchSortBy; sortOrder: 'asc' | 'desc' } {
+  const sortBy = opts.sortBy ?? (!opts.query && !opts.relatedTo && hasEventRange(opts) ? 'startsAt' : 'score');
+  // Soonest event first; for everything else highest or newest first
+  const sortOrder = opts.sortOrder ?? (sortBy === 'startsAt' ? 'asc' : 'desc');
+  return { sortBy, sortOrder };
+}
+
+/**
+ * Sort ranked results (best first) by another key. Ties keep the ranked order.
+ */
+export function sortResults(
+  results: MemorySearchResult[],
+  opts: SearchOptions,
+  context: FilterContext = {}
+): MemorySearchResult[] {
+  const { sortBy, sortOrder } = resolveSort(opts);
+  if (sortBy === 'score' && sortOrder === 'desc') return results;
+
+  const key = (result: MemorySearchResult): number => {
+    switch (sortBy) {
+      case 'score': return result.score;
+      case 'startsAt':
+        // The occurrence in the searched range; undated memories last
+        return nextOccurrence(result.memory, opts.from ?? -Infinity, context.timeZone)?.start
+          ?? (sortOrder === 'asc' ? Infinity : -Infinity);
+      default: return result.memory[sortBy];
+    }
+  };
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return [...results].sort((a, b) => direction * (key(a) - key(b)));
+}
+
+/**
+ * Cursor for the page starting at offset. It only works for the same query
+ * and filters, so a stale cursor fails instead of returning the wrong page.
+ */
+export function encodeCursor(offset: number, opts: SearchOptions): string {
+  return Buffer.from(JSON.stringify({ o: offset, f: fingerprint(opts) })).toString('base64url');
+}
+
+/**
+ * Offset a cursor points at. Throws InvalidCursorError.
+ */
+export function decodeCursor(cursor: string, opts: SearchOptions): number {
+  let decoded: { o?: unknown; f?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidCursorError('not a cursor from a previous search');
+  }
+  if (!Number.isInteger(decoded?.o) || (decoded.o as number) < 0 || typeof decoded.f !== 'string') {
+    throw new InvalidCursorError('not a cursor from a previous search');
+  }
+  if (decoded.f !== fingerprint(opts)) {
+    throw new InvalidCursorError('it belongs to a search with a different query, filters or order');
+  }
+  return decoded.o as number;
+}
+
+function allowedCategories(opts: SearchOptions): string[] | null {
+  const categories = [...(opts.category ? [opts.category] : []), ...(opts.categories ?? [])];
+  return categories.length > 0 ? categories : null;
+}
+
+function inRange(value: number, from: number | undefined, to: number | undefined): boolean {
+  if (from !== undefined && value < from) return false;
+  if (to !== undefined && value >= to) return false;
+  return true;
+}
+
+// What decides which results there are and their order; not limit, offset or output options
+const FINGERPRINT_KEYS = [
+  'query', 'mode', 'category', 'categories', 'tags', 'anyTags', 'excludeTags', 'sourceChannel', 'attributes',
+  'minConfidence', 'minImportance', 'excludeDecayed', 'from', 'to', 'createdFrom', 'createdTo',
+  'updatedFrom', 'updatedTo', 'accessedFrom', 'accessedTo', 'rankBy', 'sortBy', 'sortOrder',
+  'relatedTo', 'minSimilarity',
+] as const satisfies readonly (keyof SearchOptions)[];
+
+function fingerprint(opts: SearchOptions): string {
+  const values = FINGERPRINT_KEYS.map(key => opts[key] ?? null);
+  return createHash('sha256').update(JSON.stringify(values)).digest('base64url').slice(0, 16);
+}
@@ -0,0 +1,220 @@
+/**
+ * Frontmatter Tests
+ *
+ * Property-based round-trip tests for the YAML frontmatter layer,
+ * plus fixtures for hand-written YAML and malformed files.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  FrontmatterParseError,
+  parseFrontmatter,
+  parseYaml,
+  stringifyFrontmatter,
+  stringifyYaml,
+} from './frontmatter.js';
+import { MemoryFileManager, parseMemory, serializeMemory } from './file-manager.js';
+import { MEMORY_CATEGORIES, type Memory } from './types.js';
+
+// JSON-like values, minus -0 (YAML has no way to spell it). "constructor"
+// is excluded because toStrictEqual compares it to check object types.
+const yamlKey = fc.string({ minLength: 1 }).filter(key => key !== 'constructor');
+const yamlValue = fc.letrec(tie => ({
+  value: fc.oneof(
+    { depthSize: 'small' },
+    fc.constant(null),
+    fc.boolean(),
+    fc.double({ noDefaultInfinity: false, noNaN: false }).filter(n => !Object.is(n, -0)),
+    fc.integer(),
+    fc.string({ unit: 'grapheme' }),
+    fc.string({ unit: 'binary' }),
+    fc.array(tie('value'), { maxLength: 4 }),
+    fc.dictionary(yamlKey, tie('value'), { maxKeys: 4, noNullPrototype: true }),
+  ),
+})).value;
+
+const yamlMapping = fc.dictionary(yamlKey, yamlValue, { maxKeys: 8, noNullPrototype: true });
+
+const timestamp = fc.integer({ min: 0, max: 4102444800000 }); // up to 2100
+
+const memoryArb: fc.Arbitrary<Memory> = fc.record(
+  {
+    id: fc.string({ minLength: 1 }),
+    content: fc.string({ unit: 'grapheme' }),
+    category: fc.constantFrom(...MEMORY_CATEGORIES),
+    confidence: fc.double({ min: 0, max: 1, noNaN: true }),
+    importance: fc.double({ min: 0, max: 1, noNaN: true }),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    lastAccessedAt: timestamp,
+    decayDays: fc.option(fc.integer({ min: 1, max: 3650 }), { nil: null }),
+    sourceChannel: fc.option(fc.string(), { nil: undefined }),
+    sourceMessageId: fc.option(fc.string(), { nil: undefined }),
+    namespace: fc.option(fc.string(), { nil: undefined }),
+    tags: fc.array(fc.string()),
+    supersedes: fc.option(fc.string(), { nil: undefined }),
+    deletedAt: fc.option(timestamp, { nil: undefined }),
+    deleteReason: fc.option(fc.string(), { nil: undefined }),
+    extraFrontmatter: fc.option(
+      fc.dictionary(fc.stringMatching(/^x_[a-z_]{1,10}$/), yamlValue, { minKeys: 1, maxKeys: 3, noNullPrototype: true }),
+      { nil: undefined }
+    ),
+  },
+  { requiredKeys: ['id', 'content', 'category', 'confidence', 'importance', 'createdAt', 'updatedAt', 'lastAccessedAt', 'decayDays', 'tags'] }
+);
+
+function withoutUndefined(memory: Memory): Memory {
+  return Object.fromEntries(
+    Object.entries(memory).filter(([, value]) => value !== undefined)
+  ) as Memory;
+}
+
+describe('frontmatter round-trip (property-based)', () => {
+  it('should parse what it serializes', () => {
+    fc.assert(
+      fc.property(yamlMapping, data => {
+        expect(parseYaml(stringifyYaml(data))).toStrictEqual(data);
+      }),
+      { numRuns: 500 }
+    );
+  });
+
+  it('should preserve the document body exactly', () => {
+    fc.assert(
+      fc.property(yamlMapping, fc.string({ unit: 'grapheme' }), (data, body) => {
+        const parsed = parseFrontmatter(stringifyFrontmatter(data, body));
+        expect(parsed.body).toBe(body);
+        expect(parsed.data).toStrictEqual(data);
+      })
+    );
+  });
+
+  it('should round-trip every Memory field', () => {
+    fc.assert(
+      fc.property(memoryArb, memory => {
+        const parsed = parseMemory(serializeMemory(memory), 'fallback');
+        expect(withoutUndefined(parsed)).toStrictEqual(withoutUndefined(memory));
+      }),
+      { numRuns: 300 }
+    );
+  });
+});
+
+describe('frontmatter parsing', () => {
+  it('should read hand-written YAML', () => {
+    const doc = [
+      '---',
+      '# written in an editor',
+      'id: abc',
+      'tags: [ui, "a, b", \'it\'\'s\']',
+      'note: "line one\\nline two"',
+      'quoted: \'say "hi"\'',
+      'aliases:',
+      '  - first',
+      '  - second # trailing comment',
+      'contact:',
+      '  name: Sarah',
+      '  phones:',
+      '  - 555-1234',
+      'summary: |',
+      '  Multi',
+      '  line',
+      'folded: >-',
+      '  one',
+      '  two',
+      'empty:',
+      'url: https://example.com/a#b',
+      '---',
+      '',
+      'Body text',
+      '',
+    ].join('\n');
+
+    const { data, body } = parseFrontmatter(doc);
+    expect(body).toBe('Body text');
+    expect(data).toEqual({
+      id: 'abc',
+      tags: ['ui', 'a, b', "it's"],
+      note: 'line one\nline two',
+      quoted: 'say "hi"',
+      aliases: ['first', 'second'],
+      contact: { name: 'Sarah', phones: ['555-1234'] },
+      summary: 'Multi\nline\n',
+      folded: 'one two',
+      empty: null,
+      url: 'https://example.com/a#b',
+    });
+  });
+
+  it('should read quoted strings that span lines', () => {
+    const { data } = parseFrontmatter('---\nnote: "first\n  second"\ntags: [a,\n  b]\n---\n\nx\n');
+    expect(data).toEqual({ note: 'first second', tags: ['a', 'b'] });
+  });
+
+  it('should accept CRLF line endings', () => {
+    const { data, body } = parseFrontmatter('---\r\nid: abc\r\n---\r\n\r\nBody\r\n');
+    expect(data).toEqual({ id: 'abc' });
+    expect(body).toBe('Body');
+  });
+
+  it('should return the whole document as body without frontmatter', () => {
+    expect(parseFrontmatter('Just text')).toEqual({ data: {}, body: 'Just text' });
+  });
+
+  it.each([
+    ['unterminated frontmatter', '---\nid: abc\n\nBody\n'],
+    ['unterminated string', '---\nid: "abc\n---\n\nBody\n'],
+    ['bad indentation', '---\nid: abc\n   nested: x\n---\n\nBody\n'],
+    ['duplicate keys', '---\nid: a\nid: b\n---\n\nBody\n'],
+    ['missing colon', '---\njust some words\n---\n\nBody\n'],
+    ['bad escape', '---\nid: "\\q"\n---\n\nBody\n'],
+  ])('should throw FrontmatterParseError for %s', (_name, doc) => {
+    expect(() => parseFrontmatter(doc)).toThrow(FrontmatterParseError);
+  });
+
+  it('should report the line of the error', () => {
+    try {
+      parseFrontmatter('---\nid: a\ncategory: fact\nid: b\n---\n\nBody\n');
+      expect.unreachable();
+    } catch (err) {
+      expect((err as FrontmatterParseError).line).toBe(4);
+    }
+  });
+});
+
+describe('MemoryFileManager frontmatter', () => {
+  it('should keep unknown keys added by hand across updates', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    const fileManager = new MemoryFileManager(dir, { watch: false });
+    try {
+      const memory = fileManager.create({
+        content: 'User likes "quoted, things"',
+        category: 'preference',
+        tags: ['a, b', 'say "hi"', "it's"],
+      });
+
+      const filePath = path.join(dir, 'preferences', `${memory.id}.md`);
+      const edited = fs.readFileSync(filePath, 'utf-8')
+        .replace('---\n\n', 'reviewed_by: alice\nlinks:\n  - https://example.com\n---\n\n');
+      fs.writeFileSync(filePath, edited);
+
+      fileManager.update(memory.id, { confidence: 0.95 });
+
+      const reread = fileManager.get(memory.id)!;
+      expect(reread.tags).toEqual(['a, b', 'say "hi"', "it's"]);
+      expect(reread.content).toBe('User likes "quoted, things"');
+      expect(reread.confidence).toBe(0.95);
+      expect(reread.extraFrontmatter).toEqual({
+        reviewed_by: 'alice',
+        links: ['https://example.com'],
+      });
+    } finally {
+      fileManager.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,736 @@
+/**
+ * YAML Frontmatter
+ *
+ * Parses and serializes the frontmatter block at the top of memory files.
+ * Implements the subset of YAML 1.2 that people actually write by hand:
+ * block mappings and sequences (nested), flow collections, plain,
+ * single- and double-quoted scalars, block scalars (| and >) and comments.
+ * No external deps.
+ *
+ * Serialization is conservative: anything that would not read back as the
+ * exact same value is double-quoted, so parse(stringify(x)) === x.
+ */
+
+export class FrontmatterParseError extends Error {
+  readonly line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line !== undefined ? `${message} (line ${line})` : message);
+    this.name = 'FrontmatterParseError';
+    this.line = line;
+  }
+}
+
+/** Thrown while scanning a value that continues on the next line */
+class IncompleteValueError extends FrontmatterParseError {}
+
+export interface FrontmatterDocument {
+  data: Record<string, unknown>;
+  body: string;
+}
+
+/**
+ * Split a markdown document into frontmatter data and body.
+ * Documents without frontmatter return empty data and the content as body.
+ */
+export function parseFrontmatter(content: string): FrontmatterDocument {
+  let text = content.startsWith('\uFEFF') ? content.slice(1) : content;
+  if (text.startsWith('---\r\n')) {
+    text = text.replace(/\r\n/g, '\n');
+  }
+  if (!text.startsWith('---\n')) {
+    return { data: {}, body: content };
+  }
+
+  const afterOpen = text.slice(4);
+  let yaml: string;
+  let rest: string;
+  const emptyClose = afterOpen.match(/^---[ \t]*(?:\n|$)/);
+  if (emptyClose) {
+    yaml = '';
+    rest = afterOpen.slice(emptyClose[0].length);
+  } else {
+    const close = /\n---[ \t]*(?:\n|$)/.exec(afterOpen);
+    if (!close) {
+      throw new FrontmatterParseError('Unterminated frontmatter: missing closing "---"', 1);
+    }
+    yaml = afterOpen.slice(0, close.index);
+    rest = afterOpen.slice(close.index + close[0].length);
+  }
+
+  // The serializer separates body and frontmatter with a blank line and
+  // ends the file with a newline; strip exactly those so content round-trips
+  let body = rest.startsWith('\n') ? rest.slice(1) : rest;
+  if (body.endsWith('\n')) body = body.slice(0, -1);
+
+  return { data: parseYaml(yaml, 2), body };
+}
+
+/**
+ * Build a markdown document from frontmatter data and body
+ */
+export function stringifyFrontmatter(data: Record<string, unknown>, body: string): string {
+  return `---\n${stringifyYaml(data)}\n---\n\n${body}\n`;
+}
+
+/**
+ * Parse a YAML mapping. firstLine is used for error messages.
+ */
+export function parseYaml(yaml: string, firstLine: number = 1): Record<string, unknown> {
+  return new YamlParser(yaml, firstLine).parseDocument();
+}
+
+/**
+ * Serialize a mapping to YAML. Undefined values are skipped.
+ */
+export function stringifyYaml(data: Record<string, unknown>): string {
+  const lines: string[] = [];
+  emitMapping(data, 0, lines);
+  return lines.join('\n');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface Line {
+  num: number;
+  indent: number;
+  text: string;
+}
+
+class YamlParser {
+  private raw: string[];
+  private firstLine: number;
+  private pos = 0;
+  // Lines rewritten in place, e.g. "- key: value" becomes "key: value"
+  private overrides = new Map<number, { indent: number; text: string }>();
+
+  constructor(yaml: string, firstLine: number) {
+    this.raw = yaml === '' ? [] : yaml.split('\n');
+    this.firstLine = firstLine;
+  }
+
+  parseDocument(): Record<string, unknown> {
+    const line = this.peek();
+    if (!line) return {};
+    if (line.indent !== 0) {
+      throw new FrontmatterParseError('Unexpected indentation', line.num);
+    }
+    if (isSequenceItem(line.text)) {
+      throw new FrontmatterParseError('Frontmatter must be a mapping, not a list', line.num);
+    }
+
+    const data = this.parseMapping(0);
+    const rest = this.peek();
+    if (rest) {
+      throw new FrontmatterParseError('Unexpected content', rest.num);
+    }
+    return data;
+  }
+
+  /**
+   * Return the next meaningful line (skipping blanks and comments)
+   */
+  private peek(): Line | null {
+    while (this.pos < this.raw.length) {
+      const override = this.overrides.get(this.pos);
+      if (override) {
+        return { num: this.lineNumber(this.pos), ...override };
+      }
+
+      const raw = this.raw[this.pos];
+      const trimmed = raw.trim();
+      if (trimmed === '' || trimmed.startsWith('#')) {
+        this.pos++;
+        continue;
+      }
+
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.slice(0, indent).includes('\t')) {
+        throw new FrontmatterParseError('Tabs are not allowed for indentation', this.lineNumber(this.pos));
+      }
+      return { num: this.lineNumber(this.pos), indent, text: raw.slice(indent).trimEnd() };
+    }
+    return null;
+  }
+
+  private lineNumber(index: number): number {
+    return this.firstLine + index;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.peek()!;
+    return isSequenceItem(line.text) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      if (line.indent > indent) {
+        throw new FrontmatterParseError('Unexpected indentation', line.num);
+      }
+      if (isSequenceItem(line.text)) {
+        throw new FrontmatterParseError('Unexpected list item in mapping', line.num);
+      }
+
+      const entry = splitKey(line.text, line.num);
+      if (!entry) {
+        throw new FrontmatterParseError(`Expected "key: value", got "${line.text}"`, line.num);
+      }
+      if (Object.prototype.hasOwnProperty.call(result, entry.key)) {
+        throw new FrontmatterParseError(`Duplicate key "${entry.key}"`, line.num);
+      }
+
+      this.pos++;
+      setKey(result, entry.key, this.parseValue(entry.rest, indent, line, true));
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+      if (line.indent > indent) {
+        throw new FrontmatterParseError('Unexpected indentation', line.num);
+      }
+      if (!isSequenceItem(line.text)) break;
+
+      const afterDash = line.text.slice(1);
+      const rest = afterDash.trimStart();
+      const restIndent = indent + 1 + (afterDash.length - rest.length);
+
+      // "- key: value" or "- - item" start a nested block on the same line
+      if (rest !== '' && !rest.startsWith('#') && (isSequenceItem(rest) || splitKey(rest, line.num))) {
+        this.overrides.set(this.pos, { indent: restIndent, text: rest });
+        items.push(this.parseBlock(restIndent));
+        continue;
+      }
+
+      this.overrides.delete(this.pos);
+      this.pos++;
+      items.push(this.parseValue(rest, indent, line, false));
+    }
+
+    return items;
+  }
+
+  private parseValue(rest: string, indent: number, line: Line, inMapping: boolean): unknown {
+    if (rest === '' || rest.startsWith('#')) {
+      const next = this.peek();
+      if (next && next.indent > indent) return this.parseBlock(next.indent);
+      // YAML allows "key:" followed by a list at the same indentation
+      if (inMapping && next && next.indent === indent && isSequenceItem(next.text)) {
+        return this.parseSequence(indent);
+      }
+      return null;
+    }
+
+    if (rest.startsWith('|') || rest.startsWith('>')) {
+      return this.parseBlockScalar(rest, indent, line);
+    }
+
+    return this.parseInline(rest, indent, line);
+  }
+
+  /**
+   * Parse a value on the rest of a line, pulling in continuation lines
+   * for quoted strings and flow collections that span several lines.
+   */
+  private parseInline(rest: string, indent: number, line: Line): unknown {
+    let source = rest;
+    for (;;) {
+      try {
+        return new InlineScanner(source, line.num).parseValue();
+      } catch (err) {
+        if (!(err instanceof IncompleteValueError) || this.pos >= this.raw.length) {
+          throw rethrowComplete(err);
+        }
+        const next = this.raw[this.pos];
+        const nextIndent = next.length - next.trimStart().length;
+        if (next.trim() !== '' && nextIndent <= indent) {
+          throw rethrowComplete(err);
+        }
+        source += `\n${next}`;
+        this.pos++;
+      }
+    }
+  }
+
+  private parseBlockScalar(header: string, indent: number, line: Line): string {
+    const match = header.match(/^([|>])([+-]?)(\d?)([+-]?)\s*(?:#.*)?$/);
+    if (!match) {
+      throw new FrontmatterParseError(`Invalid block scalar header "${header}"`, line.num);
+    }
+    const literal = match[1] === '|';
+    const chomp = match[2] || match[4];
+    const explicitIndent = match[3] ? parseInt(match[3], 10) : 0;
+
+    // Collect raw lines that belong to the scalar
+    const collected: string[] = [];
+    let blockIndent = explicitIndent ? indent + explicitIndent : 0;
+    while (this.pos < this.raw.length) {
+      const raw = this.raw[this.pos];
+      if (raw.trim() === '') {
+        collected.push('');
+        this.pos++;
+        continue;
+      }
+      const rawIndent = raw.length - raw.trimStart().length;
+      if (!blockIndent) {
+        if (rawIndent <= indent) break;
+        blockIndent = rawIndent;
+      }
+      if (rawIndent < blockIndent) break;
+      collected.push(raw.slice(blockIndent));
+      this.pos++;
+    }
+
+    // Trailing blank lines belong to the chomping indicator, not the content
+    let trailingBlank = 0;
+    while (collected.length > 0 && collected[collected.length - 1] === '') {
+      collected.pop();
+      trailingBlank++;
+    }
+
+    let text: string;
+    if (literal) {
+      text = collected.join('\n');
+    } else {
+      text = '';
+      for (let i = 0; i < collected.length; i++) {
+        const current = collected[i];
+        if (i === 0) {
+          text = current;
+          continue;
+        }
+        const previous = collected[i - 1];
+        const moreIndented = current.startsWith(' ') || previous.startsWith(' ');
+        if (current === '') {
+          text += '\n';
+        } else if (previous === '' || moreIndented) {
+          text += (previous === '' ? '' : '\n') + current;
+        } else {
+          text += ` ${current}`;
+        }
+      }
+    }
+
+    if (collected.length === 0) return '';
+    if (chomp === '-') return text;
+    if (chomp === '+') return `${text}\n${'\n'.repeat(trailingBlank)}`;
+    return `${text}\n`;
+  }
+}
+
+function rethrowComplete(err: unknown): unknown {
+  if (err instanceof IncompleteValueError) {
+    return new FrontmatterParseError(err.message.replace(/ \(line \d+\)$/, ''), err.line);
+  }
+  return err;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Split "key: rest" into its parts. Returns null if the text isn't a mapping entry.
+ */
+function splitKey(text: string, lineNum: number): { key: string; rest: string } | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const scanner = new InlineScanner(text, lineNum);
+    let key: string;
+    try {
+      key = scanner.parseQuotedKey();
+    } catch {
+      return null;
+    }
+    const after = text.slice(scanner.position).trimStart();
+    if (!after.startsWith(':') || (after.length > 1 && !/\s/.test(after[1]))) return null;
+    return { key, rest: after.slice(1).trim() };
+  }
+
+  if (text.startsWith('[') || text.startsWith('{') || text.startsWith('#')) return null;
+
+  const match = /:(?:[ \t]|$)/.exec(text);
+  if (!match) return null;
+
+  const key = text.slice(0, match.index).trimEnd();
+  if (key === '' || /\s#/.test(key)) return null;
+  return { key, rest: text.slice(match.index + 1).trim() };
+}
+
+function setKey(target: Record<string, unknown>, key: string, value: unknown): void {
+  // defineProperty so keys like "__proto__" are stored as data
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+/**
+ * Scans a single (possibly multi-line) inline value: a scalar or a flow collection
+ */
+class InlineScanner {
+  private pos = 0;
+
+  constructor(private src: string, private line: number) {}
+
+  get position(): number {
+    return this.pos;
+  }
+
+  parseValue(): unknown {
+    this.skipSpace();
+    const ch = this.src[this.pos];
+    let value: unknown;
+
+    if (ch === '[' || ch === '{' || ch === '"' || ch === "'") {
+      value = this.parseFlowNode();
+      this.skipSpace();
+      if (this.src[this.pos] === '#' && /\s/.test(this.src[this.pos - 1] ?? '')) {
+        this.skipComment();
+        this.skipSpace();
+      }
+      if (this.pos < this.src.length) {
+        throw this.error(`Unexpected "${this.src.slice(this.pos).trim()}" after value`);
+      }
+      return value;
+    }
+
+    // Block-context plain scalar: runs to the end of the line or a " #" comment
+    let text = this.src.slice(this.pos);
+    const comment = text.search(/\s#/);
+    if (comment !== -1) text = text.slice(0, comment);
+    if (text.includes('\n')) {
+      throw this.error('Unexpected line break in unquoted value');
+    }
+    return resolvePlain(text.trim());
+  }
+
+  parseQuotedKey(): string {
+    return this.src[0] === '"' ? this.parseDoubleQuoted() : this.parseSingleQuoted();
+  }
+
+  private parseFlowNode(): unknown {
+    this.skipSpace();
+    const ch = this.src[this.pos];
+    if (ch === undefined) throw this.incomplete('Unterminated flow collection');
+    if (ch === '[') return this.parseFlowSequence();
+    if (ch === '{') return this.parseFlowMapping();
+    if (ch === '"') return this.parseDoubleQuoted();
+    if (ch === "'") return this.parseSingleQuoted();
+    return resolvePlain(this.readFlowPlain(false));
+  }
+
+  private parseFlowSequence(): unknown[] {
+    const items: unknown[] = [];
+    this.pos++; // [
+    for (;;) {
+      this.skipSpace();
+      if (this.pos >= this.src.length) throw this.incomplete('Unterminated "["');
+      if (this.src[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+      items.push(this.parseFlowNode());
+      this.skipSpace();
+      const ch = this.src[this.pos];
+      if (ch === ',') {
+        this.pos++;
+      } else if (ch === ']') {
+        this.pos++;
+        return items;
+      } else if (ch === undefined) {
+        throw this.incomplete('Unterminated "["');
+      } else {
+        throw this.error(`Expected "," or "]" in list, got "${ch}"`);
+      }
+    }
+  }
+
+  private parseFlowMapping(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++; // {
+    for (;;) {
+      this.skipSpace();
+      if (this.pos >= this.src.length) throw this.incomplete('Unterminated "{"');
+      if (this.src[this.pos] === '}') {
+        this.pos++;
+        return result;
+      }
+
+      const ch = this.src[this.pos];
+      const key = ch === '"' ? this.parseDoubleQuoted()
+        : ch === "'" ? this.parseSingleQuoted()
+        : this.readFlowPlain(true);
+      this.skipSpace();
+
+      let value: unknown = null;
+      if (this.src[this.pos] === ':') {
+        this.pos++;
+        this.skipSpace();
+        if (this.src[this.pos] !== ',' && this.src[this.pos] !== '}') {
+          value = this.parseFlowNode();
+        }
+      }
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw this.error(`Duplicate key "${key}"`);
+      }
+      setKey(result, key, value);
+
+      this.skipSpace();
+      const next = this.src[this.pos];
+      if (next === ',') {
+        this.pos++;
+      } else if (next === '}') {
+        this.pos++;
+        return result;
+      } else if (next === undefined) {
+        throw this.incomplete('Unterminated "{"');
+      } else {
+        throw this.error(`Expected "," or "}" in mapping, got "${next}"`);
+      }
+    }
+  }
+
+  private readFlowPlain(isKey: boolean): string {
+    const start = this.pos;
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === ',' || ch === ']' || ch === '}' || ch === '[' || ch === '{' || ch === '\n') break;
+      if (ch === ':' && (isKey || /[\s,\]}]/.test(this.src[this.pos + 1] ?? ' '))) break;
+      if (ch === '#' && /\s/.test(this.src[this.pos - 1] ?? '')) break;
+      this.pos++;
+    }
+    const text = this.src.slice(start, this.pos).trim();
+    if (text === '' && isKey) throw this.error('Empty key in mapping');
+    return text;
+  }
+
+  private parseDoubleQuoted(): string {
+    let out = '';
+    this.pos++; // opening quote
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === '"') {
+        this.pos++;
+        return out;
+      }
+      if (ch === '\n') {
+        out = this.fold(out);
+        continue;
+      }
+      if (ch !== '\\') {
+        out += ch;
+        this.pos++;
+        continue;
+      }
+
+      const esc = this.src[this.pos + 1];
+      this.pos += 2;
+      switch (esc) {
+        case undefined: throw this.incomplete('Unterminated double-quoted string');
+        case '0': out += '\0'; break;
+        case 'a': out += '\x07'; break;
+        case 'b': out += '\b'; break;
+        case 't': case '\t': out += '\t'; break;
+        case 'n': out += '\n'; break;
+        case 'v': out += '\v'; break;
+        case 'f': out += '\f'; break;
+        case 'r': out += '\r'; break;
+        case 'e': out += '\x1b'; break;
+        case ' ': out += ' '; break;
+        case '"': out += '"'; break;
+        case '/': out += '/'; break;
+        case '\\': out += '\\'; break;
+        case 'N': out += '\x85'; break;
+        case '_': out += '\xa0'; break;
+        case 'L': out += '\u2028'; break;
+        case 'P': out += '\u2029'; break;
+        case 'x': out += this.readHexEscape(2); break;
+        case 'u': out += this.readHexEscape(4); break;
+        case 'U': out += this.readHexEscape(8); break;
+        case '\n':
+          // Escaped line break: join lines without a space
+          while (this.src[this.pos] === ' ' || this.src[this.pos] === '\t') this.pos++;
+          break;
+        default:
+          throw this.error(`Invalid escape "\\${esc}" in double-quoted string`);
+      }
+    }
+    throw this.incomplete('Unterminated double-quoted string');
+  }
+
+  private parseSingleQuoted(): string {
+    let out = '';
+    this.pos++; // opening quote
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === "'") {
+        if (this.src[this.pos + 1] === "'") {
+          out += "'";
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        return out;
+      }
+      if (ch === '\n') {
+        out = this.fold(out);
+        continue;
+      }
+      out += ch;
+      this.pos++;
+    }
+    throw this.incomplete('Unterminated single-quoted string');
+  }
+
+  /**
+   * Line folding inside quoted scalars: a single line break becomes a
+   * space, each additional empty line becomes a newline.
+   */
+  private fold(out: string): string {
+    let result = out.replace(/[ \t]+$/, '');
+    let breaks = 0;
+    while (this.src[this.pos] === '\n') {
+      breaks++;
+      this.pos++;
+      while (this.src[this.pos] === ' ' || this.src[this.pos] === '\t') this.pos++;
+    }
+    result += breaks === 1 ? ' ' : '\n'.repeat(breaks - 1);
+    return result;
+  }
+
+  private readHexEscape(length: number): string {
+    const hex = this.src.slice(this.pos, this.pos + length);
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+      throw this.error(`Invalid hex escape "${hex}"`);
+    }
+    this.pos += length;
+    const code = parseInt(hex, 16);
+    // \uXXXX may be half of a surrogate pair, so don't use fromCodePoint for it
+    return length === 4 ? String.fromCharCode(code) : String.fromCodePoint(code);
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) this.pos++;
+    if (this.src[this.pos] === '#' && /\s/.test(this.src[this.pos - 1] ?? '')) {
+      // A comment inside a multi-line flow collection runs to the end of its line
+      const newline = this.src.indexOf('\n', this.pos);
+      if (newline !== -1) {
+        this.pos = newline;
+        this.skipSpace();
+      }
+    }
+  }
+
+  private skipComment(): void {
+    const newline = this.src.indexOf('\n', this.pos);
+    this.pos = newline === -1 ? this.src.length : newline;
+  }
+
+  private error(message: string): FrontmatterParseError {
+    return new FrontmatterParseError(message, this.line);
+  }
+
+  private incomplete(message: string): IncompleteValueError {
+    return new IncompleteValueError(message, this.line);
+  }
+}
+
+/**
+ * Resolve an unquoted scalar to null, boolean, number or string
+ */
+function resolvePlain(text: string): unknown {
+  if (text === '' || text === '~' || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+  return text;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Serialization
+// ═══════════════════════════════════════════════════════════════════════════
+
+const SAFE_PLAIN = /^[A-Za-z0-9_./~+@-][A-Za-z0-9 _./~+@:-]*$/;
+const SAFE_KEY = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+function emitMapping(data: Record<string, unknown>, indent: number, lines: string[]): void {
+  const pad = ' '.repeat(indent);
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    const emittedKey = SAFE_KEY.test(key) ? key : JSON.stringify(key);
+
+    if (isNonEmptyObject(value)) {
+      lines.push(`${pad}${emittedKey}:`);
+      emitMapping(value, indent + 2, lines);
+    } else if (Array.isArray(value) && needsBlockSequence(value)) {
+      lines.push(`${pad}${emittedKey}:`);
+      emitSequence(value, indent + 2, lines);
+    } else {
+      lines.push(`${pad}${emittedKey}: ${emitFlow(value)}`);
+    }
+  }
+}
+
+function emitSequence(items: unknown[], indent: number, lines: string[]): void {
+  const pad = ' '.repeat(indent);
+  for (const item of items) {
+    if (isNonEmptyObject(item)) {
+      lines.push(`${pad}-`);
+      emitMapping(item, indent + 2, lines);
+    } else if (Array.isArray(item) && needsBlockSequence(item)) {
+      lines.push(`${pad}-`);
+      emitSequence(item, indent + 2, lines);
+    } else {
+      lines.push(`${pad}- ${emitFlow(item)}`);
+    }
+  }
+}
+
+function emitFlow(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return '.nan';
+    if (value === Infinity) return '.inf';
+    if (value === -Infinity) return '-.inf';
+    return String(value);
+  }
+  if (typeof value === 'string') return emitString(value);
+  if (value instanceof Date) return emitString(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(emitFlow).join(', ')}]`;
+  if (typeof value === 'object') return '{}';
+  return emitString(String(value));
+}
+
+function emitString(value: string): string {
+  const isSafe = SAFE_PLAIN.test(value)
+    && !value.endsWith(' ')
+    && !value.endsWith(':')
+    && !value.includes(': ')
+    && !value.startsWith('- ')
+    && value !== '-'
+    && resolvePlain(value) === value;
+  // JSON string syntax is valid YAML double-quoted syntax
+  return isSafe ? value : JSON.stringify(value);
+}
+
+function isNonEmptyObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object'
+    && value !== null
+    && !Array.isArray(value)
+    && !(value instanceof Date)
+    && Object.keys(value).length > 0;
+}
+
+function needsBlockSequence(items: unknown[]): boolean {
+  return items.some(item =>
+    isNonEmptyObject(item) || (Array.isArray(item) && needsBlockSequence(item))
+  );
+}
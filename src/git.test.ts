@@ -0,0 +1,98 @@
+/**
+ * Git Versioning Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { MemoryStoreV2 } from './store.js';
+
+describe('Git-backed MemoryStore', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir, 'memories', { git: true });
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should commit every change with the tool, memory id and reason', async () => {
+    const memory = await store.create({ content: 'Dog is Max', category: 'fact' }, { actor: 'memory_store' });
+    await store.update(memory.id, { content: 'Dog is Rex' }, { actor: 'memory_update', reason: 'user corrected it' });
+    await store.delete(memory.id, 'no dog anymore', { actor: 'memory_forget' });
+    await store.restore(memory.id, { actor: 'memory_restore' });
+
+    const log = store.log();
+    expect(log.map(entry => entry.action)).toEqual(['restore', 'delete', 'update', 'create', 'import']);
+    expect(log[2]).toMatchObject({
+      memoryId: memory.id,
+      actor: 'memory_update',
+      reason: 'user corrected it',
+      subject: `[memory_update] update ${memory.id.slice(0, 8)}: user corrected it`,
+    });
+
+    const other = await store.create({ content: 'Cat is Tom', category: 'fact' });
+    expect(store.log({ memoryId: memory.id.slice(0, 8) })).toHaveLength(4);
+    expect(store.log({ memoryId: other.id }).map(entry => entry.action)).toEqual(['create']);
+
+    const diff = store.diff(log[2].hash);
+    expect(diff).toContain('-Dog is Max');
+    expect(diff).toContain('+Dog is Rex');
+    expect(() => store.diff('no-such-rev')).toThrow('Unknown revision');
+  });
+
+  it('should keep access times out of the versioned files', async () => {
+    const memory = await store.create({ content: 'Dog is Max', category: 'fact' });
+    const other = await store.create({ content: 'Cat is Tom', category: 'fact' });
+    const commits = store.log().length;
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 60_000);
+    store.touchMany([memory.id]);
+    vi.useRealTimers();
+    const accessedAt = store.get(memory.id)!.lastAccessedAt;
+    expect(accessedAt).toBeGreaterThan(memory.lastAccessedAt);
+    expect(store.log()).toHaveLength(commits);
+    expect(execFileSync('git', ['status', '--porcelain'], { cwd: tempDir, encoding: 'utf-8' })).toBe('');
+
+    await store.update(other.id, { content: 'Cat is Felix' }, { actor: 'memory_update' });
+    expect(store.diff(store.log()[0].hash)).not.toContain(memory.id);
+
+    // Another process sees them too
+    const reopened = new MemoryStoreV2(tempDir, 'memories', { git: true });
+    expect(reopened.get(memory.id)?.lastAccessedAt).toBe(accessedAt);
+    reopened.close();
+  });
+
+  it('should roll back to a commit as a new commit', async () => {
+    const memory = await store.create({ content: 'Dog is Max', category: 'fact' });
+    const createdAt = store.log()[0].hash;
+    await store.update(memory.id, { content: 'Dog is Rex' });
+    const later = await store.create({ content: 'Cat is Tom', category: 'fact' });
+
+    store.rollback(createdAt, { actor: 'cli' });
+
+    expect(store.get(memory.id)?.content).toBe('Dog is Max');
+    expect(store.get(later.id)).toBeNull();
+    expect(store.log()[0]).toMatchObject({ action: 'rollback', actor: 'cli' });
+    expect(execFileSync('git', ['status', '--porcelain'], { cwd: tempDir, encoding: 'utf-8' })).toBe('');
+  });
+
+  it('should keep namespaces in the same repository without mixing their logs', async () => {
+    await store.create({ content: 'Default memory', category: 'fact' });
+    const bob = store.forNamespace('bob');
+    const memory = await bob.create({ content: 'Bob memory', category: 'fact' }, { actor: 'memory_store' });
+
+    expect(bob.log().map(entry => entry.memoryId)).toEqual([memory.id]);
+    expect(store.log().some(entry => entry.memoryId === memory.id)).toBe(false);
+    // One repository for everything, none per namespace
+    expect(fs.existsSync(path.join(tempDir, 'namespaces', 'bob', '.git'))).toBe(false);
+  });
+});
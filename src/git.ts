@@ -0,0 +1,245 @@
+/**
+ * Git Versioning
+ *
+ * Optional audit trail: memoriesPath is a local git repository and every
+ * change to a memory becomes a commit naming the tool, memory and reason.
+ * Works offline; pushing to a remote is left to the user.
+ *
+ * Synchronous, like the storage backends, so a commit happens inside the
+ * same lock as the write it records.
+ */
+
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export interface GitCommitMessage {
+  /** What happened: create, update, supersede, delete, restore, revert, purge, rollback */
+  action: string;
+  memoryId?: string;
+  /** Tool or command that made the change */
+  actor?: string;
+  reason?: string;
+}
+
+export interface GitLogEntry {
+  hash: string;
+  date: number;
+  subject: string;
+  action?: string;
+  memoryId?: string;
+  actor?: string;
+  reason?: string;
+}
+
+export interface GitClientOptions {
+  /**
+   * Repository root when workTree is a subdirectory of it (a namespace
+   * partition). Defaults to workTree.
+   */
+  repoRoot?: string;
+  /** Top-level directories of workTree that are committed separately */
+  excludeDirs?: string[];
+}
+
+// Files in the memories directory that never belong in history
+const GITIGNORE = ['.lock', '*.lock', '*.tmp', '.index/', ''].join('\n');
+
+// Separators for machine-readable git log output
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+
+export class GitClient {
+  private workTree: string;
+  private repoRoot: string;
+  private pathspec: string[];
+  private identity: string[] | null = null;
+
+  constructor(workTree: string, options: GitClientOptions = {}) {
+    this.workTree = workTree;
+    this.repoRoot = options.repoRoot ?? workTree;
+    this.pathspec = ['.', ...(options.excludeDirs ?? []).map(dir => `:(exclude)${dir}`)];
+  }
+
+  /**
+   * Make sure the repository exists, creating it (with an initial commit of
+   * whatever is already there) if needed. A repository further up the tree
+   * (e.g. a dotfiles repo in ~) doesn't count: memories get their own.
+   */
+  init(): void {
+    if (this.isRepoRoot()) return;
+
+    fs.mkdirSync(this.repoRoot, { recursive: true });
+    this.git(['init', '-q'], this.repoRoot);
+    const ignorePath = path.join(this.repoRoot, '.gitignore');
+    if (!fs.existsSync(ignorePath)) {
+      fs.writeFileSync(ignorePath, GITIGNORE, 'utf-8');
+    }
+    if (this.workTree === this.repoRoot) {
+      this.commit({ action: 'import', reason: 'Initial import of existing memories' });
+    }
+  }
+
+  /**
+   * Commit everything that changed under the work tree. Does nothing when
+   * there is nothing to commit.
+   */
+  commit(message: GitCommitMessage): boolean {
+    this.git(['add', '-A', '--', ...this.pathspec]);
+    if (this.isClean()) return false;
+
+    const id = message.memoryId;
+    const subject = [
+      message.actor ? `[${message.actor}]` : null,
+      message.action,
+      id ? id.slice(0, 8) : null,
+    ].filter(Boolean).join(' ') + (message.reason ? `: ${firstLine(message.reason)}` : '');
+
+    const trailers = [
+      `Action: ${message.action}`,
+      id ? `Memory-Id: ${id}` : null,
+      message.actor ? `Tool: ${message.actor}` : null,
+      message.reason ? `Reason: ${message.reason.replace(/\s+/g, ' ')}` : null,
+    ].filter(Boolean).join('\n');
+
+    this.git([...this.getIdentity(), 'commit', '-q', '-m', subject, '-m', trailers, '--', ...this.pathspec]);
+    return true;
+  }
+
+  /**
+   * Commits touching the work tree, newest first. memoryId may be a short ID.
+   */
+  log(options: { limit?: number; memoryId?: string } = {}): GitLogEntry[] {
+    if (!this.hasCommits()) return [];
+
+    const args = ['log', `-n${options.limit ?? 20}`, `--format=%H${FIELD}%at${FIELD}%s${FIELD}%b${RECORD}`];
+    if (options.memoryId) {
+      args.push(`--grep=^Memory-Id: ${options.memoryId.replace(/[^0-9a-f-]/gi, '')}`);
+    }
+    const output = this.git([...args, '--', ...this.pathspec]);
+
+    return output.split(RECORD)
+      .map(record => record.trim())
+      .filter(Boolean)
+      .map(record => {
+        const [hash, time, subject, body = ''] = record.split(FIELD);
+        const trailers = parseTrailers(body);
+        return {
+          hash,
+          date: Number(time) * 1000,
+          subject,
+          action: trailers['Action'],
+          memoryId: trailers['Memory-Id'],
+          actor: trailers['Tool'],
+          reason: trailers['Reason'],
+        };
+      });
+  }
+
+  /**
+   * The change a commit made to the work tree, as a patch with its header
+   */
+  show(rev: string): string {
+    const hash = this.resolve(rev);
+    return this.git(['show', '--stat', '--patch', '--format=fuller', hash, '--', ...this.pathspec]);
+  }
+
+  /**
+   * Put the work tree back to how it was at a commit (files added since are
+   * removed). The caller commits the result.
+   */
+  restoreTo(rev: string): string {
+    const hash = this.resolve(rev);
+    this.git(['restore', `--source=${hash}`, '--staged', '--worktree', '--', ...this.pathspec]);
+    return hash;
+  }
+
+  /**
+   * Full hash of a commit; throws for anything that isn't one
+   */
+  resolve(rev: string): string {
+    if (rev.startsWith('-')) {
+      throw new Error(`Invalid revision: ${rev}`);
+    }
+    try {
+      return this.git(['rev-parse', '--verify', '--quiet', `${rev}^{commit}`]).trim();
+    } catch {
+      throw new Error(`Unknown revision: ${rev}`);
+    }
+  }
+
+  private isRepoRoot(): boolean {
+    try {
+      const toplevel = this.git(['rev-parse', '--show-toplevel'], this.repoRoot).trim();
+      return fs.realpathSync(toplevel) === fs.realpathSync(this.repoRoot);
+    } catch {
+      return false;
+    }
+  }
+
+  private isClean(): boolean {
+    try {
+      this.git(['diff', '--cached', '--quiet', '--', ...this.pathspec]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private hasCommits(): boolean {
+    try {
+      this.git(['rev-parse', '--verify', '--quiet', 'HEAD']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Commit as the user when git knows who they are, as memory-tools otherwise
+   */
+  private getIdentity(): string[] {
+    if (this.identity) return this.identity;
+    let email = '';
+    try {
+      email = this.git(['config', 'user.email']).trim();
+    } catch {
+      // Not configured
+    }
+    this.identity = email
+      ? []
+      : ['-c', 'user.name=memory-tools', '-c', 'user.email=memory-tools@localhost'];
+    return this.identity;
+  }
+
+  private git(args: string[], cwd: string = this.workTree): string {
+    try {
+      return execFileSync('git', args, {
+        cwd,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: 30000,
+        maxBuffer: 64 * 1024 * 1024,
+      });
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') {
+        throw new Error('git is not installed; it is required for gitVersioning');
+      }
+      throw err;
+    }
+  }
+}
+
+function firstLine(text: string): string {
+  const line = text.split('\n')[0].trim();
+  return line.length > 72 ? `${line.slice(0, 69)}...` : line;
+}
+
+function parseTrailers(body: string): Record<string, string> {
+  const trailers: Record<string, string> = {};
+  for (const line of body.split('\n')) {
+    const match = line.match(/^([A-Za-z-]+): (.*)$/);
+    if (match) trailers[match[1]] = match[2];
+  }
+  return trailers;
+}
@@ -0,0 +1,73 @@
+/**
+ * Memory Revision History Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTimeline, diffLines, diffMemories, formatHistory } from './history.js';
+import type { Memory } from './types.js';
+
+function memory(overrides: Partial<Memory> = {}): Memory {
+  return {
+    id: 'aaaaaaaa-0000-0000-0000-000000000001',
+    content: 'User has a cat',
+    category: 'fact',
+    confidence: 0.8,
+    importance: 0.5,
+    decayDays: null,
+    createdAt: 0,
+    updatedAt: 0,
+    lastAccessedAt: 0,
+    tags: [],
+    ...overrides,
+  };
+}
+
+describe('diffMemories', () => {
+  it('should list the fields that changed', () => {
+    const before = memory({ tags: ['pets'] });
+    const after = memory({ content: 'User has a dog', confidence: 0.9, tags: ['pets', 'dog'], deletedAt: 1 });
+
+    expect(diffMemories(before, after)).toEqual([
+      { field: 'content', before: 'User has a cat', after: 'User has a dog' },
+      { field: 'confidence', before: 0.8, after: 0.9 },
+      { field: 'tags', before: ['pets'], after: ['pets', 'dog'] },
+      { field: 'deleted', before: false, after: true },
+    ]);
+    expect(diffMemories(before, memory({ tags: ['pets'], updatedAt: 5 }))).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('should keep common lines and mark removed and added ones', () => {
+    expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual(['  a', '- b', '  c', '+ d']);
+  });
+});
+
+describe('formatHistory', () => {
+  it('should diff each revision against the state that replaced it', () => {
+    const first = memory({ content: 'User has a cat' });
+    const second = memory({ content: 'User has a dog' });
+    const current = memory({ content: 'User has a dog', importance: 0.7, deletedAt: 3000 });
+    const result = {
+      current,
+      revisions: [
+        { revision: 1, action: 'update' as const, recordedAt: 1000, actor: 'memory_update', memory: first },
+        { revision: 2, action: 'delete' as const, recordedAt: 2000, reason: 'no longer true', memory: second },
+      ],
+    };
+
+    expect(buildTimeline(result).map(entry => entry.changes.map(change => change.field))).toEqual([
+      ['content'],
+      ['importance', 'deleted'],
+    ]);
+    expect(formatHistory(result).split('\n')).toEqual([
+      'r1 1970-01-01T00:00:01.000Z update by memory_update',
+      '    - User has a cat',
+      '    + User has a dog',
+      'r2 1970-01-01T00:00:02.000Z delete - no longer true',
+      '    importance: 0.5 -> 0.7',
+      '    deleted: false -> true',
+      'deleted: "User has a dog" [fact] (confidence 0.8)',
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Memory Revision History
+ *
+ * Builds the revision timeline shown by the memory_history tool and the
+ * `history` CLI command. Revisions themselves are written by the file
+ * manager: each one is a snapshot of the memory before a change.
+ */
+
+import type { Memory, MemoryHistoryResult, MemoryRevision } from './types.js';
+
+export interface MemoryFieldChange {
+  field: 'content' | 'category' | 'confidence' | 'importance' | 'decayDays' | 'tags' | 'deleted';
+  before: unknown;
+  after: unknown;
+}
+
+export interface TimelineEntry {
+  revision: number;
+  action: MemoryRevision['action'];
+  recordedAt: number;
+  actor?: string;
+  reason?: string;
+  changes: MemoryFieldChange[];
+}
+
+const SCALAR_FIELDS = ['category', 'confidence', 'importance', 'decayDays'] as const;
+
+/**
+ * Field-level differences between two versions of a memory
+ */
+export function diffMemories(before: Memory, after: Memory): MemoryFieldChange[] {
+  const changes: MemoryFieldChange[] = [];
+
+  if (before.content !== after.content) {
+    changes.push({ field: 'content', before: before.content, after: after.content });
+  }
+  for (const field of SCALAR_FIELDS) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+  if (before.tags.join('\u0000') !== after.tags.join('\u0000')) {
+    changes.push({ field: 'tags', before: before.tags, after: after.tags });
+  }
+  if (before.deletedAt !== after.deletedAt) {
+    changes.push({ field: 'deleted', before: before.deletedAt !== undefined, after: after.deletedAt !== undefined });
+  }
+
+  return changes;
+}
+
+/**
+ * Line diff of two strings, as "  ", "- " and "+ " prefixed lines
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => Array.from({ length: b.length + 1 }, () => 0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(`  ${a[i]}`);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`- ${a[i++]}`);
+  while (j < b.length) lines.push(`+ ${b[j++]}`);
+
+  return lines;
+}
+
+/**
+ * Pair each revision with the state that replaced it (the next revision,
+ * or the current memory for the latest one) and diff the two
+ */
+export function buildTimeline(result: MemoryHistoryResult): TimelineEntry[] {
+  return result.revisions.map((revision, i) => {
+    const after = result.revisions[i + 1]?.memory ?? result.current;
+    return {
+      revision: revision.revision,
+      action: revision.action,
+      recordedAt: revision.recordedAt,
+      actor: revision.actor,
+      reason: revision.reason,
+      changes: after ? diffMemories(revision.memory, after) : [],
+    };
+  });
+}
+
+/**
+ * Human-readable timeline, oldest change first
+ */
+export function formatHistory(result: MemoryHistoryResult): string {
+  const lines: string[] = [];
+
+  for (const entry of buildTimeline(result)) {
+    const by = entry.actor ? ` by ${entry.actor}` : '';
+    const why = entry.reason ? ` - ${entry.reason}` : '';
+    lines.push(`r${entry.revision} ${new Date(entry.recordedAt).toISOString()} ${entry.action}${by}${why}`);
+
+    for (const change of entry.changes) {
+      if (change.field === 'content') {
+        lines.push(...diffLines(String(change.before), String(change.after)).map(line => `    ${line}`));
+      } else {
+        lines.push(`    ${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`);
+      }
+    }
+  }
+
+  if (result.current) {
+    const state = result.current.deletedAt !== undefined
+      ? 'deleted'
+      : result.current.archivedAt !== undefined ? 'archived' : 'current';
+    lines.push(`${state}: "${result.current.content}" [${result.current.category}] (confidence ${result.current.confidence})`);
+    if (result.current.supersedes) {
+      lines.push(`supersedes: ${result.current.supersedes}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'none';
+  if (Array.isArray(value)) return `[${value.join(', ')}]`;
+  return String(value);
+}
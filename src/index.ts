@@ -5,17 +5,32 @@
  * File-based storage, no external APIs required.
  *
  * Key features:
- * - Six memory tools: store, update, forget, search, summarize, list
+ * - Memory tools: store, update, forget, restore, history, search, summarize, list
  * - File-based storage (markdown with YAML frontmatter)
  * - QMD search (BM25 + vector + reranking, all local)
+ * - Built-in BM25 and vector search without QMD; engines are pluggable
  * - Auto-migration from v1
  * - No OpenAI dependency
  */
 
-import type { OpenClawPluginApi } from './plugin-types.js';
+import * as fs from 'node:fs';
+import type { OpenClawPluginApi, PluginHookAgentContext } from './plugin-types.js';
 import { parseConfig } from './config.js';
 import { MemoryStoreV2 } from './store.js';
 import { createMemoryTools } from './tools.js';
+import { formatHistory } from './history.js';
+import { resolveNamespace } from './namespace.js';
+import { MemoryCipher } from './encryption.js';
+import { formatDoctorReport } from './doctor.js';
+import { CategoryRegistry } from './categories.js';
+import { formatVCards, importVCards } from './vcard.js';
+import { formatBreakdown } from './ranking.js';
+import { formatEventTime, resolveDateRange } from './events.js';
+import { formatUpcoming, upcomingEventsEnabledFor, upcomingWindowMs } from './upcoming.js';
+import { isSearchMode } from './search-modes.js';
+import { combineSearchOptions, parseQuery, type ParsedQuery } from './query-syntax.js';
+import { MARKDOWN_HIGHLIGHT, formatSnippet } from './snippets.js';
+import { SEARCH_MODES, type MemorySearchResult } from './types.js';
 import {
   hasLegacyDatabase,
   hasNewMemories,
@@ -24,6 +39,12 @@ import {
   printMigrationSuccess,
 } from './migration.js';
 
+// How often the service purges .deleted according to the retention policy
+const DELETED_SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// How often the service moves memories past their decayDays to the archive
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
 // Plugin definition
 const memoryToolsPlugin = {
   id: 'memory-tools',
@@ -41,7 +62,9 @@ const memoryToolsPlugin = {
     // ═══════════════════════════════════════════════════════════════════════
 
     const hasLegacy = hasLegacyDatabase(legacyDbPath);
-    const hasNew = hasNewMemories(memoriesPath);
+    // Throws on invalid category config, before anything is written
+    const categories = new CategoryRegistry(cfg.categories);
+    const hasNew = hasNewMemories(memoriesPath, categories);
 
     if (cfg.autoMigrateLegacy === true && hasLegacy && !hasNew) {
       // Need to migrate
@@ -67,95 +90,152 @@ const memoryToolsPlugin = {
     // Initialize Store
     // ═══════════════════════════════════════════════════════════════════════
 
-    const store = new MemoryStoreV2(memoriesPath, cfg.qmdCollection);
+    if (cfg.encryption !== 'off' && !cfg.encryptionKey) {
+      // Never fall back to writing plaintext when encryption was asked for
+      throw new Error('memory-tools: encryption is enabled but encryptionKey is empty (is its environment variable set?)');
+    }
+    const cipher = cfg.encryptionKey ? new MemoryCipher(cfg.encryptionKey) : undefined;
+
+    const store = new MemoryStoreV2(memoriesPath, cfg.qmdCollection, {
+      backend: cfg.storageBackend,
+      encryption: cfg.encryption,
+      cipher,
+      git: cfg.gitVersioning,
+      categories,
+      ranking: cfg.ranking,
+      timezone: cfg.timezone,
+      searchEngines: cfg.searchEngines,
+      embeddingProvider: cfg.embeddingProvider,
+    });
+    await store.open();
+    if (cfg.gitVersioning) {
+      api.logger.info(`memory-tools: committing every change to the git repository in ${memoriesPath}`);
+    }
 
     // Check QMD availability
-    const qmdAvailable = await store.isQMDAvailable();
-    if (!qmdAvailable) {
+    const searchEngines = cfg.searchEngines!;
+    const builtInEngines = searchEngines.filter(name => name !== 'qmd').join(', ') || 'none';
+    const usesQmd = searchEngines.includes('qmd');
+    const qmdAvailable = usesQmd && cfg.storageBackend === 'markdown' && cfg.encryption === 'off' && await store.isQMDAvailable();
+    if (cfg.storageBackend === 'sqlite') {
+      api.logger.info(`memory-tools: initialized with SQLite backend, built-in search: ${builtInEngines} (path: ${memoriesPath})`);
+    } else if (cfg.encryption !== 'off') {
+      api.logger.info(`memory-tools: initialized with ${cfg.encryption} encryption, built-in search: ${builtInEngines} (path: ${memoriesPath})`);
+    } else if (!usesQmd) {
+      api.logger.info(`memory-tools: initialized with search engines ${searchEngines.join(', ')} (path: ${memoriesPath})`);
+    } else if (!qmdAvailable) {
       api.logger.warn(
         'memory-tools: QMD not installed. Install with: npm install -g @tobilu/qmd'
       );
-      api.logger.warn('memory-tools: Semantic search will be limited until QMD is installed.');
-    } else {
-      try {
-        await store.init();
-        api.logger.info(`memory-tools: initialized with QMD (path: ${memoriesPath})`);
-      } catch (err: any) {
-        api.logger.warn(
-          `memory-tools: QMD initialization failed, continuing in basic mode: ${err?.message || err}`
-        );
-      }
+      api.logger.warn(`memory-tools: Using built-in search (${builtInEngines}) until QMD is installed.`);
+    }
+    try {
+      // Creates the QMD collection when QMD is there; other engines prepare their indexes
+      await store.init();
+      if (qmdAvailable) api.logger.info(`memory-tools: initialized with QMD (path: ${memoriesPath})`);
+    } catch (err: any) {
+      api.logger.warn(
+        `memory-tools: search engine initialization failed, continuing with the rest: ${err?.message || err}`
+      );
     }
 
-    const tools = createMemoryTools(store as any); // Cast for compatibility
+    const tools = createMemoryTools(store as any, {
+      namespaceStrategy: cfg.namespaceStrategy,
+      categories,
+      timezone: cfg.timezone,
+      searchMode: cfg.searchMode,
+      searchResults: cfg.searchResults,
+    }); // Cast for compatibility
 
     // ═══════════════════════════════════════════════════════════════════════
     // Register Tools
     // ═══════════════════════════════════════════════════════════════════════
 
     api.registerTool(
-      {
+      (ctx) => ({
         name: tools.memory_store.name,
         label: tools.memory_store.label,
         description: tools.memory_store.description,
         parameters: tools.memory_store.parameters,
-        execute: (id, params) => tools.memory_store.execute(id, params as any, {}),
-      },
+        execute: (id, params) => tools.memory_store.execute(id, params as any, ctx),
+      }),
       { name: 'memory_store' }
     );
 
     api.registerTool(
-      {
+      (ctx) => ({
         name: tools.memory_update.name,
         label: tools.memory_update.label,
         description: tools.memory_update.description,
         parameters: tools.memory_update.parameters,
-        execute: (id, params) => tools.memory_update.execute(id, params as any),
-      },
+        execute: (id, params) => tools.memory_update.execute(id, params as any, ctx),
+      }),
       { name: 'memory_update' }
     );
 
     api.registerTool(
-      {
+      (ctx) => ({
         name: tools.memory_forget.name,
         label: tools.memory_forget.label,
         description: tools.memory_forget.description,
         parameters: tools.memory_forget.parameters,
-        execute: (id, params) => tools.memory_forget.execute(id, params as any),
-      },
+        execute: (id, params) => tools.memory_forget.execute(id, params as any, ctx),
+      }),
       { name: 'memory_forget' }
     );
 
     api.registerTool(
-      {
+      (ctx) => ({
+        name: tools.memory_restore.name,
+        label: tools.memory_restore.label,
+        description: tools.memory_restore.description,
+        parameters: tools.memory_restore.parameters,
+        execute: (id, params) => tools.memory_restore.execute(id, params as any, ctx),
+      }),
+      { name: 'memory_restore' }
+    );
+
+    api.registerTool(
+      (ctx) => ({
+        name: tools.memory_history.name,
+        label: tools.memory_history.label,
+        description: tools.memory_history.description,
+        parameters: tools.memory_history.parameters,
+        execute: (id, params) => tools.memory_history.execute(id, params as any, ctx),
+      }),
+      { name: 'memory_history' }
+    );
+
+    api.registerTool(
+      (ctx) => ({
         name: tools.memory_search.name,
         label: tools.memory_search.label,
         description: tools.memory_search.description,
         parameters: tools.memory_search.parameters,
-        execute: (id, params) => tools.memory_search.execute(id, params as any),
-      },
+        execute: (id, params) => tools.memory_search.execute(id, params as any, ctx),
+      }),
       { name: 'memory_search' }
     );
 
     api.registerTool(
-      {
+      (ctx) => ({
         name: tools.memory_summarize.name,
         label: tools.memory_summarize.label,
         description: tools.memory_summarize.description,
         parameters: tools.memory_summarize.parameters,
-        execute: (id, params) => tools.memory_summarize.execute(id, params as any),
-      },
+        execute: (id, params) => tools.memory_summarize.execute(id, params as any, ctx),
+      }),
       { name: 'memory_summarize' }
     );
 
     api.registerTool(
-      {
+      (ctx) => ({
         name: tools.memory_list.name,
         label: tools.memory_list.label,
         description: tools.memory_list.description,
         parameters: tools.memory_list.parameters,
-        execute: (id, params) => tools.memory_list.execute(id, params as any),
-      },
+        execute: (id, params) => tools.memory_list.execute(id, params as any, ctx),
+      }),
       { name: 'memory_list' }
     );
 
@@ -163,23 +243,54 @@ const memoryToolsPlugin = {
     // Lifecycle Hooks
     // ═══════════════════════════════════════════════════════════════════════
 
-    // Auto-inject standing instructions at conversation start
-    if (cfg.autoInjectInstructions === true) {
-      api.on('before_agent_start', async (event: { prompt?: string }) => {
-        const instructions = store.getByCategory('instruction', 10);
-
-        if (instructions.length === 0) {
+    // Auto-inject standing instructions and upcoming events at conversation start
+    const upcomingEvents = cfg.upcomingEvents!;
+    const injectsUpcoming = upcomingEvents.enabled || Object.values(upcomingEvents.channels).some(Boolean);
+    if (cfg.autoInjectInstructions === true || injectsUpcoming) {
+      api.on('before_agent_start', async (_event: { prompt?: string }, ctx?: PluginHookAgentContext) => {
+        const namespace = resolveNamespace(
+          {
+            agentId: ctx?.agentId,
+            sessionKey: ctx?.sessionKey,
+            messageChannel: ctx?.messageProvider,
+            requesterSenderId: ctx?.requesterSenderId,
+          },
+          cfg.namespaceStrategy!
+        );
+        // Nothing is anyone's to inject when the strategy can't identify the caller
+        if (namespace === null) {
           return undefined;
         }
+        const target = store.forNamespace(namespace);
+        const blocks: string[] = [];
+
+        if (cfg.autoInjectInstructions === true) {
+          const instructions = target.getByCategory('instruction', 10);
+          if (instructions.length > 0) {
+            const instructionList = instructions
+              .map((m: { content: string }) => `- ${m.content}`)
+              .join('\n');
+
+            api.logger.info?.(`memory-tools: injecting ${instructions.length} standing instructions`);
+            blocks.push(`<standing-instructions>\nRemember these user instructions:\n${instructionList}\n</standing-instructions>`);
+          }
+        }
 
-        const instructionList = instructions
-          .map((m: { content: string }) => `- ${m.content}`)
-          .join('\n');
+        if (upcomingEventsEnabledFor(upcomingEvents, ctx?.messageProvider)) {
+          const items = target.upcoming({ withinMs: upcomingWindowMs(upcomingEvents), limit: upcomingEvents.maxItems });
+          const block = formatUpcoming(items, upcomingEvents.withinHours, cfg.timezone);
+          if (block) {
+            api.logger.info?.(`memory-tools: injecting ${items.length} upcoming events`);
+            blocks.push(block);
+          }
+        }
 
-        api.logger.info?.(`memory-tools: injecting ${instructions.length} standing instructions`);
+        if (blocks.length === 0) {
+          return undefined;
+        }
 
         return {
-          prependContext: `<standing-instructions>\nRemember these user instructions:\n${instructionList}\n</standing-instructions>`,
+          prependContext: blocks.join('\n\n'),
         };
       });
     }
@@ -192,23 +303,52 @@ const memoryToolsPlugin = {
       ({ program }: { program: any }) => {
         const memory = program
           .command('memory-tools')
-          .description('Memory-as-Tools plugin commands (v2)');
+          .description('Memory-as-Tools plugin commands (v2)')
+          .option('-n, --namespace <namespace>', 'Namespace to operate on (default: the shared namespace)');
+
+        // Commands act on the namespace given with --namespace
+        const scoped = (): MemoryStoreV2 => store.forNamespace(memory.opts().namespace);
+
+        // Search results as snippets (bold on a terminal, markdown bold when piped) or whole memories
+        const printResults = (results: MemorySearchResult[], full: boolean | undefined) => {
+          const fullContent = full ?? cfg.searchResults!.fullContent;
+          const markers = process.stdout.isTTY ? { open: '\x1b[1m', close: '\x1b[22m' } : MARKDOWN_HIGHLIGHT;
+          for (const r of results) {
+            const when = r.memory.startsAt !== undefined ? ` @ ${formatEventTime(r.memory, cfg.timezone)}` : '';
+            const content = fullContent || !r.snippet ? r.memory.content : formatSnippet(r.snippet, markers);
+            console.log(`[${r.memory.id.slice(0, 8)}] (${(r.score * 100).toFixed(0)}%) ${content}${when}`);
+            if (r.breakdown) console.log(`           ${formatBreakdown(r.breakdown)}`);
+          }
+        };
 
         memory
           .command('stats')
           .description('Show memory statistics')
           .action(async () => {
-            const total = store.count();
-            const instructions = store.getByCategory('instruction').length;
-            const facts = store.getByCategory('fact').length;
-            const preferences = store.getByCategory('preference').length;
+            const target = scoped();
+            const total = target.count();
+            const instructions = target.getByCategory('instruction').length;
+            const facts = target.getByCategory('fact').length;
+            const preferences = target.getByCategory('preference').length;
 
             console.log(`Memory Statistics (v2):`);
             console.log(`  Total: ${total}`);
             console.log(`  Instructions: ${instructions}`);
             console.log(`  Facts: ${facts}`);
             console.log(`  Preferences: ${preferences}`);
-            console.log(`  Storage: ${memoriesPath}`);
+            console.log(`  Storage: ${target.getMemoriesPath()}`);
+
+            const namespaces = store.listNamespaces();
+            if (namespaces.length > 0) {
+              console.log(`  Namespaces: ${namespaces.join(', ')}`);
+            }
+
+            console.log(`  Search engines:`);
+            for (const engine of await target.searchStatus()) {
+              const documents = engine.documents !== undefined ? `, ${engine.documents} indexed` : '';
+              const detail = engine.detail ? ` (${engine.detail})` : '';
+              console.log(`    ${engine.name}: ${engine.available ? 'available' : 'unavailable'}${documents}${detail}`);
+            }
           });
 
         memory
@@ -217,7 +357,7 @@ const memoryToolsPlugin = {
           .option('-c, --category <category>', 'Filter by category')
           .option('-l, --limit <n>', 'Max results', '20')
           .action(async (opts: { category?: string; limit?: string }) => {
-            const results = store.list({
+            const results = scoped().list({
               category: opts.category as any,
               limit: parseInt(opts.limit ?? '20'),
             });
@@ -229,35 +369,356 @@ const memoryToolsPlugin = {
           });
 
         memory
-          .command('search <query>')
-          .description('Search memories using QMD')
+          .command('search [query]')
+          .description('Search memories; the query may include filters like category:preference tag:food since:2026-01-01')
           .option('-l, --limit <n>', 'Max results', '10')
-          .action(async (query: string, opts: { limit?: string }) => {
-            const results = await store.search({
-              query,
+          .option('--explain', 'Show how each score was computed')
+          .option('--from <date>', 'Only events from this date on ("today", "2026-03-01")')
+          .option('--to <date>', 'Only events up to the end of this date ("next week")')
+          .option('-m, --mode <mode>', `How to match the query: ${SEARCH_MODES.join(', ')}`)
+          .option('--full', 'Show whole memories instead of snippets')
+          .action(async (
+            query: string | undefined,
+            opts: { limit?: string; explain?: boolean; from?: string; to?: string; mode?: string; full?: boolean }
+          ) => {
+            let parsed: ParsedQuery = { options: {} };
+            let range: { from?: number; to?: number };
+            try {
+              if (query) parsed = parseQuery(query, { timeZone: cfg.timezone, categories: categories.names() });
+              range = resolveDateRange(opts, { timeZone: cfg.timezone });
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+              return;
+            }
+            const options = combineSearchOptions(parsed.options, { query: parsed.text, explain: opts.explain, ...range });
+            const hasRange = options.from !== undefined || options.to !== undefined;
+            if (!parsed.text && Object.keys(parsed.options).length === 0 && !hasRange) {
+              console.error('Give a query, filters, --from or --to');
+              process.exitCode = 1;
+              return;
+            }
+
+            const mode = opts.mode ?? options.mode ?? cfg.searchMode!.default;
+            if (!isSearchMode(mode)) {
+              console.error(`Unknown search mode '${mode}' (expected ${SEARCH_MODES.join(', ')})`);
+              process.exitCode = 1;
+              return;
+            }
+
+            const results = await scoped().search({
+              ...options,
               limit: parseInt(opts.limit ?? '10'),
+              mode,
+              // Past events are what a past range asks for
+              excludeDecayed: !hasRange,
+              snippetLength: cfg.searchResults!.snippetLength,
             });
 
             console.log(`Found ${results.length} memories:\n`);
-            for (const r of results) {
-              console.log(`[${r.memory.id.slice(0, 8)}] (${(r.score * 100).toFixed(0)}%) ${r.memory.content}`);
+            printResults(results, opts.full);
+          });
+
+        memory
+          .command('related <id> [filters]')
+          .description('Find memories similar to one (e.g. the rest of its project); filters use the search query syntax')
+          .option('-l, --limit <n>', 'Max results', '10')
+          .option('--min-similarity <n>', 'Lowest similarity to include, 0-1 (default 0.5)')
+          .option('--explain', 'Show how each score was computed')
+          .option('--full', 'Show whole memories instead of snippets')
+          .action(async (
+            id: string,
+            filters: string | undefined,
+            opts: { limit?: string; minSimilarity?: string; explain?: boolean; full?: boolean }
+          ) => {
+            const target = scoped();
+            const seed = target.get(id);
+            if (!seed) {
+              console.error(`Memory ${id} not found`);
+              process.exitCode = 1;
+              return;
+            }
+
+            let parsed: ParsedQuery = { options: {} };
+            try {
+              if (filters) parsed = parseQuery(filters, { timeZone: cfg.timezone, categories: categories.names() });
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+              return;
+            }
+            if (parsed.text) {
+              console.error(`Only filters go after the id (e.g. category:fact tag:work), not "${parsed.text}"`);
+              process.exitCode = 1;
+              return;
+            }
+
+            const minSimilarity = opts.minSimilarity !== undefined ? Number(opts.minSimilarity) : undefined;
+            if (minSimilarity !== undefined && !(minSimilarity >= 0 && minSimilarity <= 1)) {
+              console.error(`--min-similarity must be a number from 0 to 1, got '${opts.minSimilarity}'`);
+              process.exitCode = 1;
+              return;
+            }
+
+            const results = await target.search({
+              ...parsed.options,
+              relatedTo: seed.id,
+              minSimilarity,
+              limit: parseInt(opts.limit ?? '10'),
+              explain: opts.explain,
+              snippetLength: cfg.searchResults!.snippetLength,
+            });
+
+            console.log(`Found ${results.length} memories related to [${seed.id.slice(0, 8)}] ${seed.content.slice(0, 60)}:\n`);
+            printResults(results, opts.full);
+          });
+
+        memory
+          .command('restore [id]')
+          .description('Restore a deleted memory (lists recently deleted when no id is given)')
+          .option('-l, --limit <n>', 'Max deleted memories to list', '20')
+          .action(async (id: string | undefined, opts: { limit?: string }) => {
+            if (!id) {
+              const deleted = scoped().listDeleted(parseInt(opts.limit ?? '20'));
+              console.log(`Recently deleted memories (${deleted.length}):\n`);
+              for (const m of deleted) {
+                const deletedAt = m.deletedAt ? new Date(m.deletedAt).toISOString() : 'unknown';
+                console.log(`[${m.id.slice(0, 8)}] [${m.category}] ${m.content.slice(0, 60)}...`);
+                console.log(`    deleted ${deletedAt}${m.deleteReason ? ` - ${m.deleteReason}` : ''}`);
+              }
+              return;
+            }
+
+            try {
+              const memory = await scoped().restore(id, { actor: 'cli' });
+              console.log(`Restored [${memory.id.slice(0, 8)}] [${memory.category}] ${memory.content.slice(0, 60)}`);
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+            }
+          });
+
+        memory
+          .command('history <id>')
+          .description('Show the revision timeline of a memory with diffs')
+          .option('--revert <revision>', 'Revert the memory to this revision')
+          .option('--reason <text>', 'Reason recorded with the revert')
+          .action(async (id: string, opts: { revert?: string; reason?: string }) => {
+            if (opts.revert !== undefined) {
+              try {
+                const memory = await scoped().revert(id, parseInt(opts.revert), { actor: 'cli', reason: opts.reason });
+                console.log(`Reverted [${memory.id.slice(0, 8)}] to revision ${opts.revert}: ${memory.content.slice(0, 60)}`);
+              } catch (err: any) {
+                console.error(err.message);
+                process.exitCode = 1;
+              }
+              return;
+            }
+
+            const history = scoped().history(id);
+            if (!history.current && history.revisions.length === 0) {
+              console.error(`Memory ${id} not found`);
+              process.exitCode = 1;
+              return;
+            }
+
+            console.log(`History of ${history.current?.id ?? id} (${history.revisions.length} revisions):\n`);
+            console.log(formatHistory(history));
+          });
+
+        memory
+          .command('log')
+          .description('Show the git commits that changed memories (requires gitVersioning)')
+          .option('-l, --limit <n>', 'Max commits', '20')
+          .option('--id <memoryId>', 'Only commits touching this memory')
+          .action((opts: { limit?: string; id?: string }) => {
+            try {
+              const entries = scoped().log({ limit: parseInt(opts.limit ?? '20'), memoryId: opts.id });
+              for (const entry of entries) {
+                console.log(`${entry.hash.slice(0, 12)} ${new Date(entry.date).toISOString()} ${entry.subject}`);
+              }
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+            }
+          });
+
+        memory
+          .command('diff <rev>')
+          .description('Show what a git commit changed (requires gitVersioning)')
+          .action((rev: string) => {
+            try {
+              console.log(scoped().diff(rev));
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+            }
+          });
+
+        memory
+          .command('rollback <rev>')
+          .description('Put all memories back to how they were at a git commit (recorded as a new commit)')
+          .option('--reason <text>', 'Reason recorded in the rollback commit')
+          .action((rev: string, opts: { reason?: string }) => {
+            try {
+              const hash = scoped().rollback(rev, { actor: 'cli', reason: opts.reason });
+              console.log(`Rolled back memories to ${hash.slice(0, 12)}`);
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+            }
+          });
+
+        memory
+          .command('doctor')
+          .description('Check the memories directory for broken, misplaced, duplicate and unindexed files')
+          .option('--fix', 'Repair what can be repaired (broken and duplicate files go to .quarantine/)')
+          .option('--json', 'Print machine-readable JSON')
+          .action(async (opts: { fix?: boolean; json?: boolean }) => {
+            // Every namespace unless one was picked with --namespace
+            const selected = memory.opts().namespace as string | undefined;
+            const targets = selected !== undefined
+              ? [scoped()]
+              : [store, ...store.listNamespaces().map(ns => store.forNamespace(ns))];
+
+            const reports = [];
+            for (const target of targets) {
+              reports.push(await target.doctor({ fix: opts.fix }));
+            }
+
+            const unresolved = reports.flatMap(r => r.issues).filter(issue => !issue.fixed).length;
+            if (opts.json) {
+              console.log(JSON.stringify({ ok: unresolved === 0, fix: opts.fix === true, reports }, null, 2));
+            } else {
+              for (const report of reports) console.log(formatDoctorReport(report));
+            }
+            if (unresolved > 0) process.exitCode = 1;
+          });
+
+        memory
+          .command('purge')
+          .description('Permanently remove soft-deleted memories past the retention policy')
+          .option('--dry-run', 'Show what would be purged without removing anything')
+          .option('--older-than <days>', 'Purge memories deleted more than N days ago (default: deletedRetentionDays)')
+          .option('--keep <n>', 'Keep at most N deleted memories (default: deletedMaxItems)')
+          .action(async (opts: { dryRun?: boolean; olderThan?: string; keep?: string }) => {
+            for (const [flag, value] of [['--older-than', opts.olderThan], ['--keep', opts.keep]]) {
+              if (value !== undefined && !/^\d+$/.test(value)) {
+                console.error(`${flag} must be a whole number of 0 or more, got '${value}'`);
+                process.exitCode = 1;
+                return;
+              }
+            }
+            const retentionDays = opts.olderThan !== undefined ? Number(opts.olderThan) : cfg.deletedRetentionDays;
+            const maxItems = opts.keep !== undefined ? Number(opts.keep) : cfg.deletedMaxItems;
+
+            if (retentionDays === undefined && maxItems === undefined) {
+              console.log('No retention policy configured. Pass --older-than and/or --keep, or set deletedRetentionDays/deletedMaxItems.');
+              return;
+            }
+
+            const result = scoped().purgeDeleted({ retentionDays, maxItems, dryRun: opts.dryRun });
+            console.log(`${result.dryRun ? 'Would purge' : 'Purged'} ${result.purged.length} deleted memories (${result.remaining} remaining):\n`);
+            for (const m of result.purged) {
+              const deletedAt = m.deletedAt ? new Date(m.deletedAt).toISOString() : 'unknown';
+              console.log(`[${m.id.slice(0, 8)}] deleted ${deletedAt}${m.deleteReason ? ` - ${m.deleteReason}` : ''}`);
+            }
+          });
+
+        memory
+          .command('expire')
+          .description('Move memories past their decayDays to .archive (restorable with memory_restore)')
+          .option('--dry-run', 'Show what would expire without moving anything')
+          .action((opts: { dryRun?: boolean }) => {
+            const result = scoped().expireDecayed({ dryRun: opts.dryRun }, { actor: 'cli' });
+            console.log(`${result.dryRun ? 'Would expire' : 'Expired'} ${result.expired.length} memories:\n`);
+            for (const m of result.expired) {
+              console.log(`[${m.id.slice(0, 8)}] [${m.category}] ${m.content.slice(0, 80)}${m.content.length > 80 ? '...' : ''}`);
+              console.log(`   ${m.reason}`);
+            }
+          });
+
+        memory
+          .command('encrypt')
+          .description('Encrypt existing memory files with the configured encryption mode and key')
+          .action(() => {
+            if (cfg.encryption === 'off') {
+              console.error('Set encryption ("content" or "full") and encryptionKey in the plugin config first.');
+              process.exitCode = 1;
+              return;
+            }
+            try {
+              const rewritten = store.reencode();
+              console.log(`Encrypted ${rewritten} memory files (${cfg.encryption}).`);
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+            }
+          });
+
+        memory
+          .command('decrypt')
+          .description('Decrypt all memory files back to plain markdown')
+          .action(() => {
+            if (!cipher) {
+              console.error('encryptionKey is not set; it is needed to read the encrypted files.');
+              process.exitCode = 1;
+              return;
+            }
+            const plain = new MemoryStoreV2(memoriesPath, cfg.qmdCollection, {
+              encryption: 'off',
+              cipher,
+              git: cfg.gitVersioning,
+              categories,
+            });
+            try {
+              const rewritten = plain.reencode();
+              console.log(`Decrypted ${rewritten} memory files.`);
+              console.log('Set encryption to "off" before restarting the gateway, or new writes will be encrypted again.');
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+            } finally {
+              plain.close();
             }
           });
 
         memory
           .command('export')
           .description('Export all memories as JSON')
-          .action(async () => {
-            const results = store.list({ limit: 10000 });
+          .option('--vcard', 'Export memories with contact attributes as vCards instead')
+          .action(async (opts: { vcard?: boolean }) => {
+            const results = scoped().list({ limit: 10000 });
+            if (opts.vcard) {
+              process.stdout.write(formatVCards(results.items));
+              return;
+            }
             console.log(JSON.stringify(results.items, null, 2));
           });
 
+        memory
+          .command('import-vcard <file>')
+          .description('Import contacts from a .vcf file as entity memories')
+          .action(async (file: string) => {
+            try {
+              const result = await importVCards(scoped(), fs.readFileSync(file, 'utf-8'), { meta: { actor: 'cli' } });
+              for (const warning of result.warnings) console.warn(warning);
+              console.log(
+                `Imported ${result.created.length + result.updated.length} contacts ` +
+                `(${result.created.length} new, ${result.updated.length} updated, ${result.skipped} skipped).`
+              );
+            } catch (err: any) {
+              console.error(err.message);
+              process.exitCode = 1;
+            }
+          });
+
         memory
           .command('reindex')
-          .description('Force QMD to re-index all memories')
+          .description('Rebuild the index of every search engine')
           .action(async () => {
-            console.log('Re-indexing memories with QMD...');
-            await store.reindex();
+            console.log('Re-indexing memories...');
+            await scoped().reindex();
             console.log('Done!');
           });
 
@@ -265,7 +726,7 @@ const memoryToolsPlugin = {
           .command('path')
           .description('Show memories storage path')
           .action(() => {
-            console.log(memoriesPath);
+            console.log(scoped().getMemoriesPath());
           });
       },
       { commands: ['memory-tools'] }
@@ -275,13 +736,76 @@ const memoryToolsPlugin = {
     // Service (lifecycle management)
     // ═══════════════════════════════════════════════════════════════════════
 
+    const retention = {
+      retentionDays: cfg.deletedRetentionDays,
+      maxItems: cfg.deletedMaxItems,
+    };
+    const hasRetentionPolicy = retention.retentionDays !== undefined || retention.maxItems !== undefined;
+    let purgeTimer: NodeJS.Timeout | null = null;
+    let expiryTimer: NodeJS.Timeout | null = null;
+
+    const sweepDeleted = () => {
+      for (const namespace of [undefined, ...store.listNamespaces()]) {
+        const label = namespace ? ` in namespace ${namespace}` : '';
+        try {
+          const result = store.forNamespace(namespace).purgeDeleted(retention);
+          if (result.purged.length > 0) {
+            api.logger.info(
+              `memory-tools: purged ${result.purged.length} deleted memories${label} (${result.remaining} remaining in .deleted)`
+            );
+          }
+        } catch (err: any) {
+          api.logger.warn(`memory-tools: purge of deleted memories${label} failed: ${err?.message || err}`);
+        }
+      }
+    };
+
+    const sweepExpired = () => {
+      const expired: Record<string, number> = {};
+      let total = 0;
+      for (const namespace of [undefined, ...store.listNamespaces()]) {
+        const label = namespace ? ` in namespace ${namespace}` : '';
+        try {
+          const result = store.forNamespace(namespace).expireDecayed();
+          for (const m of result.expired) {
+            expired[m.category] = (expired[m.category] ?? 0) + 1;
+          }
+          total += result.expired.length;
+        } catch (err: any) {
+          api.logger.warn(`memory-tools: expiry of decayed memories${label} failed: ${err?.message || err}`);
+        }
+      }
+      if (total > 0) {
+        const byCategory = Object.entries(expired).map(([category, n]) => `${n} ${category}`).join(', ');
+        api.logger.info(`memory-tools: moved ${total} expired memories to .archive (${byCategory})`);
+      }
+    };
+
     api.registerService({
       id: 'memory-tools',
       start: async () => {
         const count = store.count();
         api.logger.info(`memory-tools: service started (${count} memories, v2)`);
+
+        sweepExpired();
+        expiryTimer = setInterval(sweepExpired, EXPIRY_SWEEP_INTERVAL_MS);
+        expiryTimer.unref();
+
+        if (hasRetentionPolicy) {
+          sweepDeleted();
+          purgeTimer = setInterval(sweepDeleted, DELETED_SWEEP_INTERVAL_MS);
+          purgeTimer.unref();
+        }
       },
       stop: () => {
+        if (purgeTimer) {
+          clearInterval(purgeTimer);
+          purgeTimer = null;
+        }
+        if (expiryTimer) {
+          clearInterval(expiryTimer);
+          expiryTimer = null;
+        }
         store.close();
         api.logger.info('memory-tools: service stopped');
       },
@@ -296,4 +820,56 @@ export * from './types.js';
 export { MemoryStoreV2 as MemoryStore } from './store.js';
 export { createMemoryTools } from './tools.js';
 export { MemoryFileManager } from './file-manager.js';
-export { QMDClient } from './qmd.js';
+export { SqliteBackend } from './sqlite-backend.js';
+export { MemoryConflictError, MemoryExistsError } from './backend.js';
+export type { MemoryBackend, BackendType } from './backend.js';
+export { FileLock, LockTimeoutError } from './lock.js';
+export { MemoryCipher, DecryptionError, type EncryptionMode } from './encryption.js';
+export { GitClient, type GitLogEntry } from './git.js';
+export { CategoryRegistry, DEFAULT_CATEGORIES, type CategoryDefinition, type CategoryConfig } from './categories.js';
+export { AttributeValidationError, ATTRIBUTE_KEYS, type MemoryAttributes, type AttributePatch } from './attributes.js';
+export { formatVCards, parseVCards, importVCards } from './vcard.js';
+export { expiresAt, isExpired, EventEndedError } from './expiry.js';
+export {
+  EventTimeError,
+  RECURRENCES,
+  findEventTime,
+  formatEventTime,
+  nextOccurrence,
+  type ParsedEventTime,
+  type Recurrence,
+} from './events.js';
+export { findUpcoming, formatUpcoming, type UpcomingEventsConfig } from './upcoming.js';
+export { DEFAULT_RANKING, scoreMemory, type RankingConfig, type ScoreBreakdown } from './ranking.js';
+export { runDoctor, type DoctorReport, type DoctorIssue, type DoctorIssueCode } from './doctor.js';
+export { QMDClient, QmdEngine } from './qmd.js';
+export { fuseRankings, resolveSearchMode, searchModeFor, type SearchModeConfig } from './search-modes.js';
+export { InvalidCursorError, matchesSearchFilters } from './filters.js';
+export { QuerySyntaxError, QUERY_FIELDS, parseQuery, combineSearchOptions } from './query-syntax.js';
+export { buildSnippet, formatSnippet, type SearchResultsConfig } from './snippets.js';
+export {
+  registerSearchEngine,
+  searchEngineNames,
+  SearchEngineChain,
+  DEFAULT_SEARCH_ENGINES,
+  DEFAULT_RELATED_SIMILARITY,
+  SEARCH_METHODS,
+  type SearchMethod,
+  type SearchEngine,
+  type SearchEngineContext,
+  type SearchEngineFactory,
+  type SearchEngineStatus,
+  type SearchHit,
+  type SearchQueryOptions,
+  type SimilarOptions,
+} from './search-engine.js';
+export { Bm25Engine, Bm25Index } from './bm25.js';
+export { VectorIndex } from './vector-index.js';
+export {
+  registerEmbeddingProvider,
+  embeddingProviderNames,
+  getEmbeddingProvider,
+  HashedNgramEmbedding,
+  type EmbeddingProvider,
+  type EmbeddingProviderFactory,
+} from './embeddings.js';
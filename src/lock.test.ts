@@ -0,0 +1,184 @@
+/**
+ * Locking and Concurrent Writer Tests
+ *
+ * Spawns several processes writing to the same memories directory at once.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import { FileLock, LockTimeoutError } from './lock.js';
+import { MemoryConflictError } from './backend.js';
+import { MemoryFileManager } from './file-manager.js';
+import { SqliteBackend } from './sqlite-backend.js';
+
+const execFileAsync = promisify(execFile);
+const srcDir = path.dirname(fileURLToPath(import.meta.url));
+const viteNode = path.join(srcDir, '..', 'node_modules', '.bin', 'vite-node');
+
+const WRITERS = 3;
+const ROUNDS = 5;
+
+// Each writer appends its own tags to one shared memory with compare-and-swap,
+// retrying on conflict, and creates and touches memories of its own
+const WRITER_SCRIPT = `
+import { MemoryFileManager } from ${JSON.stringify(path.join(srcDir, 'file-manager.ts'))};
+import { SqliteBackend } from ${JSON.stringify(path.join(srcDir, 'sqlite-backend.ts'))};
+import { MemoryConflictError } from ${JSON.stringify(path.join(srcDir, 'backend.ts'))};
+
+const [type, dir, sharedId, writer, rounds] = process.argv.slice(2);
+const backend = type === 'sqlite' ? new SqliteBackend(dir) : new MemoryFileManager(dir, { watch: false });
+await backend.init();
+
+for (let i = 0; i < Number(rounds); i++) {
+  for (;;) {
+    const current = backend.get(sharedId);
+    try {
+      backend.update(sharedId, { tags: [...current.tags, \`w\${writer}-\${i}\`] }, { actor: \`writer-\${writer}\` }, {
+        expectedUpdatedAt: current.updatedAt,
+      });
+      break;
+    } catch (err) {
+      if (!(err instanceof MemoryConflictError)) throw err;
+    }
+  }
+  const own = backend.create({ content: \`Writer \${writer} note \${i}\`, category: 'fact' });
+  backend.touchMany([own.id, sharedId]);
+}
+backend.close();
+`;
+
+describe('FileLock', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should be re-entrant and release the lock file', () => {
+    const lockPath = path.join(tempDir, '.lock');
+    const lock = new FileLock(lockPath);
+
+    const result = lock.withLock(() => lock.withLock(() => fs.existsSync(lockPath)));
+    expect(result).toBe(true);
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('should time out on a live lock and take over a dead one', () => {
+    const lockPath = path.join(tempDir, '.lock');
+    fs.writeFileSync(lockPath, `${process.pid}\n${os.hostname()}\n`);
+    expect(() => new FileLock(lockPath, { timeoutMs: 50 }).withLock(() => 0)).toThrow(LockTimeoutError);
+
+    // A pid that can't be running
+    fs.writeFileSync(lockPath, `2147483646\n${os.hostname()}\n`);
+    expect(new FileLock(lockPath, { timeoutMs: 50 }).withLock(() => 'taken')).toBe('taken');
+  });
+
+  it('should not take over a lock held for long by a live process', () => {
+    const lockPath = path.join(tempDir, '.lock');
+    fs.writeFileSync(lockPath, `${process.pid}\n${os.hostname()}\n`);
+    const longAgo = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, longAgo, longAgo);
+
+    expect(() => new FileLock(lockPath, { timeoutMs: 50, staleMs: 1000 }).withLock(() => 0)).toThrow(LockTimeoutError);
+    expect(fs.readFileSync(lockPath, 'utf-8')).toBe(`${process.pid}\n${os.hostname()}\n`);
+
+    // From another host only age tells
+    fs.writeFileSync(lockPath, `${process.pid}\nsome-other-host\n`);
+    fs.utimesSync(lockPath, longAgo, longAgo);
+    expect(new FileLock(lockPath, { timeoutMs: 50, staleMs: 1000 }).withLock(() => 'taken')).toBe('taken');
+  });
+
+  it('should not delete a lock another waiter took over first', () => {
+    const lockPath = path.join(tempDir, '.lock');
+    const stale = `2147483646\n${os.hostname()}\n`;
+    fs.writeFileSync(lockPath, stale);
+
+    // Both waiters judged the dead lock stale; the first one is already in
+    const first = new FileLock(lockPath);
+    const second = new FileLock(lockPath, { timeoutMs: 50 });
+    first.withLock(() => {
+      const held = fs.readFileSync(lockPath, 'utf-8');
+      (second as any).takeOver(stale);
+      expect(fs.readFileSync(lockPath, 'utf-8')).toBe(held);
+      expect(() => second.withLock(() => 0)).toThrow(LockTimeoutError);
+    });
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+});
+
+const backends: Array<[string, (dir: string) => MemoryFileManager | SqliteBackend]> = [
+  ['markdown', dir => new MemoryFileManager(dir, { watch: false })],
+  ['sqlite', dir => new SqliteBackend(dir)],
+];
+
+describe.each(backends)('Concurrent writers: %s', (type, createBackend) => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should reject a stale update unless it touches untouched fields', async () => {
+    const backend = createBackend(tempDir);
+    await backend.init();
+    const memory = backend.create({ content: 'Original', category: 'fact' });
+
+    backend.update(memory.id, { content: 'Changed elsewhere' });
+    const stale = { expectedUpdatedAt: memory.updatedAt };
+
+    expect(() => backend.update(memory.id, { content: 'Mine' }, {}, stale)).toThrow(MemoryConflictError);
+    expect(backend.update(memory.id, { importance: 0.9 }, {}, stale)).toMatchObject({
+      content: 'Changed elsewhere',
+      importance: 0.9,
+    });
+    backend.close();
+  });
+
+  it('should not lose updates from processes writing at the same time', async () => {
+    const memoriesDir = path.join(tempDir, 'memories');
+    const backend = createBackend(memoriesDir);
+    await backend.init();
+    const shared = backend.create({ content: 'Shared', category: 'fact' });
+    backend.close();
+
+    const script = path.join(tempDir, 'writer.ts');
+    fs.writeFileSync(script, WRITER_SCRIPT);
+    await Promise.all(
+      Array.from({ length: WRITERS }, (_, writer) =>
+        execFileAsync(viteNode, [script, type, memoriesDir, shared.id, String(writer), String(ROUNDS)])
+      )
+    );
+
+    const reopened = createBackend(memoriesDir);
+    await reopened.init();
+
+    const expected = Array.from({ length: WRITERS }, (_, w) =>
+      Array.from({ length: ROUNDS }, (_, i) => `w${w}-${i}`)
+    ).flat();
+    expect([...reopened.get(shared.id)!.tags].sort()).toEqual(expected.sort());
+    expect(reopened.history(shared.id).map(r => r.revision)).toEqual(
+      Array.from({ length: WRITERS * ROUNDS }, (_, i) => i + 1)
+    );
+    expect(reopened.count()).toBe(1 + WRITERS * ROUNDS);
+    reopened.close();
+
+    const leftovers = fs.readdirSync(memoriesDir, { recursive: true })
+      .map(String)
+      .filter(file => file.endsWith('.tmp') || file.endsWith('.lock'));
+    expect(leftovers).toEqual([]);
+  }, 120000);
+});
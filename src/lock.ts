@@ -0,0 +1,177 @@
+/**
+ * Advisory File Lock
+ *
+ * Serializes writers across processes (gateway, CLI, cron agents) that
+ * share one memories directory. The lock is a file created with O_EXCL;
+ * it holds the owner's pid so a lock left behind by a crashed process
+ * can be taken over. A lock whose owner is still running on this host is
+ * never taken over, however long it's held (a big git commit or
+ * re-encryption can take a while); only a lock from another host, whose
+ * owner can't be checked, is judged by its age. Synchronous, because the storage backends are: a
+ * waiter sleeps with Atomics.wait, which blocks its thread (the gateway's
+ * event loop included) for up to timeoutMs. Locked sections are single
+ * file writes, so waits are normally a few milliseconds.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+export interface FileLockOptions {
+  /** Give up after this long (default 10s); the thread is blocked meanwhile */
+  timeoutMs?: number;
+  /** Treat a lock from another host older than this as abandoned (default 30s) */
+  staleMs?: number;
+}
+
+export class LockTimeoutError extends Error {
+  constructor(public lockPath: string, public timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+const RETRY_MIN_MS = 5;
+const RETRY_MAX_MS = 50;
+
+export class FileLock {
+  private lockPath: string;
+  private timeoutMs: number;
+  private staleMs: number;
+  private depth = 0;
+  // What this process wrote to the lock file, to tell its own lock apart
+  private content: string | null = null;
+
+  constructor(lockPath: string, options: FileLockOptions = {}) {
+    this.lockPath = lockPath;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.staleMs = options.staleMs ?? 30000;
+  }
+
+  /**
+   * Run fn while holding the lock. Re-entrant within a process,
+   * so locked operations can call each other.
+   */
+  withLock<T>(fn: () => T): T {
+    if (this.depth > 0) {
+      this.depth++;
+      try {
+        return fn();
+      } finally {
+        this.depth--;
+      }
+    }
+
+    this.acquire();
+    this.depth = 1;
+    try {
+      return fn();
+    } finally {
+      this.depth = 0;
+      this.release();
+    }
+  }
+
+  private acquire(): void {
+    const deadline = Date.now() + this.timeoutMs;
+    let delay = RETRY_MIN_MS;
+
+    for (;;) {
+      try {
+        const content = `${process.pid}\n${os.hostname()}\n${new Date().toISOString()}\n${randomUUID()}\n`;
+        const fd = fs.openSync(this.lockPath, 'wx');
+        fs.writeSync(fd, content);
+        fs.closeSync(fd);
+        this.content = content;
+        return;
+      } catch (err: any) {
+        if (err.code !== 'EEXIST') throw err;
+      }
+
+      const stale = this.staleContent();
+      if (stale !== null) {
+        this.takeOver(stale);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(this.lockPath, this.timeoutMs);
+      }
+
+      sleep(delay + Math.random() * delay);
+      delay = Math.min(delay * 2, RETRY_MAX_MS);
+    }
+  }
+
+  private release(): void {
+    const content = this.content;
+    this.content = null;
+    try {
+      // Unless it was taken over as stale and is someone else's now
+      if (fs.readFileSync(this.lockPath, 'utf-8') !== content) return;
+    } catch {
+      return;
+    }
+    fs.rmSync(this.lockPath, { force: true });
+  }
+
+  /**
+   * The lock file's content when it's stale (its owner on this host is
+   * gone, or it's from another host and too old), otherwise null
+   */
+  private staleContent(): string | null {
+    let content: string;
+    let mtimeMs: number;
+    try {
+      content = fs.readFileSync(this.lockPath, 'utf-8');
+      mtimeMs = fs.statSync(this.lockPath).mtimeMs;
+    } catch {
+      return null; // Released while we looked - just retry
+    }
+
+    const [pid, host] = content.split('\n');
+    if (host === os.hostname() && Number(pid) > 0) {
+      return isProcessAlive(Number(pid)) ? null : content;
+    }
+
+    // Another host's process can't be checked, so only age tells
+    return Date.now() - mtimeMs > this.staleMs ? content : null;
+  }
+
+  /**
+   * Remove a stale lock. Another waiter may have removed it already and
+   * locked again, so the file is moved aside atomically and checked: a lock
+   * that isn't the stale one is put back instead of deleted.
+   */
+  private takeOver(stale: string): void {
+    const moved = `${this.lockPath}.${process.pid}.${randomUUID().slice(0, 8)}.stale`;
+    try {
+      fs.renameSync(this.lockPath, moved);
+    } catch {
+      return; // Already gone
+    }
+    try {
+      if (fs.readFileSync(moved, 'utf-8') !== stale) {
+        // link fails if a lock appeared meanwhile, which then stands
+        fs.linkSync(moved, this.lockPath);
+      }
+    } catch {
+      // The lock in place stands
+    } finally {
+      fs.rmSync(moved, { force: true });
+    }
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    return err.code === 'EPERM';
+  }
+}
+
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,122 @@
+/**
+ * Memory Index Tests
+ *
+ * The index itself, and the file manager keeping it in sync with files
+ * changed behind its back (the watcher invalidates the changed paths).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { MemoryIndex } from './memory-index.js';
+import { MemoryFileManager, serializeMemory } from './file-manager.js';
+import type { Memory } from './types.js';
+
+function memory(id: string, overrides: Partial<Memory> = {}): Memory {
+  return {
+    id,
+    content: `Memory ${id}`,
+    category: 'fact',
+    confidence: 0.8,
+    importance: 0.5,
+    decayDays: null,
+    createdAt: 0,
+    updatedAt: 0,
+    lastAccessedAt: 0,
+    tags: [],
+    ...overrides,
+  };
+}
+
+describe('MemoryIndex', () => {
+  it('should move a memory between buckets when it is replaced', () => {
+    const index = new MemoryIndex();
+    index.upsert(memory('aaaaaaaa-1', { tags: ['food'] }), '/m/facts/a.md');
+    index.upsert(memory('aaaaaaaa-1', { category: 'preference', tags: ['drink'] }), '/m/preferences/a.md');
+
+    expect(index.size).toBe(1);
+    expect(index.byCategoryIds('fact')).toEqual([]);
+    expect(index.byCategoryIds('preference')).toEqual(['aaaaaaaa-1']);
+    expect(index.byTagIds('food')).toEqual([]);
+    expect(index.getFilePath('aaaaaaaa-1')).toBe('/m/preferences/a.md');
+    expect(index.getByShortId('aaaaaaaa')?.category).toBe('preference');
+  });
+
+  it('should drop what a path held when another memory is written there or it goes away', () => {
+    const index = new MemoryIndex();
+    index.upsert(memory('first'), '/m/facts/x.md');
+    index.upsert(memory('second'), '/m/facts/x.md');
+
+    expect(index.get('first')).toBeNull();
+    expect(index.get('second')).not.toBeNull();
+
+    index.removePath('/m/facts/x.md');
+    expect(index.size).toBe(0);
+    expect(index.byCategoryIds('fact')).toEqual([]);
+  });
+});
+
+describe('MemoryFileManager index invalidation', () => {
+  let tempDir: string;
+  let fileManager: MemoryFileManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    fileManager = new MemoryFileManager(tempDir);
+  });
+
+  afterEach(() => {
+    fileManager.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should pick up a file written by another process', async () => {
+    const created = fileManager.create({ content: 'Before', category: 'fact', tags: ['old'] });
+    expect(fileManager.count()).toBe(1);
+
+    const filePath = path.join(tempDir, 'facts', `${created.id}.md`);
+    fs.writeFileSync(filePath, serializeMemory({ ...created, content: 'After', tags: ['new'] }));
+    fs.writeFileSync(
+      path.join(tempDir, 'facts', 'external.md'),
+      serializeMemory(memory('external', { content: 'Written elsewhere', tags: ['new'] }))
+    );
+
+    await vi.waitFor(() => {
+      expect(fileManager.get(created.id)?.content).toBe('After');
+      expect(fileManager.getByTag('new').map(m => m.id).sort()).toEqual([created.id, 'external'].sort());
+      expect(fileManager.getByTag('old')).toEqual([]);
+    });
+  });
+
+  it('should forget a file deleted by another process', async () => {
+    const kept = fileManager.create({ content: 'Kept', category: 'fact' });
+    const removed = fileManager.create({ content: 'Removed', category: 'fact', tags: ['gone'] });
+    expect(fileManager.count()).toBe(2);
+
+    fs.unlinkSync(path.join(tempDir, 'facts', `${removed.id}.md`));
+
+    await vi.waitFor(() => {
+      expect(fileManager.get(removed.id)).toBeNull();
+      expect(fileManager.get(removed.id.slice(0, 8))).toBeNull();
+      expect(fileManager.getByTag('gone')).toEqual([]);
+      expect(fileManager.count()).toBe(1);
+    });
+    expect(fileManager.get(kept.id)?.content).toBe('Kept');
+  });
+
+  it('should follow a file renamed or moved by another process', async () => {
+    const renamed = fileManager.create({ content: 'Has a dog', category: 'fact' });
+    const moved = fileManager.create({ content: 'Likes tea', category: 'fact' });
+    expect(fileManager.count()).toBe(2);
+
+    fs.renameSync(path.join(tempDir, 'facts', `${renamed.id}.md`), path.join(tempDir, 'facts', 'dog.md'));
+    fs.renameSync(path.join(tempDir, 'facts', `${moved.id}.md`), path.join(tempDir, `${moved.id}.md`));
+
+    await vi.waitFor(() => {
+      expect(fileManager.get(renamed.id)?.content).toBe('Has a dog');
+      expect(fileManager.get(moved.id)).toBeNull();
+      expect(fileManager.count()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * In-process Memory Index
+ *
+ * Keeps parsed Memory objects in memory, keyed by id, short id,
+ * category and tag, so reads don't have to re-parse every markdown file.
+ * The file manager owns the index and keeps it in sync with disk.
+ */
+
+import type { Memory, MemoryCategory } from './types.js';
+
+interface IndexEntry {
+  memory: Memory;
+  filePath: string;
+}
+
+const SHORT_ID_LENGTH = 8;
+
+export class MemoryIndex {
+  private byId = new Map<string, IndexEntry>();
+  private byPath = new Map<string, string>();
+  private byShortId = new Map<string, Set<string>>();
+  private byCategory = new Map<MemoryCategory, Set<string>>();
+  private byTag = new Map<string, Set<string>>();
+
+  /**
+   * Add or replace a memory loaded from (or written to) filePath
+   */
+  upsert(memory: Memory, filePath: string): void {
+    if (this.byId.has(memory.id)) {
+      this.remove(memory.id);
+    }
+
+    // A different memory may previously have lived at this path
+    const previousId = this.byPath.get(filePath);
+    if (previousId !== undefined) {
+      this.remove(previousId);
+    }
+
+    this.byId.set(memory.id, { memory, filePath });
+    this.byPath.set(filePath, memory.id);
+    addToBucket(this.byShortId, memory.id.slice(0, SHORT_ID_LENGTH), memory.id);
+    addToBucket(this.byCategory, memory.category, memory.id);
+    for (const tag of memory.tags) {
+      addToBucket(this.byTag, tag, memory.id);
+    }
+  }
+
+  /**
+   * Remove a memory by id
+   */
+  remove(id: string): void {
+    const entry = this.byId.get(id);
+    if (!entry) return;
+
+    this.byId.delete(id);
+    if (this.byPath.get(entry.filePath) === id) {
+      this.byPath.delete(entry.filePath);
+    }
+    removeFromBucket(this.byShortId, id.slice(0, SHORT_ID_LENGTH), id);
+    removeFromBucket(this.byCategory, entry.memory.category, id);
+    for (const tag of entry.memory.tags) {
+      removeFromBucket(this.byTag, tag, id);
+    }
+  }
+
+  /**
+   * Remove whatever memory was loaded from filePath
+   */
+  removePath(filePath: string): void {
+    const id = this.byPath.get(filePath);
+    if (id !== undefined) {
+      this.remove(id);
+    }
+  }
+
+  get(id: string): Memory | null {
+    return this.byId.get(id)?.memory ?? null;
+  }
+
+  getFilePath(id: string): string | null {
+    return this.byId.get(id)?.filePath ?? null;
+  }
+
+  /**
+   * Resolve an 8-character short id to a memory (first match wins)
+   */
+  getByShortId(shortId: string): Memory | null {
+    const ids = this.byShortId.get(shortId);
+    if (!ids) return null;
+    for (const id of ids) {
+      return this.byId.get(id)?.memory ?? null;
+    }
+    return null;
+  }
+
+  byCategoryIds(category: MemoryCategory): string[] {
+    return [...(this.byCategory.get(category) ?? [])];
+  }
+
+  byTagIds(tag: string): string[] {
+    return [...(this.byTag.get(tag) ?? [])];
+  }
+
+  getMany(ids: Iterable<string>): Memory[] {
+    const memories: Memory[] = [];
+    for (const id of ids) {
+      const entry = this.byId.get(id);
+      if (entry) memories.push(entry.memory);
+    }
+    return memories;
+  }
+
+  all(): Memory[] {
+    return [...this.byId.values()].map(e => e.memory);
+  }
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  clear(): void {
+    this.byId.clear();
+    this.byPath.clear();
+    this.byShortId.clear();
+    this.byCategory.clear();
+    this.byTag.clear();
+  }
+}
+
+function addToBucket<K>(map: Map<K, Set<string>>, key: K, id: string): void {
+  let bucket = map.get(key);
+  if (!bucket) {
+    bucket = new Set();
+    map.set(key, bucket);
+  }
+  bucket.add(id);
+}
+
+function removeFromBucket<K>(map: Map<K, Set<string>>, key: K, id: string): void {
+  const bucket = map.get(key);
+  if (!bucket) return;
+  bucket.delete(id);
+  if (bucket.size === 0) map.delete(key);
+}
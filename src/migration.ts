@@ -8,7 +8,8 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import initSqlJs from 'sql.js';
-import { MemoryFileManager } from './file-manager.js';
+import { MemoryFileManager, serializeMemory } from './file-manager.js';
+import { DEFAULT_CATEGORIES, type CategoryRegistry } from './categories.js';
 import type { Memory, MemoryCategory } from './types.js';
 
 interface LegacyMemoryRow {
@@ -51,13 +52,11 @@ export function hasLegacyDatabase(legacyDbPath: string): boolean {
 /**
  * Check if new v2 memories directory exists and has content
  */
-export function hasNewMemories(memoriesPath: string): boolean {
+export function hasNewMemories(memoriesPath: string, categories: CategoryRegistry = DEFAULT_CATEGORIES): boolean {
   if (!fs.existsSync(memoriesPath)) return false;
 
   // Check if any category directory has .md files
-  const categories = ['facts', 'preferences', 'events', 'relationships', 'contexts', 'instructions', 'decisions', 'entities'];
-
-  for (const cat of categories) {
+  for (const cat of categories.all().map(category => category.dir)) {
     const catDir = path.join(memoriesPath, cat);
     if (fs.existsSync(catDir)) {
       const files = fs.readdirSync(catDir).filter(f => f.endsWith('.md'));
@@ -98,7 +97,7 @@ export async function migrateFromV1(
     const db = new SQL.Database(buffer);
 
     // Create file manager for new storage
-    const fileManager = new MemoryFileManager(newMemoriesPath);
+    const fileManager = new MemoryFileManager(newMemoriesPath, { watch: false });
 
     // Read all memories from SQLite
     const stmt = db.prepare(`
@@ -231,27 +230,7 @@ function writeMemoryFile(fileManager: MemoryFileManager, memory: Memory): void {
  * Write a memory to a specific file path
  */
 function writeMemoryToFile(memory: Memory, filePath: string): void {
-  const frontmatter = [
-    `id: ${memory.id}`,
-    `category: ${memory.category}`,
-    `confidence: ${memory.confidence}`,
-    `importance: ${memory.importance}`,
-    `created_at: ${new Date(memory.createdAt).toISOString()}`,
-    `updated_at: ${new Date(memory.updatedAt).toISOString()}`,
-    `last_accessed_at: ${memory.lastAccessedAt ? new Date(memory.lastAccessedAt).toISOString() : 'null'}`,
-    `decay_days: ${memory.decayDays ?? 'null'}`,
-    `source_channel: ${memory.sourceChannel || 'null'}`,
-    `source_message_id: ${memory.sourceMessageId || 'null'}`,
-    `tags: [${memory.tags.map(t => `"${t}"`).join(', ')}]`,
-    `supersedes: ${memory.supersedes || 'null'}`,
-  ];
-
-  if (memory.deletedAt) {
-    frontmatter.push(`deleted_at: ${new Date(memory.deletedAt).toISOString()}`);
-    frontmatter.push(`delete_reason: ${memory.deleteReason || 'null'}`);
-  }
-
-  const content = `---\n${frontmatter.join('\n')}\n---\n\n${memory.content}\n`;
+  const content = serializeMemory(memory);
 
   // Ensure directory exists
   const dir = path.dirname(filePath);
@@ -262,18 +241,9 @@ function writeMemoryToFile(memory: Memory, filePath: string): void {
   fs.writeFileSync(filePath, content, 'utf-8');
 }
 
+// v1 only had the built-in categories
 function getCategoryDir(category: MemoryCategory): string {
-  const map: Record<MemoryCategory, string> = {
-    fact: 'facts',
-    preference: 'preferences',
-    event: 'events',
-    relationship: 'relationships',
-    context: 'contexts',
-    instruction: 'instructions',
-    decision: 'decisions',
-    entity: 'entities',
-  };
-  return map[category];
+  return DEFAULT_CATEGORIES.dirOf(category);
 }
 
 /**
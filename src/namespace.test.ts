@@ -0,0 +1,49 @@
+/**
+ * Memory Namespace Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { namespaceCollection, normalizeNamespace, resolveNamespace } from './namespace.js';
+
+describe('normalizeNamespace', () => {
+  it('should keep safe namespaces and hash the ones it rewrites', () => {
+    expect(normalizeNamespace('telegram-1001')).toBe('telegram-1001');
+
+    const rewritten = normalizeNamespace('WhatsApp +1 555 0001');
+    expect(rewritten).toMatch(/^whatsapp-1-555-0001-[0-9a-f]{8}$/);
+    expect(normalizeNamespace('WHATSAPP +1 555 0001')).not.toBe(rewritten);
+    expect(normalizeNamespace('../..')).toMatch(/^[0-9a-f]{8}$/);
+    expect(normalizeNamespace('x'.repeat(100)).length).toBeLessThanOrEqual(40);
+  });
+});
+
+describe('namespaceCollection', () => {
+  it('should keep long namespaces apart within the collection name limit', () => {
+    const a = namespaceCollection('m'.repeat(80), 'a'.repeat(40));
+    const b = namespaceCollection('m'.repeat(80), `${'a'.repeat(39)}b`);
+
+    expect(a).not.toBe(b);
+    expect(a.length).toBeLessThanOrEqual(64);
+    expect(namespaceCollection('memories', 'telegram-1001')).toMatch(/^memories-[0-9a-f]{12}$/);
+  });
+});
+
+describe('resolveNamespace', () => {
+  const ctx = { agentId: 'main', sessionKey: 'agent:main:telegram:1001', messageChannel: 'telegram', requesterSenderId: '1001' };
+
+  it('should pick the namespace the strategy asks for', () => {
+    expect(resolveNamespace(ctx, 'none')).toBeUndefined();
+    expect(resolveNamespace(ctx, 'sender')).toBe('telegram-1001');
+    expect(resolveNamespace(ctx, 'agent')).toBe('main');
+    expect(resolveNamespace(ctx, 'session')).toBe(normalizeNamespace('agent:main:telegram:1001'));
+    expect(resolveNamespace({ requesterSenderId: '1001' }, 'sender')).toBe('unknown-1001');
+  });
+
+  it('should give callers it cannot identify no namespace at all', () => {
+    expect(resolveNamespace(undefined, 'none')).toBeUndefined();
+    expect(resolveNamespace(undefined, 'sender')).toBeNull();
+    expect(resolveNamespace({ agentId: 'main' }, 'sender')).toBeNull();
+    expect(resolveNamespace({ requesterSenderId: '1001' }, 'agent')).toBeNull();
+    expect(resolveNamespace({ agentId: 'main' }, 'session')).toBeNull();
+  });
+});
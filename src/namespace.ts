@@ -0,0 +1,75 @@
+/**
+ * Memory Namespaces
+ *
+ * Partitions memories by who they belong to, so one plugin install can
+ * serve several people without one person's memories leaking into
+ * another's conversations. Each namespace gets its own directory under
+ * <memoriesPath>/namespaces/ and its own QMD collection.
+ */
+
+import { createHash } from 'node:crypto';
+import type { OpenClawPluginToolContext } from './plugin-types.js';
+
+export const NAMESPACE_STRATEGIES = [
+  'none',     // Everyone shares the default namespace (single-user installs)
+  'sender',   // One namespace per person per channel
+  'agent',    // One namespace per agent
+  'session',  // One namespace per conversation session
+] as const;
+
+export type NamespaceStrategy = typeof NAMESPACE_STRATEGIES[number];
+
+// Directory under memoriesPath that holds the per-namespace partitions
+export const NAMESPACES_DIR = 'namespaces';
+
+const SAFE_NAMESPACE = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+/**
+ * Turn an arbitrary identifier into a namespace that is safe to use as a
+ * directory and QMD collection suffix. Identifiers that need rewriting get
+ * a hash suffix so distinct inputs can't collide.
+ */
+export function normalizeNamespace(raw: string): string {
+  if (SAFE_NAMESPACE.test(raw)) return raw;
+
+  const slug = raw
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .slice(0, 31)
+    .replace(/^[-_]+|[-_]+$/g, '');
+  const hash = createHash('sha256').update(raw).digest('hex').slice(0, 8);
+  return slug ? `${slug}-${hash}` : hash;
+}
+
+/**
+ * QMD collection of a namespace: the base collection plus a short hash of
+ * the namespace, so long namespaces can't be cut down to the same name
+ */
+export function namespaceCollection(collection: string, namespace: string): string {
+  const hash = createHash('sha256').update(namespace).digest('hex').slice(0, 12);
+  return `${collection.slice(0, 64 - hash.length - 1)}-${hash}`;
+}
+
+/**
+ * Resolve the namespace for a tool call or hook from its execution context.
+ * Returns undefined for the default namespace, and null when the strategy
+ * can't identify the caller: unidentified callers get no namespace at all,
+ * since a shared one would let them read and forget each other's memories.
+ */
+export function resolveNamespace(
+  ctx: Pick<OpenClawPluginToolContext, 'agentId' | 'sessionKey' | 'messageChannel' | 'requesterSenderId'> | undefined,
+  strategy: NamespaceStrategy
+): string | undefined | null {
+  switch (strategy) {
+    case 'none':
+      return undefined;
+    case 'sender':
+      return ctx?.requesterSenderId
+        ? normalizeNamespace(`${ctx.messageChannel ?? 'unknown'}-${ctx.requesterSenderId}`)
+        : null;
+    case 'agent':
+      return ctx?.agentId ? normalizeNamespace(ctx.agentId) : null;
+    case 'session':
+      return ctx?.sessionKey ? normalizeNamespace(ctx.sessionKey) : null;
+  }
+}
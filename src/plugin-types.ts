@@ -21,7 +21,10 @@ export interface OpenClawPluginApi {
   config: Record<string, unknown>;
   pluginConfig?: Record<string, unknown>;
   logger: PluginLogger;
-  registerTool: (tool: AnyAgentTool, opts?: { name?: string }) => void;
+  registerTool: (
+    tool: AnyAgentTool | ((ctx: OpenClawPluginToolContext) => AnyAgentTool | null | undefined),
+    opts?: { name?: string }
+  ) => void;
   registerHook: (events: string | string[], handler: unknown, opts?: unknown) => void;
   registerCli: (registrar: (ctx: { program: unknown }) => void, opts?: { commands?: string[] }) => void;
   registerService: (service: { id: string; start: () => void; stop?: () => void }) => void;
@@ -29,6 +32,31 @@ export interface OpenClawPluginApi {
   on: (hookName: string, handler: unknown, opts?: { priority?: number }) => void;
 }
 
+/**
+ * Context passed to tool factories for each agent run
+ */
+export interface OpenClawPluginToolContext {
+  agentId?: string;
+  sessionKey?: string;
+  messageChannel?: string;
+  agentAccountId?: string;
+  requesterSenderId?: string;
+  workspaceDir?: string;
+  sandboxed?: boolean;
+}
+
+/**
+ * Context passed to agent lifecycle hooks such as before_agent_start
+ */
+export interface PluginHookAgentContext {
+  agentId?: string;
+  sessionKey?: string;
+  messageProvider?: string;
+  /** Sender of the message that started the run, when the channel knows it */
+  requesterSenderId?: string;
+  workspaceDir?: string;
+}
+
 export interface AnyAgentTool {
   name: string;
   label?: string;
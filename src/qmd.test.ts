@@ -0,0 +1,53 @@
+/**
+ * QMD Client Tests
+ *
+ * QMD itself isn't needed: its CLI is stubbed at the process boundary.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { QMDClient, COLLECTION_MASK } from './qmd.js';
+
+function stubbedClient(collections: string) {
+  const client = new QMDClient('/memories', 'memories');
+  const calls: string[][] = [];
+  vi.spyOn(client as any, 'runQmd').mockImplementation(async (...params: unknown[]) => {
+    const args = params[0] as string[];
+    calls.push(args);
+    return { stdout: args[0] === 'collection' && args[1] === 'list' ? collections : '', stderr: '' };
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  return { client, calls };
+}
+
+describe('QMDClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should create the collection over memory files only', async () => {
+    const { client, calls } = stubbedClient('Collections (1):\n  notes (qmd://notes/)\n');
+
+    await client.ensureCollection();
+
+    expect(calls).toContainEqual(['collection', 'add', '/memories', '--name', 'memories', '--mask', COLLECTION_MASK]);
+  });
+
+  it('should leave an existing collection as it is', async () => {
+    const { client, calls } = stubbedClient('Collections (1):\n  memories (qmd://memories/)\n');
+
+    await client.ensureCollection();
+
+    expect(calls.some(args => args[1] === 'add')).toBe(false);
+  });
+
+  it('should never return internal files an older collection still indexes', () => {
+    const client = new QMDClient('/memories', 'memories', { excludeDirs: ['namespaces'] });
+    const id = 'abc12345-def4-5678-90ab-cdef12345678';
+    const result = (filepath: string) => ({ docid: '1', filepath, score: 1 });
+
+    expect(client.extractMemoryId(result(`qmd://memories/facts/${id}.md`))).toBe(id);
+    for (const dir of ['.deleted', '.archive', `.history/${id}`, `namespaces/bob/facts`]) {
+      expect(client.extractMemoryId(result(`qmd://memories/${dir}/${id}.md`))).toBeNull();
+    }
+  });
+});
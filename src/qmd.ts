@@ -6,6 +6,13 @@
  */
 
 import { spawn } from 'node:child_process';
+import type {
+  SearchEngine,
+  SearchEngineStatus,
+  SearchHit,
+  SearchQueryOptions,
+  SimilarOptions,
+} from './search-engine.js';
 
 export interface QMDSearchResult {
   docid: string;
@@ -18,6 +25,11 @@ export interface QMDSearchResult {
   snippet?: string;
 }
 
+// Files a collection indexes: memories sit directly in their category
+// directory, so this leaves out dot-directories (.deleted, .archive,
+// .history, .index) and namespace partitions, which are deeper
+export const COLLECTION_MASK = '[!.]*/*.md';
+
 export interface QMDStatus {
   collections: Array<{
     name: string;
@@ -37,10 +49,17 @@ export class QMDClient {
   private pendingUpdate: boolean = false;
   private disabled: boolean = false;
   private disableReason: string | null = null;
+  private excludeDirs: Set<string>;
 
-  constructor(memoriesPath: string, collectionName: string = 'memories', options?: { disabled?: boolean }) {
+  constructor(
+    memoriesPath: string,
+    collectionName: string = 'memories',
+    options?: { disabled?: boolean; excludeDirs?: string[] }
+  ) {
     this.memoriesPath = memoriesPath;
     this.collectionName = this.validateCollectionName(collectionName);
+    // Top-level directories that belong to other collections (e.g. namespaces)
+    this.excludeDirs = new Set(options?.excludeDirs ?? []);
     // Allow disabling QMD for tests via env var or option
     this.disabled = options?.disabled || process.env.MEMORY_TOOLS_DISABLE_QMD === 'true';
   }
@@ -55,6 +74,17 @@ export class QMDClient {
     return this.qmdAvailable;
   }
 
+  getCollectionName(): string {
+    return this.collectionName;
+  }
+
+  /**
+   * Whether QMD can be used: installed and not disabled
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.checkQMDAvailable();
+  }
+
   /**
    * Check if QMD is installed
    */
@@ -90,10 +120,7 @@ export class QMDClient {
                      stdout.includes(`${this.collectionName}(`);
 
       if (!exists) {
-        // Create collection
-        await this.runQmd(['collection', 'add', this.memoriesPath, '--name', this.collectionName], {
-          timeout: 30000,
-        });
+        await this.addCollection();
         console.log(`[memory-tools] Created QMD collection: ${this.collectionName}`);
 
         // Initial embedding
@@ -104,9 +131,7 @@ export class QMDClient {
     } catch (err: any) {
       // Collection list might fail if no collections exist yet
       if (err.message?.includes('No collections') || err.message?.includes('Collections (0)')) {
-        await this.runQmd(['collection', 'add', this.memoriesPath, '--name', this.collectionName], {
-          timeout: 30000,
-        });
+        await this.addCollection();
         await this.forceUpdate();
         this.initialized = true;
       } else {
@@ -116,6 +141,16 @@ export class QMDClient {
     }
   }
 
+  /**
+   * Create the collection over the memory files only (see COLLECTION_MASK)
+   */
+  private async addCollection(): Promise<void> {
+    await this.runQmd(
+      ['collection', 'add', this.memoriesPath, '--name', this.collectionName, '--mask', COLLECTION_MASK],
+      { timeout: 30000 }
+    );
+  }
+
   /**
    * Hybrid search (BM25 + vector + reranking)
    * This is the highest quality search mode
@@ -186,8 +221,8 @@ export class QMDClient {
   /**
    * Find similar documents (for duplicate detection)
    */
-  async findSimilar(content: string, threshold: number = 0.9): Promise<QMDSearchResult[]> {
-    const results = await this.vectorSearch(content, 3);
+  async findSimilar(content: string, threshold: number = 0.9, limit: number = 3): Promise<QMDSearchResult[]> {
+    const results = await this.vectorSearch(content, limit);
 
     // Filter by threshold
     return results.filter(r => r.score >= threshold);
@@ -256,6 +291,29 @@ export class QMDClient {
     }
   }
 
+  /**
+   * Files in this collection's index, relative to memoriesPath.
+   * Null when QMD is unavailable or the listing fails.
+   */
+  async listIndexedFiles(): Promise<string[] | null> {
+    if (!(await this.checkQMDAvailable())) return null;
+
+    try {
+      const { stdout } = await this.runQmd(['ls', this.collectionName], { timeout: 30000 });
+      const prefix = `qmd://${this.collectionName}/`;
+      const files = new Set<string>();
+      for (const match of stdout.matchAll(/\S+\.md\b/g)) {
+        let file = match[0];
+        if (file.startsWith(prefix)) file = file.slice(prefix.length);
+        else if (file.startsWith(`${this.collectionName}/`)) file = file.slice(this.collectionName.length + 1);
+        files.add(file.replace(/^\/+/, ''));
+      }
+      return [...files];
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Extract memory ID from QMD filepath result
    */
@@ -267,6 +325,14 @@ export class QMDClient {
 
     const filepath = result.filepath || result.file || '';
 
+    // Soft-deleted memories (.deleted/) and other internal files live in
+    // dot-directories. The collection's mask leaves them out, but one
+    // created by an older version may still index them - they must never
+    // surface as results.
+    if (this.isInternalPath(filepath)) {
+      return null;
+    }
+
     // Try to extract UUID
     const uuidMatch = filepath.match(/([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})\.md$/i);
     if (uuidMatch) {
@@ -282,6 +348,26 @@ export class QMDClient {
     return null;
   }
 
+  /**
+   * Whether a result path points inside a dot-directory of the collection,
+   * or inside a top-level directory excluded from it
+   */
+  private isInternalPath(filepath: string): boolean {
+    let relative = filepath.replace(/\\/g, '/');
+    const collectionPrefix = `qmd://${this.collectionName}/`;
+    if (relative.startsWith(collectionPrefix)) {
+      relative = relative.slice(collectionPrefix.length);
+    } else if (relative.startsWith(this.memoriesPath)) {
+      relative = relative.slice(this.memoriesPath.length);
+    } else if (relative.startsWith(`${this.collectionName}/`)) {
+      relative = relative.slice(this.collectionName.length + 1);
+    }
+
+    const dirs = relative.replace(/^\/+/, '').split('/').slice(0, -1);
+    if (dirs.length > 0 && this.excludeDirs.has(dirs[0])) return true;
+    return dirs.some(segment => segment.startsWith('.'));
+  }
+
   private validateCollectionName(name: string): string {
     if (!/^[A-Za-z0-9_-]{1,64}$/.test(name)) {
       throw new Error(
@@ -386,3 +472,73 @@ export class QMDClient {
     }
   }
 }
+
+/**
+ * QMD as a search engine. QMD indexes the files itself, so index and
+ * remove only schedule a `qmd update`, and results are mapped from file
+ * paths back to memory ids. Its methods are `qmd query` (hybrid, with
+ * reranking), `qmd search` (keyword) and `qmd vsearch` (semantic).
+ */
+export class QmdEngine implements SearchEngine {
+  readonly name = 'qmd';
+  readonly methods = ['hybrid', 'keyword', 'semantic'] as const;
+  private client: QMDClient;
+
+  constructor(client: QMDClient) {
+    this.client = client;
+  }
+
+  async init(): Promise<void> {
+    if (await this.client.isAvailable()) await this.client.ensureCollection();
+  }
+
+  index(): void {
+    this.client.scheduleUpdate();
+  }
+
+  remove(): void {
+    this.client.scheduleUpdate();
+  }
+
+  async query(query: string, options: SearchQueryOptions): Promise<SearchHit[]> {
+    const search = {
+      hybrid: () => this.client.query(query, options.limit),
+      keyword: () => this.client.search(query, options.limit),
+      semantic: () => this.client.vectorSearch(query, options.limit),
+    }[options.method ?? 'hybrid'];
+    const results = await search();
+    return this.toHits(results, options.accept).slice(0, options.limit);
+  }
+
+  async findSimilar(content: string, options: SimilarOptions): Promise<SearchHit[]> {
+    const results = await this.client.findSimilar(content, options.threshold, options.limit);
+    return this.toHits(results, options.accept);
+  }
+
+  async status(): Promise<SearchEngineStatus> {
+    if (!(await this.client.isAvailable())) {
+      return { name: this.name, available: false, detail: 'not installed or disabled' };
+    }
+    const status = await this.client.status();
+    const documents = status?.collections.find(c => c.name === this.client.getCollectionName())?.documents;
+    return { name: this.name, available: true, ...(documents !== undefined ? { documents } : {}) };
+  }
+
+  async rebuild(): Promise<void> {
+    if (await this.client.isAvailable()) await this.client.forceUpdate();
+  }
+
+  /**
+   * Memory ids of results, best first, each once (QMD can return several
+   * chunks of a file), with the snippet of the best chunk
+   */
+  private toHits(results: QMDSearchResult[], accept?: (id: string) => boolean): SearchHit[] {
+    const hits = new Map<string, SearchHit>();
+    for (const result of results) {
+      const id = this.client.extractMemoryId(result);
+      if (!id || hits.has(id) || (accept && !accept(id))) continue;
+      hits.set(id, { id, score: result.score, ...(result.snippet ? { snippet: result.snippet } : {}) });
+    }
+    return [...hits.values()];
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Query Syntax Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QuerySyntaxError, combineSearchOptions, parseQuery } from './query-syntax.js';
+import { EventTimeError } from './events.js';
+
+const context = { timeZone: 'UTC', now: Date.UTC(2026, 2, 4, 12), categories: ['preference', 'fact'] };
+
+describe('parseQuery', () => {
+  it('should turn qualifiers into search options and keep the rest as text', () => {
+    const parsed = parseQuery(
+      'category:preference tag:food -tag:old tag:tea,coffee since:2026-01-01 channel:telegram "dark mode" at 10:30',
+      context
+    );
+    expect(parsed).toEqual({
+      text: 'dark mode at 10:30',
+      options: {
+        categories: ['preference'],
+        tags: ['food'],
+        excludeTags: ['old'],
+        anyTags: ['tea', 'coffee'],
+        sourceChannel: 'telegram',
+        createdFrom: Date.UTC(2026, 0, 1),
+      },
+    });
+
+    expect(parseQuery('name:"Sarah Connor" sort:createdat order:ASC importance:0.5 created:2026-03-01', context).options).toEqual({
+      attributes: { name: 'Sarah Connor' },
+      sortBy: 'createdAt',
+      sortOrder: 'asc',
+      minImportance: 0.5,
+      createdFrom: Date.UTC(2026, 2, 1),
+      createdTo: Date.UTC(2026, 2, 2),
+    });
+    expect(parseQuery('tag:ui', context)).toEqual({ options: { tags: ['ui'] } });
+  });
+
+  it('should name the field of a mistake', () => {
+    const fieldOf = (query: string) => {
+      try {
+        parseQuery(query, context);
+      } catch (err) {
+        if (err instanceof QuerySyntaxError || err instanceof EventTimeError) return err.field;
+        throw err;
+      }
+      return null;
+    };
+
+    expect(fieldOf('category:recipes')).toBe('category');
+    expect(fieldOf('-channel:telegram')).toBe('channel');
+    expect(fieldOf('channel:a channel:b')).toBe('channel');
+    expect(fieldOf('importance:high')).toBe('importance');
+    expect(fieldOf('since:someday')).toBe('since');
+    expect(fieldOf('"dark mode')).toBe('');
+  });
+
+  it('should keep unknown fields, prose colons and URLs as text', () => {
+    expect(parseQuery('catgory:preference', context)).toEqual({ text: 'catgory:preference', options: {} });
+    expect(parseQuery('Note: dentist re: budget', context)).toEqual({ text: 'Note: dentist re: budget', options: {} });
+    expect(parseQuery('email from: mom', context)).toEqual({ text: 'email from: mom', options: {} });
+    expect(parseQuery('repo https://github.com/openclaw/openclaw tag:dev', context)).toEqual({
+      text: 'repo https://github.com/openclaw/openclaw',
+      options: { tags: ['dev'] },
+    });
+    expect(parseQuery('"https://example.com" to:', context)).toEqual({ text: 'https://example.com to:', options: {} });
+  });
+});
+
+describe('combineSearchOptions', () => {
+  it('should join lists and let given values win', () => {
+    expect(combineSearchOptions(
+      { tags: ['a'], minConfidence: 0.9, attributes: { name: 'Sarah' } },
+      { tags: ['b'], minConfidence: 0.5, attributes: { email: 's@example.com' }, query: undefined }
+    )).toEqual({ tags: ['a', 'b'], minConfidence: 0.5, attributes: { name: 'Sarah', email: 's@example.com' } });
+  });
+});
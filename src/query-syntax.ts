@@ -0,0 +1,259 @@
+/**
+ * Search Query Syntax
+ *
+ * Filters typed into the query itself, for memory_search and the search
+ * command:
+ *
+ *   category:preference tag:food -tag:old since:2026-01-01 channel:telegram "dark mode"
+ *
+ * Qualifiers become SearchOptions; the rest (words and quoted phrases) is
+ * the text the engines search for. Fields:
+ *   category:NAME          in this category (repeat for any of several)
+ *   tag:NAME  -tag:NAME    has the tag (repeat for all of several) / hasn't it;
+ *                          tag:food,drink has at least one of them
+ *   channel:NAME           learned in this channel
+ *   since:DATE until:DATE  created from / up to the end of a date
+ *   created:DATE updated:DATE accessed:DATE
+ *                          created / last changed / last accessed that day
+ *   from:DATE to:DATE      events in this range (like memory_search from/to)
+ *   importance:N confidence:N
+ *                          at least this (0-1)
+ *   sort:FIELD order:asc|desc mode:MODE
+ *   name:VALUE email:VALUE ... exact match on an attribute
+ *
+ * Values with spaces go in quotes (since:"last week"). Only these field
+ * names directly followed by a value are filters: other words with a colon
+ * ("Note:", "re: budget", "https://...") stay search text, as do known
+ * names with nothing after the colon ("email from: mom").
+ */
+
+import { SEARCH_SORTS, type SearchOptions } from './types.js';
+import { ATTRIBUTE_KEYS, type AttributeKey } from './attributes.js';
+import { parseEventTime, resolveDateRange, type DateContext } from './events.js';
+import { isSearchMode } from './search-modes.js';
+
+export class QuerySyntaxError extends Error {
+  readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(`Invalid query: ${field ? `${field}: ` : ''}${message}`);
+    this.name = 'QuerySyntaxError';
+    this.field = field;
+  }
+}
+
+export interface QueryContext extends DateContext {
+  /** Known category names; others are errors. Unchecked when unset. */
+  categories?: readonly string[];
+}
+
+export interface ParsedQuery {
+  /** What's left to search for, undefined when the query was only filters */
+  text?: string;
+  options: SearchOptions;
+}
+
+export const QUERY_FIELDS = [
+  'category', 'tag', 'channel', 'since', 'until', 'created', 'updated', 'accessed',
+  'from', 'to', 'importance', 'confidence', 'sort', 'order', 'mode', ...ATTRIBUTE_KEYS,
+] as const;
+
+type QueryField = typeof QUERY_FIELDS[number];
+
+interface Token {
+  negated: boolean;
+  field?: QueryField;
+  value: string;
+}
+
+/**
+ * Split a query into its filters and search text. Throws QuerySyntaxError,
+ * or EventTimeError for dates it can't read.
+ */
+export function parseQuery(query: string, context: QueryContext = {}): ParsedQuery {
+  const options: SearchOptions = {};
+  const text: string[] = [];
+  const dates: Partial<Record<'since' | 'until' | 'from' | 'to', string>> = {};
+  const seen = new Set<string>();
+
+  // Fields that take one value
+  const once = (field: string) => {
+    if (seen.has(field)) throw new QuerySyntaxError(field, 'given more than once');
+    seen.add(field);
+  };
+
+  for (const token of tokenize(query)) {
+    if (token.field === undefined) {
+      if (token.value) text.push(token.negated ? `-${token.value}` : token.value);
+      continue;
+    }
+
+    const field = token.field;
+    if (token.negated && field !== 'tag') {
+      throw new QuerySyntaxError(field, 'only tag: can be negated');
+    }
+    const value = token.value;
+    if (!value) throw new QuerySyntaxError(field, 'needs a value');
+
+    switch (field) {
+      case 'category':
+        if (context.categories && !context.categories.includes(value)) {
+          throw new QuerySyntaxError(field, `unknown category "${value}" (known: ${context.categories.join(', ')})`);
+        }
+        (options.categories ??= []).push(value);
+        break;
+      case 'tag': {
+        const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+        if (token.negated) {
+          (options.excludeTags ??= []).push(...tags);
+        } else if (tags.length > 1) {
+          if (options.anyTags) throw new QuerySyntaxError(field, 'only one tag:a,b (any of) list is allowed');
+          options.anyTags = tags;
+        } else {
+          (options.tags ??= []).push(...tags);
+        }
+        break;
+      }
+      case 'channel':
+        once(field);
+        options.sourceChannel = value;
+        break;
+      case 'since':
+      case 'until':
+      case 'from':
+      case 'to':
+        once(field);
+        dates[field] = value;
+        break;
+      case 'created':
+      case 'updated':
+      case 'accessed': {
+        once(field);
+        const day = parseEventTime(value, field, context);
+        options[`${field}From`] = day.start;
+        if (day.end !== undefined) options[`${field}To`] = day.end;
+        break;
+      }
+      case 'importance':
+      case 'confidence': {
+        once(field);
+        const min = Number(value);
+        if (!Number.isFinite(min) || min < 0 || min > 1) {
+          throw new QuerySyntaxError(field, `"${value}" is not a number from 0 to 1`);
+        }
+        options[field === 'importance' ? 'minImportance' : 'minConfidence'] = min;
+        break;
+      }
+      case 'sort': {
+        once(field);
+        const sortBy = SEARCH_SORTS.find(sort => sort.toLowerCase() === value.toLowerCase());
+        if (!sortBy) throw new QuerySyntaxError(field, `"${value}" is not one of ${SEARCH_SORTS.join(', ')}`);
+        options.sortBy = sortBy;
+        break;
+      }
+      case 'order': {
+        once(field);
+        const order = value.toLowerCase();
+        if (order !== 'asc' && order !== 'desc') throw new QuerySyntaxError(field, `"${value}" is not asc or desc`);
+        options.sortOrder = order;
+        break;
+      }
+      case 'mode':
+        once(field);
+        if (!isSearchMode(value)) throw new QuerySyntaxError(field, `unknown search mode "${value}"`);
+        options.mode = value;
+        break;
+      default:
+        once(field);
+        (options.attributes ??= {})[field satisfies AttributeKey] = value;
+    }
+  }
+
+  // Created range: once per field, so since: and created: can't both set it
+  if (dates.since !== undefined || dates.until !== undefined) {
+    if (seen.has('created')) throw new QuerySyntaxError('created', "can't be combined with since: or until:");
+    const created = resolveDateRange({ from: dates.since, to: dates.until }, context, { from: 'since', to: 'until' });
+    if (created.from !== undefined) options.createdFrom = created.from;
+    if (created.to !== undefined) options.createdTo = created.to;
+  }
+  Object.assign(options, resolveDateRange({ from: dates.from, to: dates.to }, context));
+
+  const rest = text.join(' ').trim();
+  return { ...(rest ? { text: rest } : {}), options };
+}
+
+/**
+ * Options from a parsed query together with ones given separately (tool
+ * parameters, CLI flags): lists are joined, other values given separately win
+ */
+export function combineSearchOptions(parsed: SearchOptions, given: SearchOptions): SearchOptions {
+  const combined: Record<string, unknown> = { ...parsed };
+  for (const [key, value] of Object.entries(given)) {
+    if (value === undefined) continue;
+    const current = combined[key];
+    if (Array.isArray(value) && Array.isArray(current)) {
+      combined[key] = [...current, ...value];
+    } else if (key === 'attributes' && current) {
+      combined[key] = { ...current, ...value };
+    } else {
+      combined[key] = value;
+    }
+  }
+  return combined as SearchOptions;
+}
+
+function isQueryField(field: string): field is QueryField {
+  return (QUERY_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * Words, "quoted phrases" and field:value pairs of known fields
+ * (field:"quoted value"), each optionally negated with a leading -
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const quoted = (): string => {
+    const close = query.indexOf('"', i + 1);
+    if (close === -1) throw new QuerySyntaxError('', `unclosed quote at "${query.slice(i)}"`);
+    const value = query.slice(i + 1, close);
+    i = close + 1;
+    return value;
+  };
+  const word = (): string => {
+    const start = i;
+    while (i < query.length && !/\s/.test(query[i])) i++;
+    return query.slice(start, i);
+  };
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    if (query[i] === '"') {
+      tokens.push({ negated, value: quoted() });
+      continue;
+    }
+
+    // A field is a known name, a colon and a value right after it; "10:30",
+    // "Note:", "re: budget" and "https://" stay text
+    const field = /^([a-z]+):(?=[^\s/])/i.exec(query.slice(i));
+    const name = field?.[1].toLowerCase();
+    if (field && name !== undefined && isQueryField(name)) {
+      i += field[0].length;
+      const value = query[i] === '"' ? quoted() : word();
+      tokens.push({ negated, field: name, value });
+      continue;
+    }
+
+    tokens.push({ negated, value: word() });
+  }
+
+  return tokens;
+}
@@ -0,0 +1,88 @@
+/**
+ * Search Ranking Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { decayFactor, resolveRanking, scoreMemory, DEFAULT_RANKING } from './ranking.js';
+import { MemoryStoreV2 } from './store.js';
+import type { Memory } from './types.js';
+
+const DAY = 86400000;
+const NOW = Date.UTC(2026, 0, 31);
+
+function memory(overrides: Partial<Memory> = {}): Memory {
+  return {
+    id: 'm1',
+    content: 'test',
+    category: 'fact',
+    confidence: 1,
+    importance: 0.5,
+    tags: [],
+    createdAt: NOW,
+    updatedAt: NOW,
+    lastAccessedAt: NOW,
+    decayDays: null,
+    ...overrides,
+  };
+}
+
+describe('scoreMemory', () => {
+  it('should blend the weighted parts and apply the decay curve', () => {
+    const fresh = scoreMemory(memory({ importance: 1 }), 0.5, DEFAULT_RANKING, NOW);
+    expect(fresh).toMatchObject({ relevance: 0.5, importance: 1, confidence: 1, recency: 1, decay: 1 });
+    expect(fresh.score).toBeCloseTo(0.6 * 0.5 + 0.15 + 0.1 + 0.15);
+
+    // Unused for one half-life
+    const idle = scoreMemory(memory({ lastAccessedAt: NOW - 30 * DAY }), 1, DEFAULT_RANKING, NOW);
+    expect(idle.recency).toBeCloseTo(0.5);
+
+    // Halfway through a 10-day decay with exponent 2: 1 - 0.5^2
+    const decaying = memory({ createdAt: NOW - 5 * DAY, decayDays: 10 });
+    expect(decayFactor(decaying, DEFAULT_RANKING, NOW)).toBeCloseTo(0.75);
+    expect(decayFactor(decaying, resolveRanking({ decayExponent: 1 }), NOW)).toBeCloseTo(0.5);
+    expect(decayFactor(memory({ createdAt: NOW - 11 * DAY, decayDays: 10 }), DEFAULT_RANKING, NOW)).toBe(0);
+  });
+
+  it('should fall back to defaults for invalid settings', () => {
+    expect(resolveRanking({ weights: { importance: -1 }, recencyHalfLifeDays: 0 })).toEqual(DEFAULT_RANKING);
+    expect(resolveRanking({ weights: { relevance: 0, importance: 0, confidence: 0, recency: 0 } }).weights)
+      .toEqual({ relevance: 1, importance: 0, confidence: 0, recency: 0 });
+  });
+});
+
+describe('MemoryStore ranking', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should rank important, recently used memories above stale trivia', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() - 120 * DAY);
+    const trivia = await store.create({ content: 'Coffee shop on Main St opens at 7', category: 'fact', importance: 0.1 });
+    vi.useRealTimers();
+    const important = await store.create({ content: 'User prefers coffee without sugar', category: 'preference', importance: 0.9 });
+
+    const results = await store.search({ query: 'coffee', explain: true });
+    expect(results.map(r => r.memory.id)).toEqual([important.id, trivia.id]);
+    expect(results[0].breakdown).toMatchObject({ importance: 0.9, decay: 1 });
+    expect(results[0].score).toBe(results[0].breakdown!.score);
+    expect(results[1].breakdown!.recency).toBeLessThan(0.1);
+
+    const raw = await store.search({ query: 'coffee', rankBy: 'relevance' });
+    expect(raw.every(r => r.breakdown === undefined)).toBe(true);
+    expect(raw.map(r => r.score)).toEqual(results.map(r => r.breakdown!.relevance).sort((a, b) => b - a));
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Search Result Ranking
+ *
+ * Blends how well a memory matches the query with what we know about the
+ * memory itself: how important it is, how sure we are of it, how recently
+ * it was used, and how far along its decay it is. Frequently used,
+ * important memories rise; stale trivia sinks.
+ *
+ *   score = (w_rel * relevance + w_imp * importance + w_conf * confidence
+ *            + w_rec * recency) / (sum of weights) * decay
+ *
+ * recency halves every recencyHalfLifeDays since the memory was last
+ * accessed. decay is 1 for permanent memories; for memories with
+ * decayDays it falls from 1 at creation (or last reinforcement) to 0 at
+ * expiry along 1 - (age / decayDays)^decayExponent, so it stays near 1 for most of the
+ * memory's life and drops off towards the end instead of vanishing at once.
+ */
+
+import type { Memory } from './types.js';
+import { decayStart, isExpired } from './expiry.js';
+import { eventEnd } from './events.js';
+
+export interface RankingWeights {
+  relevance: number;
+  importance: number;
+  confidence: number;
+  recency: number;
+}
+
+export interface RankingConfig {
+  weights: RankingWeights;
+  /** Days after which an unused memory's recency score halves */
+  recencyHalfLifeDays: number;
+  /** Shape of the decay curve: 1 = linear, higher = flatter for longer */
+  decayExponent: number;
+}
+
+/**
+ * Ranking settings as written in plugin config; anything left out keeps its default
+ */
+export interface RankingSettings {
+  weights?: Partial<RankingWeights>;
+  recencyHalfLifeDays?: number;
+  decayExponent?: number;
+}
+
+export const DEFAULT_RANKING: RankingConfig = {
+  // Relevance dominates, so a clearly better match still wins
+  weights: { relevance: 0.6, importance: 0.15, confidence: 0.1, recency: 0.15 },
+  recencyHalfLifeDays: 30,
+  decayExponent: 2,
+};
+
+/**
+ * How a result's score was put together (memory_search with explain)
+ */
+export interface ScoreBreakdown {
+  relevance: number;
+  importance: number;
+  confidence: number;
+  recency: number;
+  /** Multiplier from the decay curve, 1 = fresh or permanent */
+  decay: number;
+  score: number;
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Fill in missing settings from the defaults. Negative or non-finite
+ * values fall back too; all-zero weights rank by relevance alone.
+ */
+export function resolveRanking(partial: RankingSettings = {}): RankingConfig {
+  const pick = (value: number | undefined, fallback: number, min: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min ? value : fallback;
+
+  const weights: RankingWeights = {
+    relevance: pick(partial.weights?.relevance, DEFAULT_RANKING.weights.relevance, 0),
+    importance: pick(partial.weights?.importance, DEFAULT_RANKING.weights.importance, 0),
+    confidence: pick(partial.weights?.confidence, DEFAULT_RANKING.weights.confidence, 0),
+    recency: pick(partial.weights?.recency, DEFAULT_RANKING.weights.recency, 0),
+  };
+  const total = weights.relevance + weights.importance + weights.confidence + weights.recency;
+
+  return {
+    weights: total > 0 ? weights : { relevance: 1, importance: 0, confidence: 0, recency: 0 },
+    recencyHalfLifeDays: pick(partial.recencyHalfLifeDays, DEFAULT_RANKING.recencyHalfLifeDays, Number.MIN_VALUE),
+    decayExponent: pick(partial.decayExponent, DEFAULT_RANKING.decayExponent, Number.MIN_VALUE),
+  };
+}
+
+/**
+ * Decay multiplier of a memory: 1 while fresh, 0 once expired
+ */
+export function decayFactor(memory: Memory, config: RankingConfig = DEFAULT_RANKING, now: number = Date.now()): number {
+  // Dated events don't fade before they happen; they're over when they end
+  if (eventEnd(memory) !== null) return isExpired(memory, now) ? 0 : 1;
+  if (!memory.decayDays || memory.decayDays <= 0) return 1;
+  const progress = (now - decayStart(memory)) / (memory.decayDays * DAY_MS);
+  if (progress <= 0) return 1;
+  if (progress >= 1) return 0;
+  return 1 - Math.pow(progress, config.decayExponent);
+}
+
+/**
+ * Score a memory given how well it matched (0-1)
+ */
+export function scoreMemory(
+  memory: Memory,
+  relevance: number,
+  config: RankingConfig = DEFAULT_RANKING,
+  now: number = Date.now()
+): ScoreBreakdown {
+  const { weights } = config;
+  const idleDays = Math.max(0, now - memory.lastAccessedAt) / DAY_MS;
+  const parts = {
+    relevance: clamp(relevance),
+    importance: clamp(memory.importance),
+    confidence: clamp(memory.confidence),
+    recency: Math.pow(0.5, idleDays / config.recencyHalfLifeDays),
+  };
+  const decay = decayFactor(memory, config, now);
+
+  const total = weights.relevance + weights.importance + weights.confidence + weights.recency;
+  const blended = (
+    weights.relevance * parts.relevance +
+    weights.importance * parts.importance +
+    weights.confidence * parts.confidence +
+    weights.recency * parts.recency
+  ) / total;
+
+  return { ...parts, decay, score: blended * decay };
+}
+
+/**
+ * One line per result for people and agents: "0.82 = relevance 0.90 ..."
+ */
+export function formatBreakdown(breakdown: ScoreBreakdown): string {
+  const f = (n: number) => n.toFixed(2);
+  return `score ${f(breakdown.score)} = (relevance ${f(breakdown.relevance)}, importance ${f(breakdown.importance)}, ` +
+    `confidence ${f(breakdown.confidence)}, recency ${f(breakdown.recency)}) x decay ${f(breakdown.decay)}`;
+}
+
+function clamp(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
@@ -0,0 +1,57 @@
+/**
+ * Memory Reinforcement Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MAX_EVIDENCE, addEvidence, evidenceToFrontmatter, readEvidence, reinforcedScores } from './reinforcement.js';
+import type { Memory } from './types.js';
+
+function memory(overrides: Partial<Memory> = {}): Memory {
+  return {
+    id: 'aaaaaaaa-0000-0000-0000-000000000001',
+    content: 'User prefers dark mode',
+    category: 'preference',
+    confidence: 0.5,
+    importance: 0.5,
+    decayDays: null,
+    createdAt: 0,
+    updatedAt: 0,
+    lastAccessedAt: 0,
+    tags: [],
+    ...overrides,
+  };
+}
+
+describe('reinforcedScores', () => {
+  it('should close part of the distance to 1, never less than the new mention says', () => {
+    expect(reinforcedScores(memory())).toEqual({ confidence: 0.65, importance: 0.55 });
+    expect(reinforcedScores(memory({ confidence: 1, importance: 1 }))).toEqual({ confidence: 1, importance: 1 });
+    expect(reinforcedScores(memory(), { confidence: 0.9 }).confidence).toBe(0.9);
+  });
+});
+
+describe('addEvidence', () => {
+  it('should add the mention and keep only the most recent entries', () => {
+    const evidence = addEvidence(memory(), { sourceChannel: 'telegram', sourceMessageId: '42' }, 1000);
+    expect(evidence).toEqual([{ at: 1000, channel: 'telegram', messageId: '42' }]);
+
+    const full = memory({ evidence: Array.from({ length: MAX_EVIDENCE }, (_, i) => ({ at: i })) });
+    const trimmed = addEvidence(full, {}, 5000);
+    expect(trimmed).toHaveLength(MAX_EVIDENCE);
+    expect(trimmed[0].at).toBe(1);
+    expect(trimmed[MAX_EVIDENCE - 1]).toEqual({ at: 5000 });
+  });
+});
+
+describe('evidence frontmatter', () => {
+  it('should round-trip and drop entries without a valid time', () => {
+    const evidence = [{ at: Date.UTC(2026, 0, 2), channel: 'telegram', messageId: '42' }, { at: Date.UTC(2026, 0, 3) }];
+    expect(readEvidence(evidenceToFrontmatter(evidence))).toEqual(evidence);
+
+    expect(readEvidence([{ at: 'yesterday' }, 'junk', { at: '2026-01-02T00:00:00.000Z', message_id: 42 }])).toEqual([
+      { at: Date.UTC(2026, 0, 2), messageId: '42' },
+    ]);
+    expect(readEvidence([{ at: 'never' }])).toBeUndefined();
+    expect(readEvidence('2026-01-02')).toBeUndefined();
+  });
+});
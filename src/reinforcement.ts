@@ -0,0 +1,81 @@
+/**
+ * Memory Reinforcement
+ *
+ * The user stating something again is evidence that it's true and that it
+ * matters. Instead of rejecting the repeat as a duplicate, memory_store
+ * reinforces the existing memory: confidence and importance each move part
+ * of the way towards 1 (so every repeat counts for less than the one
+ * before), the mention is kept as evidence, and a decaying memory's clock
+ * starts over.
+ */
+
+import type { Memory, MemoryEvidence, ReinforceInput } from './types.js';
+
+// Share of the remaining distance to 1 that one mention closes
+export const CONFIDENCE_STEP = 0.3;
+export const IMPORTANCE_STEP = 0.1;
+
+// Evidence entries kept per memory (the most recent)
+export const MAX_EVIDENCE = 50;
+
+/**
+ * Confidence and importance after one more mention
+ */
+export function reinforcedScores(
+  memory: Memory,
+  input: ReinforceInput = {}
+): { confidence: number; importance: number } {
+  const step = (value: number, share: number) => round(value + (1 - value) * share);
+  return {
+    confidence: Math.max(step(memory.confidence, CONFIDENCE_STEP), input.confidence ?? 0),
+    importance: Math.max(step(memory.importance, IMPORTANCE_STEP), input.importance ?? 0),
+  };
+}
+
+/**
+ * The memory's evidence with a new mention added
+ */
+export function addEvidence(memory: Memory, input: ReinforceInput, now: number = Date.now()): MemoryEvidence[] {
+  const entry: MemoryEvidence = {
+    at: now,
+    ...(input.sourceChannel ? { channel: input.sourceChannel } : {}),
+    ...(input.sourceMessageId ? { messageId: input.sourceMessageId } : {}),
+  };
+  return [...(memory.evidence ?? []), entry].slice(-MAX_EVIDENCE);
+}
+
+/**
+ * Evidence as written to frontmatter
+ */
+export function evidenceToFrontmatter(evidence: MemoryEvidence[]): Array<Record<string, string>> {
+  return evidence.map(entry => ({
+    at: new Date(entry.at).toISOString(),
+    ...(entry.channel ? { channel: entry.channel } : {}),
+    ...(entry.messageId ? { message_id: entry.messageId } : {}),
+  }));
+}
+
+/**
+ * Evidence read from frontmatter: entries without a valid time are dropped
+ */
+export function readEvidence(value: unknown): MemoryEvidence[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const evidence: MemoryEvidence[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object') continue;
+    const entry = raw as Record<string, unknown>;
+    const at = Date.parse(String(entry.at));
+    if (!Number.isFinite(at)) continue;
+    evidence.push({
+      at,
+      ...(typeof entry.channel === 'string' ? { channel: entry.channel } : {}),
+      ...(entry.message_id !== undefined && entry.message_id !== null ? { messageId: String(entry.message_id) } : {}),
+    });
+  }
+  return evidence.length > 0 ? evidence : undefined;
+}
+
+// Keeps files readable: 0.8600000000000001 -> 0.86
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,148 @@
+/**
+ * Search Engine and Vector Index Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { registerSearchEngine, type SearchEngine } from './search-engine.js';
+import { registerEmbeddingProvider } from './embeddings.js';
+import { VECTORS_FILENAME } from './vector-index.js';
+import { INDEX_DIR } from './sidecar.js';
+import { MemoryCipher } from './encryption.js';
+import { MemoryStoreV2 } from './store.js';
+
+describe('MemoryStore search engines', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find duplicates with the vector index when QMD is missing', async () => {
+    const dark = await store.create({ content: 'User prefers dark mode', category: 'preference' });
+    await store.create({ content: 'User prefers bullet points', category: 'preference' });
+
+    const same = await store.findDuplicates('The user prefers dark mode.', 0.9);
+    expect(same.map(r => r.memory.id)).toEqual([dark.id]);
+    expect(same[0].score).toBeCloseTo(1);
+
+    // A conflicting preference is close, a different one on the same subject isn't
+    const conflict = await store.findDuplicates('User prefers light mode', 0.4);
+    expect(conflict.map(r => r.memory.id)).toEqual([dark.id]);
+    expect(conflict[0].score).toBeGreaterThan(0.5);
+    expect(await store.findDuplicates('User likes Python', 0.4)).toEqual([]);
+
+    // Vectors catch what keywords miss: most of a word
+    const flight = await store.create({ content: 'Flight to Lisbon on Friday', category: 'event' });
+    expect((await store.search({ query: 'lisboa' })).map(r => r.memory.id)).toEqual([flight.id]);
+  });
+
+  it('should embed with a registered provider and seal the vectors when encrypted', async () => {
+    store.close();
+    const embedded: string[] = [];
+    registerEmbeddingProvider('letters', () => ({
+      name: 'letters',
+      dimensions: 26,
+      async embed(texts) {
+        embedded.push(...texts);
+        return texts.map(text => {
+          const vector = new Float32Array(26);
+          for (const c of text.toLowerCase()) if (c >= 'a' && c <= 'z') vector[c.charCodeAt(0) - 97]++;
+          return vector;
+        });
+      },
+    }));
+    store = new MemoryStoreV2(tempDir, 'memories', {
+      searchEngines: ['vector'],
+      embeddingProvider: 'letters',
+      encryption: 'full',
+      cipher: new MemoryCipher('passphrase'),
+    });
+
+    const memory = await store.create({ content: 'Sister lives in Lisbon', category: 'relationship' });
+    expect((await store.findDuplicates('sister lives in lisbon', 0.99)).map(r => r.memory.id)).toEqual([memory.id]);
+    expect(embedded).toContain('Sister lives in Lisbon');
+    store.close();
+
+    const saved = fs.readFileSync(path.join(tempDir, INDEX_DIR, VECTORS_FILENAME), 'utf-8');
+    expect(saved).not.toContain('letters');
+
+    // Loaded from disk, not embedded again
+    embedded.length = 0;
+    store = new MemoryStoreV2(tempDir, 'memories', {
+      searchEngines: ['vector'],
+      embeddingProvider: 'letters',
+      encryption: 'full',
+      cipher: new MemoryCipher('passphrase'),
+    });
+    expect((await store.searchStatus())[0]).toMatchObject({ name: 'vector', available: true, documents: 1 });
+    expect(embedded).toEqual([]);
+  });
+
+  it('should not read or keep plaintext vectors once the store is encrypted', async () => {
+    store.close();
+    store = new MemoryStoreV2(tempDir, 'memories', { searchEngines: ['vector'] });
+    const memory = await store.create({ content: 'Sister lives in Lisbon', category: 'relationship' });
+    expect((await store.findDuplicates('Sister lives in Lisbon', 0.9)).map(r => r.memory.id)).toEqual([memory.id]);
+    store.close();
+    const vectorsPath = path.join(tempDir, INDEX_DIR, VECTORS_FILENAME);
+    const plaintext = fs.readFileSync(vectorsPath, 'utf-8');
+    expect(plaintext).toContain('ngram');
+
+    const cipher = new MemoryCipher('passphrase');
+    store = new MemoryStoreV2(tempDir, 'memories', { searchEngines: ['vector'], encryption: 'full', cipher });
+    store.reencode();
+    expect(fs.existsSync(vectorsPath)).toBe(false);
+    store.close();
+
+    // An unsealed file is dropped unread and rebuilt sealed
+    fs.mkdirSync(path.dirname(vectorsPath), { recursive: true });
+    fs.writeFileSync(vectorsPath, plaintext, 'utf-8');
+    store = new MemoryStoreV2(tempDir, 'memories', { searchEngines: ['vector'], encryption: 'full', cipher });
+    expect((await store.findDuplicates('Sister lives in Lisbon', 0.9)).map(r => r.memory.id)).toEqual([memory.id]);
+    store.close();
+    expect(fs.readFileSync(vectorsPath, 'utf-8')).not.toContain('ngram');
+  });
+
+  it('should ask engines in the configured order and keep them updated', async () => {
+    store.close();
+    const indexed: string[] = [];
+    const removed: string[] = [];
+    let answer: string[] = [];
+    const engine: SearchEngine = {
+      name: 'fake',
+      methods: ['keyword'],
+      index: memories => { indexed.push(...memories.map(m => m.id)); },
+      remove: ids => { removed.push(...ids); },
+      query: async (_query, options) => answer.filter(id => !options.accept || options.accept(id)).map(id => ({ id, score: 0.5 })),
+      findSimilar: async () => [],
+      status: async () => ({ name: 'fake', available: true }),
+    };
+    registerSearchEngine('fake', () => engine);
+    store = new MemoryStoreV2(tempDir, 'memories', { searchEngines: ['fake', 'bm25', 'missing'] });
+
+    const lisbon = await store.create({ content: 'Flight to Lisbon on Friday', category: 'event' });
+    const porto = await store.create({ content: 'Train to Porto on Monday', category: 'event' });
+    await store.delete(porto.id);
+    expect(indexed).toEqual([lisbon.id, porto.id]);
+    expect(removed).toEqual([porto.id]);
+
+    // The fake engine has nothing, so BM25 answers
+    expect((await store.search({ query: 'lisbon' })).map(r => r.memory.id)).toEqual([lisbon.id]);
+
+    // Its hits win, minus deleted memories
+    answer = [porto.id, lisbon.id];
+    const results = await store.search({ query: 'anything', rankBy: 'relevance' });
+    expect(results.map(r => [r.memory.id, r.score])).toEqual([[lisbon.id, 0.5]]);
+    expect((await store.searchStatus()).map(s => s.name)).toEqual(['fake', 'bm25']);
+  });
+});
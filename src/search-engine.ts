@@ -0,0 +1,277 @@
+/**
+ * Search Engines
+ *
+ * Everything the store searches with sits behind one interface that speaks
+ * memory ids: QMD (qmd.ts), the built-in BM25 index (bm25.ts) and the
+ * vector index (vector-index.ts). Config picks which engines run and in
+ * which order; a query goes to each in turn until one finds something, so
+ * QMD can come first with the local engines as fallbacks. Search modes
+ * (search-modes.ts) narrow that to keyword or semantic engines, or fuse both.
+ *
+ * Other plugins can add engines with registerSearchEngine and list them in
+ * searchEngines.
+ */
+
+import type { Memory, SearchMode } from './types.js';
+import type { MemoryCipher } from './encryption.js';
+import type { QMDClient } from './qmd.js';
+import type { EmbeddingProvider } from './embeddings.js';
+import { QmdEngine } from './qmd.js';
+import { Bm25Engine } from './bm25.js';
+import { VectorIndex } from './vector-index.js';
+import { fuseRankings } from './search-modes.js';
+
+// How an engine matches: words, similarity, or both combined by the engine
+export const SEARCH_METHODS = ['keyword', 'semantic', 'hybrid'] as const;
+
+export type SearchMethod = typeof SEARCH_METHODS[number];
+
+export interface SearchHit {
+  /** Memory id */
+  id: string;
+  /** Match score from 0 to 1 */
+  score: number;
+  /** The passage that matched, when the engine knows (QMD's snippet) */
+  snippet?: string;
+}
+
+export interface SearchQueryOptions {
+  limit: number;
+  /** One of the engine's methods; defaults to its first */
+  method?: SearchMethod;
+  /**
+   * Whether the caller will keep a memory (its filters). Engines that can
+   * should skip the rest before applying the limit.
+   */
+  accept?: (id: string) => boolean;
+}
+
+// Hits a query or related search ranks and pages through: the same number
+// for every page, so pages split one ranking and never overlap
+export const SEARCH_CANDIDATES = 200;
+
+// Lowest similarity of a related memory: much of what it says in common, not
+// just a shared word or two (duplicates are 0.95 and up)
+export const DEFAULT_RELATED_SIMILARITY = 0.5;
+
+export interface SimilarOptions {
+  /** Lowest similarity (0-1) to return */
+  threshold: number;
+  limit?: number;
+  /** Like SearchQueryOptions.accept */
+  accept?: (id: string) => boolean;
+}
+
+export interface SearchEngineStatus {
+  name: string;
+  /** Whether the engine can answer queries right now */
+  available: boolean;
+  /** Memories in its index, when it knows */
+  documents?: number;
+  detail?: string;
+}
+
+export interface SearchEngine {
+  readonly name: string;
+  /** How it can match, its default first */
+  readonly methods: readonly SearchMethod[];
+  /** Answers in-process without waiting on other programs (used by fast mode) */
+  readonly fast?: boolean;
+  /** Prepare the index (e.g. create the QMD collection) */
+  init?(): Promise<void>;
+  /** Memories that were created or changed; may index in the background */
+  index(memories: Memory[]): void | Promise<void>;
+  /** Memories that are gone (deleted or purged) */
+  remove(ids: string[]): void | Promise<void>;
+  /** Best matches for a query, best first */
+  query(query: string, options: SearchQueryOptions): Promise<SearchHit[]>;
+  /**
+   * Memories that say much the same as content, most similar first.
+   * Engines that can't tell (keyword engines) return nothing.
+   */
+  findSimilar(content: string, options: SimilarOptions): Promise<SearchHit[]>;
+  status(): Promise<SearchEngineStatus>;
+  /** Rebuild the index from scratch (the reindex command); defaults to index() */
+  rebuild?(memories: Memory[]): Promise<void>;
+  /** Save pending changes and stop background work */
+  close?(): void;
+}
+
+/**
+ * What an engine is given for one store (one namespace)
+ */
+export interface SearchEngineContext {
+  /** The namespace's directory; local engines keep their files in its .index/ */
+  memoriesPath: string;
+  /** Namespace partition, undefined for the default namespace */
+  namespace?: string;
+  /**
+   * Its active and archived memories, for engines that check their index
+   * against them (archived ones are found by searches that include expired)
+   */
+  memories(): Memory[];
+  /** Set when encryption is on: anything holding memory text must be sealed with it */
+  cipher?: MemoryCipher;
+  /** The store's QMD client, set up for the namespace's collection */
+  qmd: QMDClient;
+  /** The configured embedding provider (see embeddings.ts), loaded on first call */
+  embeddings(): EmbeddingProvider;
+}
+
+export type SearchEngineFactory = (context: SearchEngineContext) => SearchEngine;
+
+// QMD when it's there, keywords next, then vectors for what shares no words
+export const DEFAULT_SEARCH_ENGINES = ['qmd', 'bm25', 'vector'];
+
+const engines = new Map<string, SearchEngineFactory>([
+  ['qmd', context => new QmdEngine(context.qmd)],
+  ['bm25', context => new Bm25Engine(context)],
+  ['vector', context => new VectorIndex(context)],
+]);
+
+/**
+ * Make an engine available under a name for the searchEngines config,
+ * replacing any engine registered under it before
+ */
+export function registerSearchEngine(name: string, factory: SearchEngineFactory): void {
+  engines.set(name, factory);
+}
+
+export function searchEngineNames(): string[] {
+  return [...engines.keys()];
+}
+
+/**
+ * The configured engines in order. Unknown names are skipped with a warning
+ * (the plugin registering them may not be loaded).
+ */
+export function createSearchEngines(names: string[], context: SearchEngineContext): SearchEngineChain {
+  const created: SearchEngine[] = [];
+  for (const name of new Set(names)) {
+    const factory = engines.get(name);
+    if (!factory) {
+      console.warn(`[memory-tools] Unknown search engine '${name}' (known: ${searchEngineNames().join(', ')})`);
+      continue;
+    }
+    created.push(factory(context));
+  }
+  return new SearchEngineChain(created);
+}
+
+/**
+ * Configured engines, asked in order. Updates go to all of them; an engine
+ * failing is logged and skipped, so one broken engine never breaks search.
+ */
+export class SearchEngineChain {
+  constructor(readonly engines: SearchEngine[]) {}
+
+  has(name: string): boolean {
+    return this.engines.some(engine => engine.name === name);
+  }
+
+  async init(): Promise<void> {
+    for (const engine of this.engines) {
+      await engine.init?.();
+    }
+  }
+
+  index(memories: Memory[]): void {
+    for (const engine of this.engines) {
+      this.background(engine, () => engine.index(memories));
+    }
+  }
+
+  remove(ids: string[]): void {
+    for (const engine of this.engines) {
+      this.background(engine, () => engine.remove(ids));
+    }
+  }
+
+  /**
+   * Hits for a query in a search mode: from the first engine that finds
+   * anything (auto, keyword, semantic), or keyword and semantic hits fused
+   * (hybrid, fast)
+   */
+  async query(query: string, options: SearchQueryOptions, mode: SearchMode = 'auto'): Promise<SearchHit[]> {
+    switch (mode) {
+      case 'auto':
+        return this.first(this.engines, query, options);
+      case 'keyword':
+      case 'semantic':
+        return this.first(this.engines.filter(e => e.methods.includes(mode)), query, { ...options, method: mode });
+      case 'hybrid':
+      case 'fast': {
+        const fast = this.engines.filter(e => e.fast);
+        // With no in-process engine configured, the quickest left is keyword search
+        if (mode === 'fast' && fast.length === 0) return this.query(query, options, 'keyword');
+        const pool = mode === 'fast' ? fast : this.engines;
+        const rankings = [];
+        for (const method of ['keyword', 'semantic'] as const) {
+          rankings.push(await this.first(pool.filter(e => e.methods.includes(method)), query, { ...options, method }));
+        }
+        return fuseRankings(rankings, options.limit);
+      }
+    }
+  }
+
+  /**
+   * Similar memories from the first engine that finds any
+   */
+  async findSimilar(content: string, options: SimilarOptions): Promise<SearchHit[]> {
+    for (const engine of this.engines) {
+      const hits = await this.ask(engine, 'findSimilar', () => engine.findSimilar(content, options));
+      if (hits.length > 0) return hits;
+    }
+    return [];
+  }
+
+  async rebuild(memories: Memory[]): Promise<void> {
+    for (const engine of this.engines) {
+      await (engine.rebuild ? engine.rebuild(memories) : engine.index(memories));
+    }
+  }
+
+  async status(): Promise<SearchEngineStatus[]> {
+    const statuses: SearchEngineStatus[] = [];
+    for (const engine of this.engines) {
+      try {
+        statuses.push(await engine.status());
+      } catch (err: any) {
+        statuses.push({ name: engine.name, available: false, detail: err?.message ?? String(err) });
+      }
+    }
+    return statuses;
+  }
+
+  close(): void {
+    for (const engine of this.engines) {
+      engine.close?.();
+    }
+  }
+
+  private async first(engines: SearchEngine[], query: string, options: SearchQueryOptions): Promise<SearchHit[]> {
+    for (const engine of engines) {
+      const hits = await this.ask(engine, 'query', () => engine.query(query, options));
+      if (hits.length > 0) return hits;
+    }
+    return [];
+  }
+
+  private async ask(engine: SearchEngine, operation: string, run: () => Promise<SearchHit[]>): Promise<SearchHit[]> {
+    try {
+      return await run();
+    } catch (err: any) {
+      console.warn(`[memory-tools] ${engine.name} ${operation} failed:`, err?.message ?? err);
+      return [];
+    }
+  }
+
+  private background(engine: SearchEngine, run: () => void | Promise<void>): void {
+    const warn = (err: any) => console.warn(`[memory-tools] ${engine.name} index update failed:`, err?.message ?? err);
+    try {
+      Promise.resolve(run()).catch(warn);
+    } catch (err) {
+      warn(err);
+    }
+  }
+}
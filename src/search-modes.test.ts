@@ -0,0 +1,63 @@
+/**
+ * Search Mode Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { fuseRankings, resolveSearchMode, searchModeFor } from './search-modes.js';
+import { MemoryStoreV2 } from './store.js';
+
+describe('fuseRankings', () => {
+  it('should put memories ranked well by several engines first', () => {
+    const fused = fuseRankings([
+      [{ id: 'a', score: 1 }, { id: 'b', score: 0.9 }],
+      [{ id: 'b', score: 0.8 }, { id: 'c', score: 0.7 }],
+    ]);
+    expect(fused.map(hit => hit.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBe(1);
+
+    // Nothing to fuse with: scores are kept
+    expect(fuseRankings([[{ id: 'a', score: 0.4 }], []])).toEqual([{ id: 'a', score: 0.4 }]);
+  });
+});
+
+describe('MemoryStore search modes', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should match by keywords, similarity or both', async () => {
+    const lisbon = await store.create({ content: 'Flight to Lisbon on Friday', category: 'event' });
+    const trip = await store.create({ content: 'Trip to Lisboa with the kids', category: 'event' });
+
+    const ids = async (mode: 'keyword' | 'semantic' | 'hybrid' | 'fast') =>
+      (await store.search({ query: 'lisbon', mode, rankBy: 'relevance' })).map(r => r.memory.id);
+
+    expect(await ids('keyword')).toEqual([lisbon.id]);
+    // Similar spelling counts for the vector index
+    expect(await ids('semantic')).toEqual([lisbon.id, trip.id]);
+    expect(await ids('hybrid')).toEqual([lisbon.id, trip.id]);
+    expect(await ids('fast')).toEqual([lisbon.id, trip.id]);
+  });
+});
+
+describe('searchModeFor', () => {
+  it('should let channels override the default mode', () => {
+    const config = resolveSearchMode({ default: 'hybrid', channels: { telegram: 'fast', slack: 'instant' } });
+    expect(config.channels).toEqual({ telegram: 'fast' });
+    expect(searchModeFor(config, 'telegram')).toBe('fast');
+    expect(searchModeFor(config, 'slack')).toBe('hybrid');
+    expect(searchModeFor(resolveSearchMode({ default: 'nope' }))).toBe('auto');
+  });
+});
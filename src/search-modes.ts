@@ -0,0 +1,94 @@
+/**
+ * Search Modes
+ *
+ * How a query is matched, chosen per call or per channel:
+ * - auto: the configured engines in order, the first with results answers
+ *   (QMD's hybrid search with reranking when it's installed)
+ * - keyword: word matches only (QMD's BM25 search or the built-in BM25)
+ * - semantic: similarity only (QMD's vector search or the vector index)
+ * - hybrid: keyword and semantic results merged by reciprocal-rank fusion
+ * - fast: hybrid over the in-process engines only, never waiting on QMD
+ */
+
+import { SEARCH_MODES, type SearchMode } from './types.js';
+import type { SearchHit } from './search-engine.js';
+
+export interface SearchModeConfig {
+  /** Mode when a call doesn't name one */
+  default: SearchMode;
+  /** Per-channel default (messageChannel -> mode), e.g. fast for chat apps */
+  channels: Record<string, SearchMode>;
+}
+
+/**
+ * Search mode settings as written in plugin config
+ */
+export interface SearchModeSettings {
+  default?: string;
+  channels?: Record<string, string>;
+}
+
+export const DEFAULT_SEARCH_MODE: SearchModeConfig = {
+  default: 'auto',
+  channels: {},
+};
+
+// Reciprocal-rank fusion constant: how much a top rank outweighs the next ones
+export const RRF_K = 60;
+
+export function isSearchMode(value: unknown): value is SearchMode {
+  return SEARCH_MODES.includes(value as SearchMode);
+}
+
+/**
+ * Fill in missing or invalid settings from the defaults
+ */
+export function resolveSearchMode(partial: SearchModeSettings = {}): SearchModeConfig {
+  const channels: Record<string, SearchMode> = {};
+  if (partial.channels && typeof partial.channels === 'object') {
+    for (const [channel, mode] of Object.entries(partial.channels)) {
+      if (isSearchMode(mode)) channels[channel] = mode;
+    }
+  }
+
+  return {
+    default: isSearchMode(partial.default) ? partial.default : DEFAULT_SEARCH_MODE.default,
+    channels,
+  };
+}
+
+/**
+ * The mode for a call from a channel that didn't ask for one
+ */
+export function searchModeFor(config: SearchModeConfig, channel?: string): SearchMode {
+  if (channel !== undefined && config.channels[channel] !== undefined) return config.channels[channel];
+  return config.default;
+}
+
+/**
+ * Merge ranked result lists by reciprocal-rank fusion: each list adds
+ * 1 / (RRF_K + rank) for every memory in it, so memories ranked well by
+ * several engines come first. Scores are relative to the best (1.0). A
+ * single non-empty list is returned as it is.
+ */
+export function fuseRankings(rankings: SearchHit[][], limit?: number): SearchHit[] {
+  const nonEmpty = rankings.filter(hits => hits.length > 0);
+  if (nonEmpty.length <= 1) return (nonEmpty[0] ?? []).slice(0, limit);
+
+  const fused = new Map<string, SearchHit>();
+  for (const hits of nonEmpty) {
+    hits.forEach((hit, rank) => {
+      const entry = fused.get(hit.id) ?? { id: hit.id, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      // The first engine's passage that has one
+      entry.snippet ??= hit.snippet;
+      fused.set(hit.id, entry);
+    });
+  }
+
+  const best = Math.max(...[...fused.values()].map(hit => hit.score));
+  return [...fused.values()]
+    .map(hit => ({ ...hit, score: hit.score / best }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,92 @@
+/**
+ * Sidecar Index Files
+ *
+ * Files the local search engines keep next to the memories, in .index/:
+ * derived data that can always be rebuilt from the memories, so reading and
+ * writing them never fails loudly. They hold memory text (or vectors of it),
+ * so they're sealed with the store's cipher when encryption is on.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { isSealed, type MemoryCipher } from './encryption.js';
+
+// Directory (in the memories directory) for search indexes
+export const INDEX_DIR = '.index';
+
+// Writes are batched; an index is a cache, so losing the last second is harmless
+const SAVE_DELAY_MS = 1000;
+
+export class SidecarFile {
+  readonly filePath: string;
+  private cipher?: MemoryCipher;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: (() => string) | null = null;
+
+  constructor(memoriesPath: string, filename: string, options: { cipher?: MemoryCipher } = {}) {
+    this.filePath = path.join(memoriesPath, INDEX_DIR, filename);
+    this.cipher = options.cipher;
+  }
+
+  /**
+   * The saved text, or null when the file is missing or unreadable, sealed
+   * with no cipher to open it, or not sealed although there is a cipher.
+   * An unsealed file was written before encryption was turned on; it's
+   * deleted so its plaintext doesn't wait on disk for the sealed rebuild.
+   */
+  read(): string | null {
+    try {
+      if (!fs.existsSync(this.filePath)) return null;
+      const text = fs.readFileSync(this.filePath, 'utf-8');
+      if (isSealed(text)) return this.cipher ? this.cipher.open(text) : null;
+      if (!this.cipher) return text;
+      fs.rmSync(this.filePath, { force: true });
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save the output of serialize soon, batching changes made in the meantime
+   */
+  scheduleWrite(serialize: () => string): void {
+    this.pending = serialize;
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.writePending();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+
+  /**
+   * Write a scheduled save now (called when the store closes)
+   */
+  flush(): void {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    this.writePending();
+  }
+
+  private writePending(): void {
+    const serialize = this.pending;
+    this.pending = null;
+    if (!serialize) return;
+
+    const dir = path.dirname(this.filePath);
+    try {
+      // Only next to memories that still exist
+      if (!fs.existsSync(path.dirname(dir))) return;
+      const text = serialize();
+      fs.mkdirSync(dir, { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+      fs.writeFileSync(tempPath, this.cipher ? this.cipher.seal(text) : text, 'utf-8');
+      fs.renameSync(tempPath, this.filePath);
+    } catch {
+      // A cache: the next process rebuilds what couldn't be saved
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Snippet Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSnippet, formatSnippet, passageIn } from './snippets.js';
+
+const LONG = 'Notes from the planning call. ' + 'Nothing much happened here. '.repeat(10) +
+  'The user prefers dark mode in every editor, and switched the terminal theme too. ' +
+  'More filler follows. '.repeat(10);
+
+describe('buildSnippet', () => {
+  it('should cut long memories around the matched words and mark them', () => {
+    const snippet = buildSnippet(LONG, 'dark themes', { length: 80 });
+    expect(snippet.text.length).toBeLessThanOrEqual(82);
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(formatSnippet(snippet)).toContain('**dark** mode');
+    expect(formatSnippet(snippet)).toContain('**theme**');
+
+    // Short memories are kept whole; prefixes of longer words match
+    expect(formatSnippet(buildSnippet('Loves  TypeScript\nand types', 'type'))).toBe('Loves **TypeScript** and **types**');
+    // No query: the start of the memory
+    expect(buildSnippet(LONG, undefined, { length: 40 })).toEqual({ text: 'Notes from the planning call. Nothing…', highlights: [] });
+  });
+
+  it('should center on the passage QMD matched, ignoring what is not content', () => {
+    const qmd = '@@ -1,3 @@ (0 before, 12 after)\ncategory: fact\nswitched the terminal theme too.';
+    const passage = passageIn(qmd, LONG);
+    expect(passage).toBe('switched the terminal theme too.');
+
+    const snippet = buildSnippet(LONG, 'lisbon', { length: 80, passage });
+    expect(snippet.text).toContain('switched the terminal theme too.');
+    expect(snippet.highlights).toEqual([]);
+    expect(passageIn('category: fact', LONG)).toBeUndefined();
+  });
+});
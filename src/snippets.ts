@@ -0,0 +1,174 @@
+/**
+ * Search Result Snippets
+ *
+ * The part of a memory that matched a query, with the matched words marked,
+ * so long memories don't fill search output. QMD says which passage it
+ * matched; otherwise the window with the most query terms is picked here.
+ * Words match when their stems do (see tokenizer.ts), or when a query term
+ * starts one ("type" marks "TypeScript").
+ */
+
+import type { MemorySnippet } from './types.js';
+import { tokenize } from './tokenizer.js';
+
+export interface SearchResultsConfig {
+  /** Show whole memories in search output instead of snippets */
+  fullContent: boolean;
+  /** Longest snippet, in characters */
+  snippetLength: number;
+}
+
+/**
+ * Search result settings as written in plugin config
+ */
+export interface SearchResultsSettings {
+  fullContent?: boolean;
+  snippetLength?: number;
+}
+
+export const DEFAULT_SEARCH_RESULTS: SearchResultsConfig = {
+  fullContent: false,
+  snippetLength: 200,
+};
+
+export interface HighlightMarkers {
+  open: string;
+  close: string;
+}
+
+// Markdown bold, for tool output
+export const MARKDOWN_HIGHLIGHT: HighlightMarkers = { open: '**', close: '**' };
+
+// Shortest query term that marks longer words starting with it
+const MIN_PREFIX_LENGTH = 4;
+
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+/**
+ * Fill in missing or invalid settings from the defaults
+ */
+export function resolveSearchResults(partial: SearchResultsSettings = {}): SearchResultsConfig {
+  const length = partial.snippetLength;
+  return {
+    fullContent: typeof partial.fullContent === 'boolean' ? partial.fullContent : DEFAULT_SEARCH_RESULTS.fullContent,
+    snippetLength: typeof length === 'number' && Number.isInteger(length) && length >= 40
+      ? length
+      : DEFAULT_SEARCH_RESULTS.snippetLength,
+  };
+}
+
+/**
+ * Snippet of a memory for a query: the whole content when it's short
+ * enough, otherwise the window around the engine's passage or the most
+ * matched words, cut at word boundaries and marked with … where it was
+ * cut. Without a query it's the start of the memory.
+ */
+export function buildSnippet(
+  content: string,
+  query?: string,
+  options: { length?: number; passage?: string } = {}
+): MemorySnippet {
+  const length = options.length ?? DEFAULT_SEARCH_RESULTS.snippetLength;
+  const text = content.replace(/\s+/g, ' ').trim();
+  const terms = queryTerms(query);
+  if (text.length <= length) return { text, highlights: findTerms(text, terms) };
+
+  const start = windowStart(text, terms, length, options.passage);
+  let from = start;
+  let to = Math.min(text.length, start + length);
+  // Cut between words
+  if (from > 0) {
+    const space = text.indexOf(' ', from - 1);
+    if (space !== -1 && space < to) from = space + 1;
+  }
+  if (to < text.length) {
+    const space = text.lastIndexOf(' ', to);
+    if (space > from) to = space;
+  }
+
+  const snippet = `${from > 0 ? '…' : ''}${text.slice(from, to)}${to < text.length ? '…' : ''}`;
+  return { text: snippet, highlights: findTerms(snippet, terms) };
+}
+
+/**
+ * A snippet's text with its highlights wrapped in markers
+ */
+export function formatSnippet(snippet: MemorySnippet, markers: HighlightMarkers = MARKDOWN_HIGHLIGHT): string {
+  let formatted = '';
+  let at = 0;
+  for (const [start, end] of snippet.highlights) {
+    formatted += snippet.text.slice(at, start) + markers.open + snippet.text.slice(start, end) + markers.close;
+    at = end;
+  }
+  return formatted + snippet.text.slice(at);
+}
+
+/**
+ * The first line of a QMD snippet that's part of the memory's content.
+ * QMD snippets are excerpts of the file, so they can include frontmatter
+ * and diff-style headers ("@@ -3,4 @@") that aren't.
+ */
+export function passageIn(qmdSnippet: string | undefined, content: string): string | undefined {
+  if (!qmdSnippet) return undefined;
+  const text = content.replace(/\s+/g, ' ');
+  for (const line of qmdSnippet.split('\n')) {
+    const passage = line.replace(/\s+/g, ' ').trim();
+    if (passage.length > 0 && !passage.startsWith('@@') && text.includes(passage)) return passage;
+  }
+  return undefined;
+}
+
+function queryTerms(query: string | undefined): Set<string> {
+  return new Set(query ? tokenize(query) : []);
+}
+
+/**
+ * [start, end) of the words in text that match a query term
+ */
+function findTerms(text: string, terms: Set<string>): Array<[number, number]> {
+  if (terms.size === 0) return [];
+  const found: Array<[number, number]> = [];
+  for (const match of text.matchAll(WORD)) {
+    if (matchesTerm(match[0], terms)) found.push([match.index, match.index + match[0].length]);
+  }
+  return found;
+}
+
+function matchesTerm(word: string, terms: Set<string>): boolean {
+  const [term] = tokenize(word);
+  if (term === undefined) return false;
+  if (terms.has(term)) return true;
+  const folded = word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+  for (const wanted of terms) {
+    if (wanted.length >= MIN_PREFIX_LENGTH && folded.startsWith(wanted)) return true;
+  }
+  return false;
+}
+
+/**
+ * Where the snippet window starts: a little before the passage the engine
+ * matched, or where the most matched words fit in it (the earliest window
+ * on a tie); the start of the text when nothing matches
+ */
+function windowStart(text: string, terms: Set<string>, length: number, passage?: string): number {
+  const lead = Math.floor(length / 5);
+  const at = passage ? text.indexOf(passage) : -1;
+  if (at !== -1) return clampStart(at - lead, text, length);
+
+  const matches = findTerms(text, terms);
+  let best = 0;
+  let bestCount = 0;
+  for (let i = 0; i < matches.length; i++) {
+    let count = 0;
+    for (let j = i; j < matches.length && matches[j][1] <= matches[i][0] + length - lead; j++) count++;
+    if (count > bestCount) {
+      best = matches[i][0] - lead;
+      bestCount = count;
+    }
+  }
+  return clampStart(best, text, length);
+}
+
+function clampStart(start: number, text: string, length: number): number {
+  return Math.max(0, Math.min(start, text.length - length));
+}
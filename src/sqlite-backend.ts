@@ -0,0 +1,645 @@
+/**
+ * SQLite Storage Backend
+ *
+ * Keeps all memories (and their revisions) of a namespace in a single
+ * sql.js database file, for installs where thousands of markdown files
+ * are a burden. The database is held in memory and written back to disk
+ * atomically after every change. Writes take a lock file next to the
+ * database and reload it first when another process has replaced it.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from 'sql.js';
+import type {
+  Memory,
+  MemoryCategory,
+  CreateMemoryInput,
+  UpdateMemoryInput,
+  ListOptions,
+  PurgeDeletedOptions,
+  PurgeDeletedResult,
+  RevisionMeta,
+  MemoryRevision,
+  WriteConditions,
+} from './types.js';
+import {
+  checkWriteConditions,
+  nextUpdatedAt,
+  revertToRevision,
+  selectPurgeable,
+  type MemoryBackend,
+} from './backend.js';
+import { FileLock } from './lock.js';
+import { applyAttributePatch } from './attributes.js';
+import { applySchedulePatch, isRecurrence } from './events.js';
+import { restartDecay } from './expiry.js';
+
+export const SQLITE_FILENAME = 'memories.sqlite';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS memories (
+    id TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    category TEXT NOT NULL,
+    confidence REAL NOT NULL,
+    importance REAL NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    last_accessed_at INTEGER NOT NULL,
+    decay_days REAL,
+    source_channel TEXT,
+    source_message_id TEXT,
+    namespace TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    supersedes TEXT,
+    deleted_at INTEGER,
+    delete_reason TEXT,
+    archived_at INTEGER,
+    archive_reason TEXT,
+    extra TEXT,
+    attributes TEXT,
+    evidence TEXT,
+    starts_at INTEGER,
+    ends_at INTEGER,
+    recurrence TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_memories_category ON memories(category, deleted_at);
+
+  CREATE TABLE IF NOT EXISTS revisions (
+    memory_id TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    recorded_at INTEGER NOT NULL,
+    actor TEXT,
+    reason TEXT,
+    snapshot TEXT NOT NULL,
+    PRIMARY KEY (memory_id, revision)
+  );
+`;
+
+// Columns added after the first release: name -> definition
+const ADDED_COLUMNS: Record<string, string> = {
+  attributes: 'TEXT',
+  evidence: 'TEXT',
+  starts_at: 'INTEGER',
+  ends_at: 'INTEGER',
+  recurrence: 'TEXT',
+  archived_at: 'INTEGER',
+  archive_reason: 'TEXT',
+};
+
+// Rows of each state; archived rows are neither active nor deleted
+const ACTIVE = 'deleted_at IS NULL AND archived_at IS NULL';
+const DELETED = 'deleted_at IS NOT NULL';
+const ARCHIVED = 'deleted_at IS NULL AND archived_at IS NOT NULL';
+
+// ListOptions.sortBy -> column
+const SORT_COLUMNS: Record<string, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  importance: 'importance',
+  confidence: 'confidence',
+  lastAccessedAt: 'last_accessed_at',
+};
+
+type Row = Record<string, SqlValue>;
+
+// sql.js compiles its WebAssembly once per process
+let sqlJs: SqlJsStatic | null = null;
+let sqlJsLoading: Promise<SqlJsStatic> | null = null;
+
+async function loadSqlJs(): Promise<SqlJsStatic> {
+  if (sqlJs) return sqlJs;
+  sqlJsLoading ??= initSqlJs().then(SQL => (sqlJs = SQL));
+  return sqlJsLoading;
+}
+
+export interface SqliteBackendOptions {
+  /** Namespace this database belongs to (see MemoryFileManagerOptions) */
+  namespace?: string;
+}
+
+export class SqliteBackend implements MemoryBackend {
+  private dbPath: string;
+  private namespace: string | undefined;
+  private db: Database | null = null;
+  private SQL: SqlJsStatic | null = null;
+  private lock: FileLock;
+  // Identity of the database file as last loaded or written by this process
+  private loadedVersion: string | null = null;
+
+  constructor(memoriesPath: string, options: SqliteBackendOptions = {}) {
+    this.dbPath = path.join(memoriesPath, SQLITE_FILENAME);
+    this.namespace = options.namespace;
+    this.lock = new FileLock(`${this.dbPath}.lock`);
+
+    // Open straight away when sql.js is already loaded (e.g. a namespace
+    // opened after the default one), so the backend is usable without init()
+    if (sqlJs) this.open(sqlJs);
+  }
+
+  /**
+   * Load sql.js and open (or create) the database file
+   */
+  async init(): Promise<void> {
+    if (this.db) return;
+    this.open(await loadSqlJs());
+  }
+
+  private open(SQL: SqlJsStatic): void {
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+    this.SQL = SQL;
+    this.load();
+  }
+
+  private load(): void {
+    this.loadedVersion = this.fileVersion();
+    this.db?.close();
+    this.db = this.loadedVersion !== null
+      ? new this.SQL!.Database(fs.readFileSync(this.dbPath))
+      : new this.SQL!.Database();
+    this.db.exec(SCHEMA);
+    this.addMissingColumns();
+  }
+
+  /**
+   * Bring databases created by older versions up to the current schema.
+   * Only changes the loaded copy; it reaches disk with the next write.
+   */
+  private addMissingColumns(): void {
+    const existing = new Set(
+      (this.db!.exec('PRAGMA table_info(memories)')[0]?.values ?? []).map(row => String(row[1]))
+    );
+    for (const [column, definition] of Object.entries(ADDED_COLUMNS)) {
+      if (!existing.has(column)) {
+        this.db!.exec(`ALTER TABLE memories ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  private fileVersion(): string | null {
+    try {
+      const stat = fs.statSync(this.dbPath);
+      return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Run a read-modify-write under the lock, starting from the latest
+   * database on disk
+   */
+  private mutate<T>(fn: () => T): T {
+    return this.lock.withLock(fn);
+  }
+
+  /**
+   * Create a new memory
+   */
+  create(input: CreateMemoryInput): Memory {
+    const now = Date.now();
+
+    const memory: Memory = {
+      id: randomUUID(),
+      content: input.content,
+      category: input.category,
+      confidence: input.confidence ?? 0.8,
+      importance: input.importance ?? 0.5,
+      createdAt: now,
+      updatedAt: now,
+      lastAccessedAt: now,
+      decayDays: input.decayDays ?? null,
+      sourceChannel: input.sourceChannel,
+      sourceMessageId: input.sourceMessageId,
+      namespace: this.namespace,
+      tags: input.tags ?? [],
+      supersedes: input.supersedes,
+      deletedAt: undefined,
+      deleteReason: undefined,
+      ...(input.attributes ? { attributes: input.attributes } : {}),
+      ...(input.startsAt !== undefined ? { startsAt: input.startsAt } : {}),
+      ...(input.endsAt !== undefined ? { endsAt: input.endsAt } : {}),
+      ...(input.recurrence ? { recurrence: input.recurrence } : {}),
+    };
+
+    this.mutate(() => {
+      this.writeMemory(memory);
+      this.persist();
+    });
+    return memory;
+  }
+
+  /**
+   * Read a memory by ID (full UUID or 8-character short ID)
+   */
+  get(id: string): Memory | null {
+    return this.findOne(id, ACTIVE);
+  }
+
+  /**
+   * Update an existing memory, keeping the previous version as a revision
+   */
+  update(
+    id: string,
+    updates: UpdateMemoryInput,
+    meta: RevisionMeta = {},
+    conditions: WriteConditions = {}
+  ): Memory | null {
+    return this.mutate(() => {
+      const existing = this.get(id);
+      if (!existing) return null;
+
+      // Ignore fields the caller left undefined rather than clearing them
+      const defined = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      ) as UpdateMemoryInput;
+
+      checkWriteConditions(this, existing, defined, conditions);
+      this.recordRevision(existing, { action: 'update', ...meta });
+
+      const { attributes: patch, startsAt, endsAt, recurrence, ...fields } = defined;
+      const updated: Memory = {
+        ...existing,
+        ...fields,
+        content: updates.content ?? existing.content,
+        updatedAt: nextUpdatedAt(existing),
+        tags: updates.tags ?? existing.tags,
+      };
+      if (patch !== undefined) {
+        const attributes = applyAttributePatch(existing.attributes, patch);
+        if (attributes) updated.attributes = attributes;
+        else delete updated.attributes;
+      }
+      applySchedulePatch(updated, { startsAt, endsAt, recurrence });
+
+      this.writeMemory(updated);
+      this.persist();
+      return updated;
+    });
+  }
+
+  /**
+   * Soft delete a memory
+   */
+  delete(id: string, reason?: string, meta: RevisionMeta = {}): boolean {
+    return this.mutate(() => {
+      const memory = this.get(id);
+      if (!memory) return false;
+
+      this.recordRevision(memory, { action: 'delete', reason, ...meta });
+
+      memory.deletedAt = Date.now();
+      memory.deleteReason = reason;
+      this.writeMemory(memory);
+      this.persist();
+      return true;
+    });
+  }
+
+  /**
+   * Move an expired memory to the archive, which purging leaves alone
+   */
+  archive(id: string, reason?: string, meta: RevisionMeta = {}): boolean {
+    return this.mutate(() => {
+      const memory = this.get(id);
+      if (!memory) return false;
+
+      this.recordRevision(memory, { action: 'archive', reason, ...meta });
+
+      memory.archivedAt = Date.now();
+      memory.archiveReason = reason;
+      this.writeMemory(memory);
+      this.persist();
+      return true;
+    });
+  }
+
+  /**
+   * Restore a soft-deleted or archived memory, clearing the deletion or
+   * archive fields. An archived memory's decay starts over.
+   */
+  restore(id: string): Memory | null {
+    return this.mutate(() => {
+      const deleted = this.getDeleted(id);
+      const memory = deleted ?? this.getArchived(id);
+      if (!memory) return null;
+
+      memory.deletedAt = undefined;
+      memory.deleteReason = undefined;
+      if (!deleted) restartDecay(memory);
+      delete memory.archivedAt;
+      delete memory.archiveReason;
+      this.writeMemory(memory);
+      this.persist();
+      return memory;
+    });
+  }
+
+  /**
+   * List soft-deleted memories, most recently deleted first
+   */
+  listDeleted(limit: number = 20): Memory[] {
+    return this.query(
+      `SELECT * FROM memories WHERE ${DELETED} ORDER BY deleted_at DESC LIMIT ?`,
+      [limit]
+    ).map(row => this.rowToMemory(row));
+  }
+
+  /**
+   * Read a soft-deleted memory by ID (full UUID or 8-character short ID)
+   */
+  getDeleted(id: string): Memory | null {
+    return this.findOne(id, DELETED);
+  }
+
+  /**
+   * Every archived memory
+   */
+  listArchived(): Memory[] {
+    return this.query(`SELECT * FROM memories WHERE ${ARCHIVED}`).map(row => this.rowToMemory(row));
+  }
+
+  /**
+   * Read an archived memory by ID (full UUID or 8-character short ID)
+   */
+  getArchived(id: string): Memory | null {
+    return this.findOne(id, ARCHIVED);
+  }
+
+  /**
+   * Permanently remove soft-deleted memories past the retention policy
+   */
+  purgeDeleted(options: PurgeDeletedOptions, now: number = Date.now()): PurgeDeletedResult {
+    return this.mutate(() => {
+      const deleted = this.query(`SELECT * FROM memories WHERE ${DELETED} ORDER BY deleted_at DESC`)
+        .map(row => {
+          const memory = this.rowToMemory(row);
+          return { memory, deletedAt: memory.deletedAt ?? 0 };
+        });
+
+      const toPurge = selectPurgeable(deleted, options, now);
+
+      const dryRun = options.dryRun === true;
+      if (!dryRun && toPurge.size > 0) {
+        for (const { memory } of toPurge) {
+          this.getDb().run('DELETE FROM memories WHERE id = ?', [memory.id]);
+          this.getDb().run('DELETE FROM revisions WHERE memory_id = ?', [memory.id]);
+        }
+        this.persist();
+      }
+
+      return {
+        purged: [...toPurge].map(({ memory }) => ({
+          id: memory.id,
+          deletedAt: memory.deletedAt,
+          deleteReason: memory.deleteReason,
+        })),
+        remaining: deleted.length - toPurge.size,
+        dryRun,
+      };
+    });
+  }
+
+  /**
+   * List the recorded revisions of a memory, oldest first
+   */
+  history(id: string): MemoryRevision[] {
+    const memoryId = this.resolveRevisionId(id);
+    if (!memoryId) return [];
+
+    return this.query('SELECT * FROM revisions WHERE memory_id = ? ORDER BY revision', [memoryId])
+      .map(row => ({
+        revision: Number(row.revision),
+        action: String(row.action) as MemoryRevision['action'],
+        recordedAt: Number(row.recorded_at),
+        actor: optionalString(row.actor),
+        reason: optionalString(row.reason),
+        memory: JSON.parse(String(row.snapshot)) as Memory,
+      }));
+  }
+
+  /**
+   * Roll a memory back to one of its revisions
+   */
+  revert(id: string, revision: number, meta: RevisionMeta = {}): Memory | null {
+    return this.mutate(() => revertToRevision(this, id, revision, meta));
+  }
+
+  /**
+   * List memories with sorting and pagination
+   */
+  list(options: ListOptions = {}): { total: number; items: Memory[] } {
+    const where = options.category ? `${ACTIVE} AND category = ?` : ACTIVE;
+    const params: SqlValue[] = options.category ? [options.category] : [];
+
+    const column = SORT_COLUMNS[options.sortBy ?? 'createdAt'] ?? 'created_at';
+    const order = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const total = Number(this.query(`SELECT COUNT(*) AS n FROM memories WHERE ${where}`, params)[0].n);
+    const items = this.query(
+      `SELECT * FROM memories WHERE ${where} ORDER BY ${column} ${order} LIMIT ? OFFSET ?`,
+      [...params, options.limit ?? 20, options.offset ?? 0]
+    ).map(row => this.rowToMemory(row));
+
+    return { total, items };
+  }
+
+  /**
+   * Get memories by category, most important first
+   */
+  getByCategory(category: MemoryCategory, limit: number = 50): Memory[] {
+    return this.query(
+      `SELECT * FROM memories WHERE ${ACTIVE} AND category = ? ORDER BY importance DESC LIMIT ?`,
+      [category, limit]
+    ).map(row => this.rowToMemory(row));
+  }
+
+  /**
+   * All non-deleted memories, optionally limited to one category (unsorted)
+   */
+  all(category?: MemoryCategory): Memory[] {
+    const rows = category
+      ? this.query(`SELECT * FROM memories WHERE ${ACTIVE} AND category = ?`, [category])
+      : this.query(`SELECT * FROM memories WHERE ${ACTIVE}`);
+    return rows.map(row => this.rowToMemory(row));
+  }
+
+  /**
+   * Update last accessed time for memories
+   */
+  touchMany(ids: string[]): void {
+    const now = Date.now();
+    this.mutate(() => {
+      let touched = false;
+      for (const id of ids) {
+        const memory = this.get(id);
+        if (memory) {
+          this.getDb().run('UPDATE memories SET last_accessed_at = ? WHERE id = ?', [now, memory.id]);
+          touched = true;
+        }
+      }
+      if (touched) this.persist();
+    });
+  }
+
+  /**
+   * Count non-deleted memories
+   */
+  count(): number {
+    return Number(this.query(`SELECT COUNT(*) AS n FROM memories WHERE ${ACTIVE}`)[0].n);
+  }
+
+  /**
+   * Close the database (every change is already on disk)
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private getDb(): Database {
+    if (!this.db) {
+      throw new Error('SQLite backend is not initialized; await init() first');
+    }
+    // Pick up writes from other processes. Under the lock nobody else can
+    // replace the file, so this never discards our own unpersisted changes.
+    if (this.fileVersion() !== this.loadedVersion) this.load();
+    return this.db!;
+  }
+
+  private query(sql: string, params: SqlValue[] = []): Row[] {
+    const stmt = this.getDb().prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: Row[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject());
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  private findOne(id: string, state: string): Memory | null {
+    const exact = this.query(`SELECT * FROM memories WHERE ${state} AND id = ?`, [id]);
+    if (exact.length > 0) return this.rowToMemory(exact[0]);
+
+    if (id.length === 8) {
+      const short = this.query(`SELECT * FROM memories WHERE ${state} AND substr(id, 1, 8) = ? LIMIT 1`, [id]);
+      if (short.length > 0) return this.rowToMemory(short[0]);
+    }
+
+    return null;
+  }
+
+  private resolveRevisionId(id: string): string | null {
+    const exact = this.query('SELECT memory_id FROM revisions WHERE memory_id = ? LIMIT 1', [id]);
+    if (exact.length > 0) return id;
+
+    if (id.length === 8) {
+      const short = this.query('SELECT memory_id FROM revisions WHERE substr(memory_id, 1, 8) = ? LIMIT 1', [id]);
+      if (short.length > 0) return String(short[0].memory_id);
+    }
+
+    return null;
+  }
+
+  private recordRevision(memory: Memory, meta: RevisionMeta & { action: MemoryRevision['action'] }): void {
+    const next = Number(
+      this.query('SELECT COALESCE(MAX(revision), 0) + 1 AS n FROM revisions WHERE memory_id = ?', [memory.id])[0].n
+    );
+    this.getDb().run(
+      'INSERT INTO revisions (memory_id, revision, action, recorded_at, actor, reason, snapshot) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [memory.id, next, meta.action, Date.now(), meta.actor ?? null, meta.reason ?? null, JSON.stringify(memory)]
+    );
+  }
+
+  private writeMemory(memory: Memory): void {
+    this.getDb().run(
+      `INSERT OR REPLACE INTO memories (
+        id, content, category, confidence, importance, created_at, updated_at, last_accessed_at,
+        decay_days, source_channel, source_message_id, namespace, tags, supersedes,
+        deleted_at, delete_reason, archived_at, archive_reason, extra, attributes, evidence,
+        starts_at, ends_at, recurrence
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        memory.id,
+        memory.content,
+        memory.category,
+        memory.confidence,
+        memory.importance,
+        memory.createdAt,
+        memory.updatedAt,
+        memory.lastAccessedAt,
+        memory.decayDays ?? null,
+        memory.sourceChannel ?? null,
+        memory.sourceMessageId ?? null,
+        memory.namespace ?? null,
+        JSON.stringify(memory.tags),
+        memory.supersedes ?? null,
+        memory.deletedAt ?? null,
+        memory.deleteReason ?? null,
+        memory.archivedAt ?? null,
+        memory.archiveReason ?? null,
+        memory.extraFrontmatter ? JSON.stringify(memory.extraFrontmatter) : null,
+        memory.attributes ? JSON.stringify(memory.attributes) : null,
+        memory.evidence ? JSON.stringify(memory.evidence) : null,
+        memory.startsAt ?? null,
+        memory.endsAt ?? null,
+        memory.recurrence ?? null,
+      ]
+    );
+  }
+
+  private rowToMemory(row: Row): Memory {
+    return {
+      id: String(row.id),
+      content: String(row.content),
+      category: String(row.category) as MemoryCategory,
+      confidence: Number(row.confidence),
+      importance: Number(row.importance),
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+      lastAccessedAt: Number(row.last_accessed_at),
+      decayDays: row.decay_days === null ? null : Number(row.decay_days),
+      sourceChannel: optionalString(row.source_channel),
+      sourceMessageId: optionalString(row.source_message_id),
+      // Location decides the namespace, as with the markdown backend
+      namespace: this.namespace,
+      tags: JSON.parse(String(row.tags)) as string[],
+      supersedes: optionalString(row.supersedes),
+      deletedAt: row.deleted_at === null ? undefined : Number(row.deleted_at),
+      deleteReason: optionalString(row.delete_reason),
+      ...(row.archived_at !== null && row.archived_at !== undefined
+        ? { archivedAt: Number(row.archived_at), archiveReason: optionalString(row.archive_reason) }
+        : {}),
+      ...(row.attributes !== null && row.attributes !== undefined
+        ? { attributes: JSON.parse(String(row.attributes)) }
+        : {}),
+      ...(row.evidence !== null && row.evidence !== undefined
+        ? { evidence: JSON.parse(String(row.evidence)) }
+        : {}),
+      ...(row.starts_at !== null && row.starts_at !== undefined ? { startsAt: Number(row.starts_at) } : {}),
+      ...(row.ends_at !== null && row.ends_at !== undefined ? { endsAt: Number(row.ends_at) } : {}),
+      ...(isRecurrence(row.recurrence) ? { recurrence: row.recurrence } : {}),
+      ...(row.extra !== null ? { extraFrontmatter: JSON.parse(String(row.extra)) } : {}),
+    };
+  }
+
+  /**
+   * Write the database back to disk: temp file, then rename
+   */
+  private persist(): void {
+    const data = this.getDb().export();
+    const tempPath = `${this.dbPath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, this.dbPath);
+    this.loadedVersion = this.fileVersion();
+  }
+}
+
+function optionalString(value: SqlValue | undefined): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
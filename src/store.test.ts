@@ -4,12 +4,13 @@
  * Tests file-based storage and migration from v1.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { MemoryFileManager } from './file-manager.js';
 import { MemoryStore } from './store.js';
+import { namespaceCollection } from './namespace.js';
 import {
   hasLegacyDatabase,
   hasNewMemories,
@@ -38,6 +39,7 @@ describe('MemoryFileManager', () => {
   });
 
   afterEach(() => {
+    fileManager.close();
     cleanupTempDir(tempDir);
   });
 
@@ -137,6 +139,68 @@ describe('MemoryFileManager', () => {
     expect(content).toContain('delete_reason: Test deletion');
   });
 
+  it('should restore a soft deleted memory', () => {
+    const created = fileManager.create({
+      content: 'To be restored',
+      category: 'preference',
+    });
+    fileManager.delete(created.id, 'Test deletion');
+
+    expect(fileManager.listDeleted().map(m => m.id)).toEqual([created.id]);
+
+    const restored = fileManager.restore(created.id);
+    expect(restored!.id).toBe(created.id);
+    expect(restored!.deletedAt).toBeUndefined();
+
+    expect(fs.existsSync(path.join(tempDir, '.deleted', `${created.id}.md`))).toBe(false);
+    expect(fs.existsSync(path.join(tempDir, 'preferences', `${created.id}.md`))).toBe(true);
+    expect(fileManager.get(created.id)!.content).toBe('To be restored');
+    expect(fileManager.listDeleted()).toEqual([]);
+  });
+
+  it('should purge deleted memories past the retention policy', () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const m = fileManager.create({ content: `Trash ${i}`, category: 'fact' });
+      fileManager.delete(m.id, `reason ${i}`);
+      ids.push(m.id);
+    }
+    const deletedDir = path.join(tempDir, '.deleted');
+    const inTenDays = Date.now() + 10 * 24 * 60 * 60 * 1000;
+
+    const dryRun = fileManager.purgeDeleted({ retentionDays: 7, dryRun: true }, inTenDays);
+    expect(dryRun.purged).toHaveLength(3);
+    expect(dryRun.dryRun).toBe(true);
+    expect(fs.readdirSync(deletedDir)).toHaveLength(3);
+
+    expect(fileManager.purgeDeleted({ retentionDays: 30 }, inTenDays).purged).toEqual([]);
+
+    const capped = fileManager.purgeDeleted({ maxItems: 1 });
+    expect(capped.purged).toHaveLength(2);
+    expect(capped.remaining).toBe(1);
+    expect(fs.readdirSync(deletedDir)).toHaveLength(1);
+
+    const expired = fileManager.purgeDeleted({ retentionDays: 7 }, inTenDays);
+    expect(expired.purged).toHaveLength(1);
+    expect(fs.readdirSync(deletedDir)).toEqual([]);
+  });
+
+  it('should keep an immutable revision for every update', () => {
+    const created = fileManager.create({ content: 'Version 1', category: 'fact' });
+    fileManager.update(created.id, { content: 'Version 2' }, { actor: 'test', reason: 'first edit' });
+    fileManager.update(created.id, { content: 'Version 3', confidence: 0.5 });
+
+    const revisions = fileManager.history(created.id);
+    expect(revisions.map(r => r.revision)).toEqual([1, 2]);
+    expect(revisions.map(r => r.memory.content)).toEqual(['Version 1', 'Version 2']);
+    expect(revisions[0]).toMatchObject({ action: 'update', actor: 'test', reason: 'first edit' });
+    expect(revisions[1].memory.extraFrontmatter).toBeUndefined();
+
+    const historyDir = path.join(tempDir, '.history', created.id);
+    expect(fs.readdirSync(historyDir)).toEqual(['0001.md', '0002.md']);
+    expect(fileManager.history(created.id.slice(0, 8))).toHaveLength(2);
+  });
+
   it('should list memories with pagination', () => {
     // Create 5 memories
     for (let i = 0; i < 5; i++) {
@@ -198,6 +262,57 @@ describe('MemoryFileManager', () => {
     expect(facts[1].importance).toBe(0.6);
     expect(facts[2].importance).toBe(0.3);
   });
+
+  it('should look up memories by tag', () => {
+    fileManager.create({ content: 'Tagged', category: 'fact', tags: ['food'] });
+    fileManager.create({ content: 'Untagged', category: 'fact' });
+
+    const tagged = fileManager.getByTag('food');
+    expect(tagged.length).toBe(1);
+    expect(tagged[0].content).toBe('Tagged');
+  });
+
+  it('should not let callers mutate indexed memories', () => {
+    const created = fileManager.create({ content: 'Immutable', category: 'fact', tags: ['a'] });
+
+    const first = fileManager.get(created.id)!;
+    first.content = 'Changed';
+    first.tags.push('b');
+
+    const second = fileManager.get(created.id)!;
+    expect(second.content).toBe('Immutable');
+    expect(second.tags).toEqual(['a']);
+  });
+
+  it('should pick up hand edits to memory files', async () => {
+    const created = fileManager.create({ content: 'Before edit', category: 'fact' });
+    expect(fileManager.get(created.id)!.content).toBe('Before edit');
+
+    const filePath = path.join(tempDir, 'facts', `${created.id}.md`);
+    fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf-8').replace('Before edit', 'After edit'));
+    fs.writeFileSync(path.join(tempDir, 'facts', 'hand-written.md'), '---\nid: hand-written\ncategory: fact\n---\n\nWritten by hand\n');
+
+    await vi.waitFor(() => {
+      expect(fileManager.get(created.id)!.content).toBe('After edit');
+      expect(fileManager.count()).toBe(2);
+    });
+
+    fs.unlinkSync(filePath);
+    await vi.waitFor(() => {
+      expect(fileManager.get(created.id)).toBeNull();
+    });
+    fileManager.close();
+  });
+
+  it('should read from disk when watching is disabled', () => {
+    const unwatched = new MemoryFileManager(tempDir, { watch: false });
+    const created = unwatched.create({ content: 'Before edit', category: 'fact' });
+
+    const filePath = path.join(tempDir, 'facts', `${created.id}.md`);
+    fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf-8').replace('Before edit', 'After edit'));
+
+    expect(unwatched.get(created.id)!.content).toBe('After edit');
+  });
 });
 
 describe('Migration', () => {
@@ -266,6 +381,51 @@ describe('MemoryStore', () => {
     expect(retrieved!.content).toBe('Test memory');
   });
 
+  it('should keep namespaces isolated from each other', async () => {
+    const alice = await store.create({ content: 'Prefers tea', category: 'preference', namespace: 'alice' });
+    await store.create({ content: 'Prefers coffee', category: 'preference' });
+
+    expect(alice.namespace).toBe('alice');
+    expect(fs.existsSync(path.join(tempDir, 'namespaces', 'alice', 'preferences', `${alice.id}.md`))).toBe(true);
+
+    expect(store.get(alice.id)).toBeNull();
+    expect(store.forNamespace('alice').get(alice.id)?.content).toBe('Prefers tea');
+    expect(store.forNamespace('bob').get(alice.id)).toBeNull();
+
+    expect(store.list().items.map(m => m.content)).toEqual(['Prefers coffee']);
+    expect(store.list({ namespace: 'alice' }).items.map(m => m.content)).toEqual(['Prefers tea']);
+    expect((await store.search({ query: 'prefers', namespace: 'bob' }))).toEqual([]);
+    expect(store.listNamespaces()).toEqual(['alice', 'bob']);
+  });
+
+  it('should give long namespaces distinct QMD collections', () => {
+    const collection = 'memories-of-a-rather-long-named-agent-install';
+    const a = namespaceCollection(collection, `telegram-${'1'.repeat(30)}-alice`);
+    const b = namespaceCollection(collection, `telegram-${'1'.repeat(30)}-bob`);
+
+    expect(a).not.toBe(b);
+    expect(a.length).toBeLessThanOrEqual(64);
+  });
+
+  it('should keep everything in one file with the sqlite backend', async () => {
+    const sqliteDir = path.join(tempDir, 'sqlite');
+    const sqliteStore = new MemoryStore(sqliteDir, 'memories', { backend: 'sqlite' });
+    try {
+      await sqliteStore.open();
+      await sqliteStore.create({ content: 'User likes green tea', category: 'preference' });
+      await sqliteStore.create({ content: 'Prefers oolong', category: 'preference', namespace: 'alice' });
+
+      const results = await sqliteStore.search({ query: 'green tea' });
+      expect(results.map(r => r.memory.content)).toEqual(['User likes green tea']);
+      expect(sqliteStore.forNamespace('alice').count()).toBe(1);
+
+      expect(fs.readdirSync(sqliteDir).sort()).toEqual(['memories.sqlite', 'namespaces']);
+      expect(fs.readdirSync(path.join(sqliteDir, 'namespaces', 'alice'))).toEqual(['memories.sqlite']);
+    } finally {
+      sqliteStore.close();
+    }
+  });
+
   it('should update memories', async () => {
     const memory = await store.create({
       content: 'Original',
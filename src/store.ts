@@ -1,38 +1,238 @@
 /**
  * Memory Store v2
  *
- * File-based storage with QMD search.
+ * File-based storage searched by QMD or the built-in engines.
  * No SQLite, no LanceDB, no OpenAI.
  */
 
 import type {
   Memory,
   MemorySearchResult,
+  MemorySearchPage,
   CreateMemoryInput,
   UpdateMemoryInput,
   SearchOptions,
   ListOptions,
   MemoryCategory,
+  PurgeDeletedOptions,
+  PurgeDeletedResult,
+  ExpireDecayedOptions,
+  ReinforceInput,
+  ReinforceResult,
+  ExpireDecayedResult,
+  UpcomingItem,
+  UpcomingOptions,
+  RevisionMeta,
+  WriteConditions,
+  MemoryHistoryResult,
 } from './types.js';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
 import { MemoryFileManager } from './file-manager.js';
+import { SqliteBackend, SQLITE_FILENAME } from './sqlite-backend.js';
+import { MemoryConflictError, type BackendType, type MemoryBackend } from './backend.js';
 import { QMDClient } from './qmd.js';
+import { NAMESPACES_DIR, namespaceCollection, normalizeNamespace } from './namespace.js';
+import type { EncryptionMode, MemoryCipher } from './encryption.js';
+import { GitClient, type GitLogEntry } from './git.js';
+import { runDoctor, type DoctorReport } from './doctor.js';
+import { DEFAULT_CATEGORIES, type CategoryRegistry } from './categories.js';
+import { EventEndedError, expiryReason, isExpired } from './expiry.js';
+import { applySchedulePatch, assertValidSchedule, eventEnd, systemTimeZone } from './events.js';
+import { addEvidence, reinforcedScores } from './reinforcement.js';
+import { findUpcoming } from './upcoming.js';
+import { INDEX_DIR } from './sidecar.js';
+import {
+  createSearchEngines,
+  DEFAULT_RELATED_SIMILARITY,
+  DEFAULT_SEARCH_ENGINES,
+  SEARCH_CANDIDATES,
+  type SearchEngineChain,
+  type SearchEngineStatus,
+  type SearchHit,
+} from './search-engine.js';
+import { DEFAULT_EMBEDDING_PROVIDER, getEmbeddingProvider } from './embeddings.js';
+import { DEFAULT_RANKING, scoreMemory, type RankingConfig } from './ranking.js';
+import { applyAttributePatch, normalizeAttributes } from './attributes.js';
+import { decodeCursor, encodeCursor, matchesSearchFilters, sortResults } from './filters.js';
+import { buildSnippet, passageIn } from './snippets.js';
+
+export interface MemoryStoreOptions {
+  /**
+   * Namespace partition to open. Undefined opens the default namespace,
+   * which lives directly in memoriesPath.
+   */
+  namespace?: string;
+
+  /**
+   * Storage backend: 'markdown' (default) or 'sqlite'. QMD indexes markdown
+   * files, so the sqlite backend always uses the built-in keyword search.
+   */
+  backend?: BackendType;
+
+  /**
+   * Encryption at rest for the markdown backend. Encrypted files can't be
+   * indexed by QMD, so search uses the built-in keyword search instead.
+   */
+  encryption?: EncryptionMode;
+
+  /** Key for encrypted files (see MemoryFileManagerOptions.cipher) */
+  cipher?: MemoryCipher;
+
+  /**
+   * Keep memoriesPath as a git repository with a commit per change
+   * (markdown backend only). Namespaces share the repository.
+   */
+  git?: boolean;
+
+  /**
+   * Categories memories can be stored in: the built-ins plus any from
+   * config. Defaults to the built-ins.
+   */
+  categories?: CategoryRegistry;
+
+  /** How search results are ranked. Defaults to DEFAULT_RANKING. */
+  ranking?: RankingConfig;
+
+  /** IANA timezone recurring events repeat in. Defaults to the system's. */
+  timezone?: string;
+
+  /**
+   * Search engines to ask, in order (see search-engine.ts). Defaults to
+   * DEFAULT_SEARCH_ENGINES.
+   */
+  searchEngines?: string[];
+
+  /** Embedding provider of the vector engine. Defaults to 'ngram'. */
+  embeddingProvider?: string;
+}
 
 export class MemoryStoreV2 {
-  private fileManager: MemoryFileManager;
+  private backend: MemoryBackend;
+  private backendType: BackendType;
+  private encryption: EncryptionMode;
+  private cipher: MemoryCipher | undefined;
+  private gitEnabled: boolean;
+  private categories: CategoryRegistry;
+  private ranking: RankingConfig;
+  private timezone: string;
   private qmd: QMDClient;
+  private searchEngineNames: string[];
+  private embeddingProvider: string;
+  private engineChain: SearchEngineChain | null = null;
   private memoriesPath: string;
+  private qmdCollection: string;
+  private namespace: string | undefined;
+  private parent: MemoryStoreV2 | null = null;
+  private partitions = new Map<string, MemoryStoreV2>();
+
+  constructor(memoriesPath: string, qmdCollection: string = 'memories', options: MemoryStoreOptions = {}) {
+    this.namespace = options.namespace !== undefined ? normalizeNamespace(options.namespace) : undefined;
+    this.qmdCollection = qmdCollection;
+    this.backendType = options.backend ?? 'markdown';
+    this.encryption = options.encryption ?? 'off';
+    this.cipher = options.cipher;
+    this.gitEnabled = options.git === true;
+    this.categories = options.categories ?? DEFAULT_CATEGORIES;
+    this.ranking = options.ranking ?? DEFAULT_RANKING;
+    this.timezone = options.timezone ?? systemTimeZone();
+    this.searchEngineNames = options.searchEngines ?? DEFAULT_SEARCH_ENGINES;
+    this.embeddingProvider = options.embeddingProvider ?? DEFAULT_EMBEDDING_PROVIDER;
+    if (this.backendType !== 'markdown' && this.encryption !== 'off') {
+      throw new Error(`Encryption is only supported by the markdown backend, not '${this.backendType}'`);
+    }
+    if (this.backendType !== 'markdown' && this.gitEnabled) {
+      throw new Error(`Git versioning is only supported by the markdown backend, not '${this.backendType}'`);
+    }
+    this.memoriesPath = this.namespace === undefined
+      ? memoriesPath
+      : path.join(memoriesPath, NAMESPACES_DIR, this.namespace);
+
+    this.backend = this.backendType === 'sqlite'
+      ? new SqliteBackend(this.memoriesPath, { namespace: this.namespace })
+      : new MemoryFileManager(this.memoriesPath, {
+        namespace: this.namespace,
+        encryption: this.encryption,
+        cipher: this.cipher,
+        categories: this.categories,
+        git: !this.gitEnabled
+          ? undefined
+          : this.namespace === undefined
+            ? new GitClient(this.memoriesPath, { excludeDirs: [NAMESPACES_DIR, INDEX_DIR] })
+            : new GitClient(this.memoriesPath, { repoRoot: memoriesPath, excludeDirs: [INDEX_DIR] }),
+      });
 
-  constructor(memoriesPath: string, qmdCollection: string = 'memories') {
-    this.memoriesPath = memoriesPath;
-    this.fileManager = new MemoryFileManager(memoriesPath);
-    this.qmd = new QMDClient(memoriesPath, qmdCollection);
+    const disabled = this.backendType !== 'markdown' || this.encryption !== 'off';
+    this.qmd = this.namespace === undefined
+      // Namespace partitions are indexed by their own collections
+      ? new QMDClient(memoriesPath, qmdCollection, { disabled, excludeDirs: [NAMESPACES_DIR] })
+      : new QMDClient(this.memoriesPath, namespaceCollection(qmdCollection, this.namespace), { disabled });
   }
 
   /**
-   * Initialize the store and QMD collection
+   * Get the store for a namespace. Each namespace has its own directory and
+   * QMD collection, so memories never cross between them.
+   * Undefined returns the default namespace.
+   */
+  forNamespace(namespace?: string): MemoryStoreV2 {
+    if (this.parent) return this.parent.forNamespace(namespace);
+    if (namespace === undefined) return this;
+
+    const normalized = normalizeNamespace(namespace);
+    let partition = this.partitions.get(normalized);
+    if (!partition) {
+      partition = new MemoryStoreV2(this.memoriesPath, this.qmdCollection, {
+        namespace: normalized,
+        backend: this.backendType,
+        encryption: this.encryption,
+        cipher: this.cipher,
+        git: this.gitEnabled,
+        categories: this.categories,
+        ranking: this.ranking,
+        timezone: this.timezone,
+        searchEngines: this.searchEngineNames,
+        embeddingProvider: this.embeddingProvider,
+      });
+      partition.parent = this;
+      this.partitions.set(normalized, partition);
+    }
+    return partition;
+  }
+
+  /**
+   * Namespaces that have been opened on disk (the default namespace not included)
+   */
+  listNamespaces(): string[] {
+    const root = this.parent ?? this;
+    const dir = path.join(root.memoriesPath, NAMESPACES_DIR);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+  }
+
+  /**
+   * Namespace of this store (undefined for the default namespace)
+   */
+  getNamespace(): string | undefined {
+    return this.namespace;
+  }
+
+  /**
+   * Open the storage backend (loads the database for the sqlite backend)
+   */
+  async open(): Promise<void> {
+    await this.backend.init();
+  }
+
+  /**
+   * Initialize the store and the search engines (e.g. the QMD collection)
    */
   async init(): Promise<void> {
-    await this.qmd.ensureCollection();
+    await this.open();
+    await this.engines().init();
   }
 
   /**
@@ -43,13 +243,27 @@ export class MemoryStoreV2 {
   }
 
   /**
-   * Create a new memory
+   * Create a new memory. Importance and decay default to the category's.
+   * An inconsistent schedule throws EventTimeError.
    */
-  async create(input: CreateMemoryInput): Promise<Memory> {
-    const memory = this.fileManager.create(input);
+  async create(input: CreateMemoryInput, meta?: RevisionMeta): Promise<Memory> {
+    const target = this.route(input.namespace);
+    if (target !== this) {
+      return target.create({ ...input, namespace: undefined }, meta);
+    }
+
+    this.categories.assertKnown(input.category);
+    assertValidSchedule(input);
+    const category = this.categories.get(input.category)!;
+    const memory = this.backend.create({
+      ...input,
+      attributes: normalizeAttributes(input.attributes),
+      importance: input.importance ?? category.defaultImportance,
+      decayDays: input.decayDays !== undefined ? input.decayDays : category.defaultDecayDays,
+    }, meta);
 
-    // Schedule QMD index update
-    this.qmd.scheduleUpdate();
+    // Update the search indexes
+    this.engines().index([memory]);
 
     return memory;
   }
@@ -58,180 +272,420 @@ export class MemoryStoreV2 {
    * Get a memory by ID
    */
   get(id: string): Memory | null {
-    return this.fileManager.get(id);
+    return this.backend.get(id);
   }
 
   /**
    * Async version of get (for API compatibility)
    */
   async getAsync(id: string): Promise<Memory | null> {
-    return this.fileManager.get(id);
+    return this.backend.get(id);
   }
 
   /**
-   * Update an existing memory
+   * Update an existing memory. With conditions.expectedUpdatedAt set, throws
+   * MemoryConflictError if another writer changed the same fields since.
+   * Invalid attributes throw AttributeValidationError, an inconsistent
+   * schedule EventTimeError.
    */
-  async update(id: string, updates: UpdateMemoryInput): Promise<Memory> {
-    const updated = this.fileManager.update(id, updates);
+  async update(
+    id: string,
+    updates: UpdateMemoryInput,
+    meta?: RevisionMeta,
+    conditions?: WriteConditions
+  ): Promise<Memory> {
+    if (updates.category !== undefined) {
+      this.categories.assertKnown(updates.category);
+    }
+    if (updates.attributes !== undefined) {
+      // Validate before taking the lock; the backend merges the patch
+      applyAttributePatch(undefined, updates.attributes);
+    }
+    if (updates.startsAt !== undefined || updates.endsAt !== undefined || updates.recurrence !== undefined) {
+      const existing = this.backend.get(id);
+      if (existing) {
+        const merged = { ...existing };
+        applySchedulePatch(merged, updates);
+        assertValidSchedule(merged);
+      }
+    }
+    const updated = this.backend.update(id, updates, meta, conditions);
     if (!updated) {
       throw new Error(`Memory ${id} not found`);
     }
 
-    // Schedule QMD index update
-    this.qmd.scheduleUpdate();
+    // Update the search indexes
+    this.engines().index([updated]);
 
     return updated;
   }
 
+  /**
+   * Reinforce a memory that was mentioned again: raise its confidence and
+   * importance with diminishing returns, keep the mention as evidence and
+   * restart its decay clock (see reinforcement.ts)
+   */
+  async reinforce(id: string, input: ReinforceInput = {}, meta?: RevisionMeta): Promise<ReinforceResult> {
+    // Scores build on the current values, so a concurrent change means starting over
+    for (let attempt = 1; ; attempt++) {
+      const existing = this.backend.get(id);
+      if (!existing) {
+        throw new Error(`Memory ${id} not found`);
+      }
+
+      const scores = reinforcedScores(existing, input);
+      const evidence = addEvidence(existing, input);
+      let memory: Memory | null;
+      try {
+        memory = this.backend.update(existing.id, { ...scores, evidence }, {
+          action: 'reinforce',
+          reason: `Mentioned again${input.sourceChannel ? ` on ${input.sourceChannel}` : ''}`,
+          ...meta,
+        }, { expectedUpdatedAt: existing.updatedAt });
+      } catch (err) {
+        if (err instanceof MemoryConflictError && attempt < 3) continue;
+        throw err;
+      }
+      if (!memory) {
+        throw new Error(`Memory ${id} not found`);
+      }
+      this.backend.touchMany([memory.id]);
+
+      // Update the search indexes
+      this.engines().index([memory]);
+
+      return {
+        memory,
+        previous: { confidence: existing.confidence, importance: existing.importance },
+        reinforcements: evidence.length,
+        decayRefreshed: memory.decayDays !== null && memory.decayDays > 0,
+      };
+    }
+  }
+
   /**
    * Delete a memory (soft delete)
    */
-  async delete(id: string, reason?: string): Promise<void> {
-    const success = this.fileManager.delete(id, reason);
+  async delete(id: string, reason?: string, meta?: RevisionMeta): Promise<void> {
+    const success = this.backend.delete(id, reason, meta);
     if (!success) {
       throw new Error(`Memory ${id} not found`);
     }
 
-    // Schedule QMD index update
-    this.qmd.scheduleUpdate();
+    // Update the search indexes
+    this.engines().remove([id]);
   }
 
   /**
-   * Search memories using QMD
+   * Restore a soft-deleted or archived memory. Throws EventEndedError for
+   * an archived one-off event that has ended.
    */
-  async search(opts: SearchOptions): Promise<MemorySearchResult[]> {
-    const limit = opts.limit ?? 10;
-    let results: MemorySearchResult[] = [];
+  async restore(id: string, meta?: RevisionMeta): Promise<Memory> {
+    const archived = this.backend.getDeleted(id) ? null : this.backend.getArchived(id);
+    const ended = archived ? eventEnd(archived) : null;
+    if (archived && ended !== null && ended < Date.now()) {
+      throw new EventEndedError(archived.id, ended);
+    }
 
-    // If we have a query, use QMD semantic search
-    if (opts.query) {
-      const qmdResults = await this.qmd.query(opts.query, limit * 2); // Over-fetch for filtering
+    const restored = this.backend.restore(id, meta);
+    if (!restored) {
+      throw new Error(`Deleted memory ${id} not found`);
+    }
 
-      if (qmdResults.length === 0) {
-        return this.fallbackQuerySearch(opts.query, opts, limit);
-      }
+    // Update the search indexes
+    this.engines().index([restored]);
 
-      for (const qr of qmdResults) {
-        const memoryId = this.qmd.extractMemoryId(qr);
-        if (!memoryId) continue;
+    return restored;
+  }
 
-        const memory = this.fileManager.get(memoryId);
-        if (!memory || memory.deletedAt) continue;
+  /**
+   * List recently deleted memories (most recent first)
+   */
+  listDeleted(limit: number = 20): Memory[] {
+    return this.backend.listDeleted(limit);
+  }
 
-        // Apply filters
-        if (opts.category && memory.category !== opts.category) continue;
-        if (opts.minConfidence !== undefined && memory.confidence < opts.minConfidence) continue;
-        if (opts.minImportance !== undefined && memory.importance < opts.minImportance) continue;
+  /**
+   * Get a soft-deleted memory by ID
+   */
+  getDeleted(id: string): Memory | null {
+    return this.backend.getDeleted(id);
+  }
 
-        if (opts.tags?.length) {
-          const hasAllTags = opts.tags.every(tag => memory.tags.includes(tag));
-          if (!hasAllTags) continue;
-        }
+  /**
+   * Get an archived (expired) memory by ID
+   */
+  getArchived(id: string): Memory | null {
+    return this.backend.getArchived(id);
+  }
 
-        // Check decay
-        if (opts.excludeDecayed !== false && memory.decayDays) {
-          const expiresAt = memory.createdAt + (memory.decayDays * 86400000);
-          if (Date.now() > expiresAt) continue;
-        }
+  /**
+   * Permanently purge soft-deleted memories according to a retention policy.
+   * Archived memories are never purged.
+   */
+  purgeDeleted(options: PurgeDeletedOptions): PurgeDeletedResult {
+    return this.backend.purgeDeleted(options);
+  }
 
-        results.push({ memory, score: qr.score });
+  /**
+   * Move expired memories (past their decayDays, or events that have ended)
+   * to the archive with the expiry as the reason. The retention policy
+   * leaves them alone; searches with excludeDecayed false (and date ranges)
+   * still find them, and they can be restored like deleted memories.
+   */
+  expireDecayed(options: ExpireDecayedOptions = {}, meta?: RevisionMeta): ExpireDecayedResult {
+    const now = Date.now();
+    const expired = this.backend.all().filter(memory => isExpired(memory, now));
+
+    const result: ExpireDecayedResult = { expired: [], dryRun: options.dryRun === true };
+    for (const memory of expired) {
+      const reason = expiryReason(memory);
+      if (!result.dryRun) {
+        if (!this.backend.archive(memory.id, reason, { actor: 'expiry', ...meta })) continue;
       }
-    } else {
-      // No query - just list with filters
-      const listed = this.fileManager.list({
-        category: opts.category,
-        limit: limit,
-      });
+      result.expired.push({ id: memory.id, category: memory.category, content: memory.content, reason });
+    }
 
-      results = listed.items
-        .filter(memory => {
-          if (opts.minConfidence !== undefined && memory.confidence < opts.minConfidence) return false;
-          if (opts.minImportance !== undefined && memory.importance < opts.minImportance) return false;
+    return result;
+  }
 
-          if (opts.tags?.length) {
-            const hasAllTags = opts.tags.every(tag => memory.tags.includes(tag));
-            if (!hasAllTags) return false;
-          }
+  /**
+   * Events and birthdays due within options.withinMs, soonest first
+   */
+  upcoming(options: UpcomingOptions): UpcomingItem[] {
+    const now = options.now ?? Date.now();
+    const live = this.backend.all().filter(memory => !isExpired(memory, now));
+    return findUpcoming(live, { ...options, now, timeZone: this.timezone });
+  }
 
-          if (opts.excludeDecayed !== false && memory.decayDays) {
-            const expiresAt = memory.createdAt + (memory.decayDays * 86400000);
-            if (Date.now() > expiresAt) return false;
-          }
+  /**
+   * Rewrite every memory file of this store and all its namespaces in the
+   * configured encryption mode. Returns the number of files rewritten.
+   */
+  reencode(): number {
+    const stores = [this, ...this.listNamespaces().map(ns => this.forNamespace(ns))];
+    let rewritten = 0;
+    for (const store of stores) {
+      if (!(store.backend instanceof MemoryFileManager)) {
+        throw new Error(`Encryption is only supported by the markdown backend, not '${store.backendType}'`);
+      }
+      rewritten += store.backend.reencodeAll();
+    }
+    return rewritten;
+  }
 
-          return true;
-        })
-        .map(memory => ({ memory, score: 1.0 }));
+  /**
+   * Check this namespace's directory for broken, misplaced, duplicate and
+   * unindexed files; with fix, repair them
+   */
+  async doctor(options: { fix?: boolean } = {}): Promise<DoctorReport> {
+    const report = await runDoctor(this.memoriesPath, {
+      fix: options.fix,
+      encryption: this.encryption,
+      cipher: this.cipher,
+      qmd: this.engines().has('qmd') ? this.qmd : undefined,
+      lockPath: this.backendType === 'sqlite'
+        ? path.join(this.memoriesPath, `${SQLITE_FILENAME}.lock`)
+        : path.join(this.memoriesPath, '.lock'),
+      excludeDirs: this.namespace === undefined ? [NAMESPACES_DIR] : [],
+      namespace: this.namespace,
+      categories: this.categories,
+    });
+
+    if (options.fix && report.issues.some(issue => issue.fixed) && this.backend instanceof MemoryFileManager) {
+      this.backend.invalidateIndex();
+      this.backend.getGit()?.commit({ action: 'doctor', reason: 'Repaired by memory-tools doctor --fix' });
     }
 
-    return results.slice(0, limit);
+    return report;
+  }
+
+  /**
+   * Git commits recording changes to this namespace, newest first
+   */
+  log(options: { limit?: number; memoryId?: string } = {}): GitLogEntry[] {
+    return this.requireGit().getGit()!.log(options);
+  }
+
+  /**
+   * The change a git commit made, as a patch
+   */
+  diff(rev: string): string {
+    return this.requireGit().getGit()!.show(rev);
+  }
+
+  /**
+   * Put this namespace back to how it was at a git commit.
+   * Returns the full hash of that commit.
+   */
+  rollback(rev: string, meta?: RevisionMeta): string {
+    const hash = this.requireGit().rollback(rev, meta);
+
+    // Update the search indexes
+    this.engines().index(this.backend.all());
+
+    return hash;
   }
 
-  private fallbackQuerySearch(
-    query: string,
-    opts: SearchOptions,
-    limit: number
-  ): MemorySearchResult[] {
-    const all = this.fileManager.list({ category: opts.category, limit: 10000 }).items;
-    const queryText = query.toLowerCase().trim();
-    const queryTokens = queryText.split(/\s+/).filter(t => t.length > 1);
+  private requireGit(): MemoryFileManager {
+    if (!(this.backend instanceof MemoryFileManager) || !this.backend.getGit()) {
+      throw new Error('Git versioning is not enabled (set gitVersioning: true)');
+    }
+    return this.backend;
+  }
 
-    const scored = all
-      .filter(memory => {
-        if (memory.deletedAt) return false;
-        if (opts.minConfidence !== undefined && memory.confidence < opts.minConfidence) return false;
-        if (opts.minImportance !== undefined && memory.importance < opts.minImportance) return false;
+  /**
+   * Revision history of a memory (active, deleted or archived). Purging a
+   * memory removes its history with it.
+   */
+  history(id: string): MemoryHistoryResult {
+    const current = this.backend.get(id) ?? this.backend.getDeleted(id) ?? this.backend.getArchived(id);
+    return {
+      current,
+      revisions: this.backend.history(current?.id ?? id),
+    };
+  }
 
-        if (opts.tags?.length) {
-          const hasAllTags = opts.tags.every(tag => memory.tags.includes(tag));
-          if (!hasAllTags) return false;
-        }
+  /**
+   * Revert a memory to one of its revisions
+   */
+  async revert(id: string, revision: number, meta?: RevisionMeta): Promise<Memory> {
+    const reverted = this.backend.revert(id, revision, meta);
+    if (!reverted) {
+      throw new Error(`Memory ${id} not found`);
+    }
 
-        if (opts.excludeDecayed !== false && memory.decayDays) {
-          const expiresAt = memory.createdAt + (memory.decayDays * 86400000);
-          if (Date.now() > expiresAt) return false;
-        }
+    // Update the search indexes
+    this.engines().index([reverted]);
 
-        return true;
-      })
-      .map(memory => {
-        const haystack = `${memory.content} ${memory.tags.join(' ')}`.toLowerCase();
-        let score = 0;
-
-        if (haystack.includes(queryText)) {
-          score += 0.8;
-        }
-
-        if (queryTokens.length > 0) {
-          let tokenHits = 0;
-          for (const token of queryTokens) {
-            if (haystack.includes(token)) tokenHits++;
-          }
-          score += (tokenHits / queryTokens.length) * 0.2;
-        }
-
-        return { memory, score };
+    return reverted;
+  }
+
+  /**
+   * Search memories with the configured engines, ranked by the blended
+   * score (see ranking.ts) unless opts.rankBy is 'relevance'
+   */
+  async search(opts: SearchOptions): Promise<MemorySearchResult[]> {
+    return (await this.searchPage(opts)).results;
+  }
+
+  /**
+   * One page of search results, with the total and a cursor for the next
+   * page. Filters apply the same way with or without a query (see
+   * filters.ts), and each result has a snippet (see snippets.ts). With
+   * relatedTo, the seed memory's content is searched for by similarity
+   * instead of a query, and the seed itself is left out. A query or
+   * relatedTo ranks the engines' best SEARCH_CANDIDATES hits, whatever the
+   * page, so pages neither repeat nor skip results.
+   * Throws InvalidCursorError for a cursor from another search.
+   */
+  async searchPage(opts: SearchOptions): Promise<MemorySearchPage> {
+    const target = this.route(opts.namespace);
+    if (target !== this) {
+      return target.searchPage({ ...opts, namespace: undefined });
+    }
+
+    const limit = opts.limit ?? 10;
+    const offset = opts.cursor !== undefined ? decodeCursor(opts.cursor, opts) : (opts.offset ?? 0);
+    const filters = { timeZone: this.timezone };
+    let results: MemorySearchResult[] = [];
+    // Passages the engines matched, for snippets
+    const passages = new Map<string, string>();
+
+    // Archived (expired) memories are only searched with excludeDecayed false
+    const archived = opts.excludeDecayed === false
+      ? new Map(this.backend.listArchived().map(memory => [memory.id, memory]))
+      : null;
+    const lookup = (id: string) => this.backend.get(id) ?? archived?.get(id) ?? null;
+    const accept = (id: string) => {
+      const memory = lookup(id);
+      return memory !== null && matchesSearchFilters(memory, opts, filters);
+    };
+    let hits: SearchHit[] | null = null;
+    // Words to highlight in snippets
+    let matchedText = opts.query;
+
+    if (opts.relatedTo !== undefined) {
+      const seed = this.backend.get(opts.relatedTo);
+      if (!seed) {
+        throw new Error(`Memory ${opts.relatedTo} not found`);
+      }
+      hits = await this.engines().findSimilar(seed.content, {
+        threshold: opts.minSimilarity ?? DEFAULT_RELATED_SIMILARITY,
+        limit: SEARCH_CANDIDATES,
+        accept: id => id !== seed.id && accept(id),
+      });
+      matchedText = seed.content;
+    } else if (opts.query) {
+      hits = await this.engines().query(opts.query, {
+        limit: SEARCH_CANDIDATES,
+        accept,
+      }, opts.mode);
+    }
+
+    if (hits) {
+      // Engines that can't filter (QMD) return memories the filters reject
+      for (const hit of hits) {
+        const memory = lookup(hit.id);
+        if (!memory || memory.id === opts.relatedTo || !matchesSearchFilters(memory, opts, filters)) continue;
+        results.push({ memory, score: hit.score });
+        if (hit.snippet) passages.set(memory.id, hit.snippet);
+      }
+    } else {
+      // No query - every memory passing the filters, newest first for equal scores
+      results = [...this.backend.all(), ...(archived?.values() ?? [])]
+        .filter(memory => matchesSearchFilters(memory, opts, filters))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(memory => ({ memory, score: 1.0 }));
+    }
+
+    const sorted = sortResults(this.rank(results, opts), opts, filters);
+    const next = offset + limit;
+    return {
+      results: sorted.slice(offset, next).map(result => ({
+        ...result,
+        snippet: buildSnippet(result.memory.content, matchedText, {
+          length: opts.snippetLength,
+          passage: passageIn(passages.get(result.memory.id), result.memory.content),
+        }),
+      })),
+      offset,
+      total: sorted.length,
+      ...(next < sorted.length ? { nextCursor: encodeCursor(next, opts) } : {}),
+    };
+  }
+
+  /**
+   * Order results by the blended score, replacing each result's match score
+   * with it. With rankBy 'relevance' the match score is kept.
+   */
+  private rank(results: MemorySearchResult[], opts: SearchOptions): MemorySearchResult[] {
+    if (opts.rankBy === 'relevance') {
+      return [...results].sort((a, b) => b.score - a.score);
+    }
+
+    const now = Date.now();
+    return results
+      .map(result => {
+        const breakdown = scoreMemory(result.memory, result.score, this.ranking, now);
+        return { memory: result.memory, score: breakdown.score, ...(opts.explain ? { breakdown } : {}) };
       })
-      .filter(r => r.score > 0)
       .sort((a, b) => b.score - a.score);
-
-    return scored.slice(0, limit);
   }
 
   /**
-   * Find potential duplicates using semantic similarity
+   * Find potential duplicates using semantic similarity (QMD, or the vector
+   * index without it)
    */
   async findDuplicates(content: string, threshold: number = 0.95): Promise<MemorySearchResult[]> {
-    const qmdResults = await this.qmd.findSimilar(content, threshold);
+    const hits = await this.engines().findSimilar(content, { threshold, accept: id => this.backend.get(id) !== null });
 
     const results: MemorySearchResult[] = [];
-    for (const qr of qmdResults) {
-      const memoryId = this.qmd.extractMemoryId(qr);
-      if (!memoryId) continue;
-
-      const memory = this.fileManager.get(memoryId);
+    for (const hit of hits) {
+      const memory = this.backend.get(hit.id);
       if (!memory || memory.deletedAt) continue;
 
-      results.push({ memory, score: qr.score });
+      results.push({ memory, score: hit.score });
     }
 
     return results;
@@ -241,56 +695,60 @@ export class MemoryStoreV2 {
    * List memories with pagination
    */
   list(opts: ListOptions = {}): { total: number; items: Memory[] } {
-    return this.fileManager.list(opts);
+    const target = this.route(opts.namespace);
+    if (target !== this) {
+      return target.list({ ...opts, namespace: undefined });
+    }
+    return this.backend.list(opts);
   }
 
   /**
    * Async version of list
    */
   async listAsync(opts: ListOptions = {}): Promise<{ total: number; items: Memory[] }> {
-    return this.fileManager.list(opts);
+    return this.list(opts);
   }
 
   /**
    * Get memories by category
    */
   getByCategory(category: MemoryCategory, limit: number = 50): Memory[] {
-    return this.fileManager.getByCategory(category, limit);
+    return this.backend.getByCategory(category, limit);
   }
 
   /**
    * Async version of getByCategory
    */
   async getByCategoryAsync(category: MemoryCategory, limit: number = 50): Promise<Memory[]> {
-    return this.fileManager.getByCategory(category, limit);
+    return this.backend.getByCategory(category, limit);
   }
 
   /**
    * Update last accessed time for multiple memories
    */
   touchMany(ids: string[]): void {
-    this.fileManager.touchMany(ids);
+    this.backend.touchMany(ids);
   }
 
   /**
    * Async version of touchMany
    */
   async touchManyAsync(ids: string[]): Promise<void> {
-    this.fileManager.touchMany(ids);
+    this.backend.touchMany(ids);
   }
 
   /**
    * Count non-deleted memories
    */
   count(): number {
-    return this.fileManager.count();
+    return this.backend.count();
   }
 
   /**
    * Async version of count
    */
   async countAsync(): Promise<number> {
-    return this.fileManager.count();
+    return this.backend.count();
   }
 
   /**
@@ -301,17 +759,57 @@ export class MemoryStoreV2 {
   }
 
   /**
-   * Force QMD to re-index
+   * Rebuild every search engine's index (QMD re-embeds everything)
    */
   async reindex(): Promise<void> {
-    await this.qmd.forceUpdate();
+    await this.engines().rebuild([...this.backend.all(), ...this.backend.listArchived()]);
+  }
+
+  /**
+   * State of each configured search engine, in the order they're asked
+   */
+  async searchStatus(): Promise<SearchEngineStatus[]> {
+    return this.engines().status();
   }
 
   /**
    * Close the store (cleanup)
    */
   close(): void {
-    // Nothing to close - file-based storage
+    for (const partition of this.partitions.values()) {
+      partition.close();
+    }
+    this.partitions.clear();
+    this.engineChain?.close();
+    this.backend.close();
+  }
+
+  /**
+   * The configured search engines, created on first use so engines that
+   * other plugins register after startup are found
+   */
+  private engines(): SearchEngineChain {
+    if (!this.engineChain) {
+      this.engineChain = createSearchEngines(this.searchEngineNames, {
+        memoriesPath: this.memoriesPath,
+        namespace: this.namespace,
+        memories: () => [...this.backend.all(), ...this.backend.listArchived()],
+        // Sealed like the memory files, since they hold their words
+        cipher: this.encryption !== 'off' ? this.cipher : undefined,
+        qmd: this.qmd,
+        embeddings: () => getEmbeddingProvider(this.embeddingProvider),
+      });
+    }
+    return this.engineChain;
+  }
+
+  /**
+   * Store that owns the namespace named in an options object
+   */
+  private route(namespace: string | undefined): MemoryStoreV2 {
+    if (namespace === undefined) return this;
+    const normalized = normalizeNamespace(namespace);
+    return normalized === this.namespace ? this : this.forNamespace(normalized);
   }
 }
 
@@ -1,11 +1,11 @@
 /**
  * Memory Tools Tests (v2)
  *
- * Tests for the six agent-controlled memory operations.
+ * Tests for the agent-controlled memory operations.
  * Note: Search tests require QMD to be installed.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createMemoryTools } from './tools.js';
 import { MemoryStore } from './store.js';
 import * as fs from 'node:fs';
@@ -69,6 +69,38 @@ describe('Memory Tools', () => {
       expect(memory?.confidence).toBe(0.8);
       expect(memory?.importance).toBe(0.5);
     });
+
+    it('should reinforce a memory that is stated again', async () => {
+      const existing = await store.create({ content: 'User is vegetarian', category: 'fact', decayDays: 30 });
+      vi.spyOn(store, 'findDuplicates').mockResolvedValue([{ memory: existing, score: 0.97 }]);
+
+      const first = await tools.memory_store.execute('test', {
+        content: 'User is a vegetarian',
+        category: 'fact',
+        sourceMessageId: 'msg-42',
+      }, { messageChannel: 'telegram' });
+
+      expect(first.details).toMatchObject({
+        action: 'reinforced',
+        id: existing.id,
+        confidence: { from: 0.8, to: 0.86 },
+        importance: { from: 0.5, to: 0.55 },
+        reinforcements: 1,
+        decayRefreshed: true,
+      });
+      expect(store.count()).toBe(1);
+
+      const second = await tools.memory_store.execute('test', { content: 'User is vegetarian', category: 'fact' });
+      const reinforced = store.get(existing.id)!;
+      // Each repeat counts for less
+      expect(reinforced.confidence - 0.86).toBeLessThan(0.06);
+      expect(second.details).toMatchObject({ reinforcements: 2 });
+      expect(reinforced.evidence).toEqual([
+        { at: expect.any(Number), channel: 'telegram', messageId: 'msg-42' },
+        { at: expect.any(Number) },
+      ]);
+      expect(store.history(existing.id).revisions.map(r => r.action)).toEqual(['reinforce', 'reinforce']);
+    });
   });
 
   describe('memory_update', () => {
@@ -116,6 +148,26 @@ describe('Memory Tools', () => {
       expect(result.content[0].text).toContain('not found');
       expect(result.details?.error).toBe('not_found');
     });
+
+    it('should report a conflict instead of overwriting a concurrent change', async () => {
+      const memory = await store.create({ content: 'User dog name is Max', category: 'fact' });
+
+      // Another writer changes the content between our read and our write
+      vi.spyOn(store, 'getAsync').mockImplementationOnce(async () => {
+        await store.update(memory.id, { content: 'User dog name is Bella' });
+        return memory;
+      });
+
+      const result = await tools.memory_update.execute('test', {
+        id: memory.id,
+        content: 'User dog name is Rex',
+      });
+
+      expect(result.details?.error).toBe('conflict');
+      expect(result.details?.fields).toEqual(['content']);
+      expect(result.content[0].text).toContain('Bella');
+      expect(store.get(memory.id)?.content).toBe('User dog name is Bella');
+    });
   });
 
   describe('memory_forget', () => {
@@ -147,6 +199,19 @@ describe('Memory Tools', () => {
       expect(result.content[0].text).toContain('not found');
     });
 
+    it('should only offer candidates when a query shares a word or two', async () => {
+      const sister = await store.create({ content: 'Sister Anna drives a red car to work', category: 'fact' });
+      await store.create({ content: 'User likes green tea', category: 'preference' });
+
+      const weak = await tools.memory_forget.execute('test', { query: 'my old car I sold' });
+      expect(weak.details?.action).toBe('candidates');
+      expect((weak.details as any).candidates[0].score).toBeLessThan(0.5);
+      expect(store.get(sister.id)).not.toBeNull();
+
+      const strong = await tools.memory_forget.execute('test', { query: 'Anna drives the red car' });
+      expect(strong.details).toEqual({ action: 'deleted', id: sister.id });
+    });
+
     it('should require id or query', async () => {
       const result = await tools.memory_forget.execute('test', {});
 
@@ -154,6 +219,177 @@ describe('Memory Tools', () => {
     });
   });
 
+  describe('memory_restore', () => {
+    it('should list recently deleted memories with reasons', async () => {
+      const createResult = await tools.memory_store.execute('test', {
+        content: 'User drives a Honda',
+        category: 'fact',
+      });
+      await tools.memory_forget.execute('test', {
+        id: createResult.details?.id as string,
+        reason: 'User sold the car',
+      });
+
+      const result = await tools.memory_restore.execute('test', {});
+
+      expect(result.details?.action).toBe('list');
+      expect(result.details?.count).toBe(1);
+      expect(result.content[0].text).toContain('User sold the car');
+    });
+
+    it('should restore a deleted memory with its original id', async () => {
+      const createResult = await tools.memory_store.execute('test', {
+        content: 'User drives a Honda',
+        category: 'fact',
+      });
+      const id = createResult.details?.id as string;
+      await tools.memory_forget.execute('test', { id, reason: 'mistake' });
+
+      const result = await tools.memory_restore.execute('test', { id: id.slice(0, 8) });
+
+      expect(result.details?.action).toBe('restored');
+      expect(result.details?.id).toBe(id);
+      expect(result.details?.previousDeleteReason).toBe('mistake');
+
+      const memory = store.get(id);
+      expect(memory?.content).toBe('User drives a Honda');
+      expect(memory?.deletedAt).toBeUndefined();
+      expect(memory?.deleteReason).toBeUndefined();
+    });
+
+    it('should return an error instead of restoring over an existing memory', async () => {
+      const createResult = await tools.memory_store.execute('test', {
+        content: 'User drives a Honda',
+        category: 'fact',
+      });
+      const id = createResult.details?.id as string;
+      const file = fs.readdirSync(testDir, { recursive: true, encoding: 'utf-8' })
+        .map(name => path.join(testDir, name))
+        .find(name => name.endsWith(`${id}.md`)) as string;
+      const active = fs.readFileSync(file, 'utf-8');
+      await tools.memory_forget.execute('test', { id, reason: 'mistake' });
+      // Brought back behind the store's back, like a git rollback would
+      fs.writeFileSync(file, active);
+
+      const result = await tools.memory_restore.execute('test', { id });
+
+      expect(result.details?.error).toBe('already_exists');
+      expect(result.content[0].text).toContain('already exists');
+      expect(store.getDeleted(id)?.deleteReason).toBe('mistake');
+    });
+
+    it('should return error for unknown deleted memory', async () => {
+      const result = await tools.memory_restore.execute('test', { id: 'non-existent-id' });
+
+      expect(result.details?.error).toBe('not_found');
+    });
+  });
+
+  describe('memory_history', () => {
+    it('should show each update with who made it, why, and a diff', async () => {
+      const stored = await store.create({ content: "User's dog is named Max", category: 'fact' });
+      await tools.memory_update.execute('test', {
+        id: stored.id,
+        content: "User's dog is named Rex",
+        confidence: 0.95,
+        reason: 'user corrected the name',
+      });
+
+      const result = await tools.memory_history.execute('test', { id: stored.id });
+
+      expect(result.details?.count).toBe(1);
+      expect(result.content[0].text).toContain('update by memory_update - user corrected the name');
+      expect(result.content[0].text).toContain("- User's dog is named Max");
+      expect(result.content[0].text).toContain("+ User's dog is named Rex");
+      expect(result.content[0].text).toContain('confidence: 0.8 -> 0.95');
+    });
+
+    it('should revert to an earlier revision and keep the reverted state', async () => {
+      const stored = await store.create({ content: 'Meeting is at 3pm', category: 'event' });
+      await store.update(stored.id, { content: 'Meeting is at 4pm' });
+
+      const result = await tools.memory_history.execute('test', { id: stored.id, revertTo: 1 });
+
+      expect(result.details?.action).toBe('reverted');
+      expect(store.get(stored.id)?.content).toBe('Meeting is at 3pm');
+
+      const revisions = store.history(stored.id).revisions;
+      expect(revisions.map(r => r.action)).toEqual(['update', 'revert']);
+      expect(revisions[1].memory.content).toBe('Meeting is at 4pm');
+    });
+
+    it('should keep the superseded memory and link the replacement', async () => {
+      const old = await store.create({ content: 'User lives in Boston', category: 'fact' });
+      const result = await tools.memory_store.execute('test', {
+        content: 'User lives in Denver',
+        category: 'fact',
+        supersedes: old.id,
+      });
+
+      const replacement = store.get(result.details?.id as string)!;
+      expect(replacement.supersedes).toBe(old.id);
+
+      const history = store.history(old.id);
+      expect(history.revisions[0].action).toBe('supersede');
+      expect(history.revisions[0].actor).toBe('memory_store');
+      expect(history.current?.deletedAt).toBeDefined();
+    });
+
+    it('should return error for non-existent memory', async () => {
+      const result = await tools.memory_history.execute('test', { id: 'non-existent-id' });
+      expect(result.details?.error).toBe('not_found');
+    });
+  });
+
+  describe('namespaces', () => {
+    it('should keep memories of different senders apart', async () => {
+      const perSender = createMemoryTools(store as any, { namespaceStrategy: 'sender' });
+      const alice = { messageChannel: 'telegram', requesterSenderId: '1001' };
+      const bob = { messageChannel: 'whatsapp', requesterSenderId: '+15550001' };
+
+      const stored = await perSender.memory_store.execute('test', {
+        content: 'My dog is named Rex',
+        category: 'fact',
+      }, alice);
+
+      const fromAlice = await perSender.memory_list.execute('test', {}, alice);
+      const fromBob = await perSender.memory_list.execute('test', {}, bob);
+      expect(fromAlice.details?.total).toBe(1);
+      expect(fromBob.details?.total).toBe(0);
+
+      const forgetFromBob = await perSender.memory_forget.execute('test', { id: stored.details?.id as string }, bob);
+      expect(forgetFromBob.details?.error).toBe('not_found');
+
+      const memory = store.forNamespace('telegram-1001').get(stored.details?.id as string);
+      expect(memory?.namespace).toBe('telegram-1001');
+      expect(memory?.sourceChannel).toBe('telegram');
+    });
+
+    it('should refuse callers the strategy cannot identify', async () => {
+      const perSender = createMemoryTools(store as any, { namespaceStrategy: 'sender' });
+      const alice = { messageChannel: 'telegram', requesterSenderId: '1001' };
+      await perSender.memory_store.execute('test', { content: 'My dog is named Rex', category: 'fact' }, alice);
+
+      const stored = await perSender.memory_store.execute('test', { content: 'Left by someone', category: 'fact' }, {});
+      const listed = await perSender.memory_list.execute('test', {}, { messageChannel: 'telegram' });
+      const searched = await perSender.memory_search.execute('test', { query: 'dog' });
+      for (const result of [stored, listed, searched]) {
+        expect(result.details?.error).toBe('unidentified_caller');
+      }
+      expect(store.listNamespaces()).toEqual(['telegram-1001']);
+    });
+
+    it('should share one namespace when the strategy is none', async () => {
+      await tools.memory_store.execute('test', { content: 'Shared fact', category: 'fact' }, {
+        messageChannel: 'telegram',
+        requesterSenderId: '1001',
+      });
+
+      expect(store.list().total).toBe(1);
+      expect(store.listNamespaces()).toEqual([]);
+    });
+  });
+
   describe('memory_list', () => {
     beforeEach(async () => {
       // Create test memories
@@ -228,5 +464,53 @@ describe('Memory Tools', () => {
       // May return no results without QMD, which is expected
       expect(result.content[0].text).toBeDefined();
     });
+
+    it('should search in the mode configured for the channel unless one is given', async () => {
+      tools = createMemoryTools(store as any, { searchMode: { default: 'auto', channels: { telegram: 'fast' } } });
+      await tools.memory_store.execute('test', { content: 'Flight to Lisbon on Friday', category: 'event' });
+
+      const fast = await tools.memory_search.execute('test', { query: 'lisbon' }, { messageChannel: 'telegram' });
+      expect(fast.details).toMatchObject({ count: 1, mode: 'fast' });
+
+      const keyword = await tools.memory_search.execute('test', { query: 'lisbon', mode: 'keyword' }, { messageChannel: 'telegram' });
+      expect(keyword.details?.mode).toBe('keyword');
+      expect((await tools.memory_search.execute('test', { query: 'lisbon' })).details?.mode).toBe('auto');
+    });
+
+    it('should read filters typed into the query', async () => {
+      await tools.memory_store.execute('test', { content: 'Prefers dark mode in every editor', category: 'preference', tags: ['ui'] });
+      await tools.memory_store.execute('test', { content: 'Dark mode hurts on the projector', category: 'fact', tags: ['ui'] });
+
+      const result = await tools.memory_search.execute('test', { query: 'category:preference tag:ui "dark mode"' });
+      expect(result.details).toMatchObject({
+        count: 1,
+        memories: [{ category: 'preference', snippet: 'Prefers **dark** **mode** in every editor' }],
+      });
+
+      const prose = await tools.memory_search.execute('test', { query: 'Note: projector https://example.com/dark' });
+      expect(prose.details).not.toHaveProperty('error');
+
+      const wrong = await tools.memory_search.execute('test', { query: 'importance:high dark' });
+      expect(wrong.details).toMatchObject({ error: 'invalid_query', field: 'importance' });
+    });
+
+    it('should find memories related to one, leaving it out', async () => {
+      const decision = await store.create({ content: 'Decided to use Postgres for Project Atlas', category: 'decision' });
+      const database = await store.create({ content: 'Project Atlas uses Postgres for its database', category: 'fact' });
+      const launch = await store.create({ content: 'Project Atlas launches in May', category: 'event' });
+      const team = await store.create({ content: 'Atlas team meets on Mondays', category: 'fact' });
+      await store.create({ content: 'User likes green tea', category: 'preference' });
+
+      const ids = async (params: object) =>
+        ((await tools.memory_search.execute('test', { relatedTo: decision.id, ...params })).details as any)
+          .memories.map((m: any) => m.id);
+      expect(await ids({})).toEqual([database.id]);
+      expect(await ids({ minSimilarity: 0.2 })).toEqual([database.id, launch.id]);
+      expect(await ids({ minSimilarity: 0.05, query: 'category:fact' })).toEqual([database.id, team.id]);
+
+      expect((await tools.memory_search.execute('test', { relatedTo: 'missing' })).details).toEqual({ error: 'not_found' });
+      expect((await tools.memory_search.execute('test', { relatedTo: decision.id, query: 'atlas' })).details)
+        .toMatchObject({ error: 'invalid_query', field: 'relatedTo' });
+    });
   });
 });
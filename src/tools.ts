@@ -1,10 +1,12 @@
 /**
  * Memory Tools
  *
- * The six agent-controlled memory operations:
+ * The agent-controlled memory operations:
  * - memory_store: Save new memories
  * - memory_update: Modify existing memories
  * - memory_forget: Delete memories
+ * - memory_restore: Undelete memories
+ * - memory_history: Revision timeline and revert
  * - memory_search: Semantic search
  * - memory_summarize: Get topic summary
  * - memory_list: Browse all memories
@@ -12,14 +14,175 @@
 
 import { Type } from '@sinclair/typebox';
 import type { MemoryStore } from './store.js';
-import { MEMORY_CATEGORIES, type MemoryCategory } from './types.js';
+import type { OpenClawPluginToolContext } from './plugin-types.js';
+import { resolveNamespace, type NamespaceStrategy } from './namespace.js';
+import { buildTimeline, formatHistory } from './history.js';
+import { MemoryConflictError, MemoryExistsError } from './backend.js';
+import { DEFAULT_CATEGORIES, type CategoryRegistry } from './categories.js';
+import {
+  ATTRIBUTE_DESCRIPTIONS,
+  ATTRIBUTE_KEYS,
+  AttributeValidationError,
+  applyAttributePatch,
+  formatAttributes,
+  normalizeAttributes,
+  type AttributePatch,
+  type MemoryAttributes,
+} from './attributes.js';
+import { formatBreakdown } from './ranking.js';
+import {
+  EventTimeError,
+  RECURRENCES,
+  formatEventTime,
+  resolveDateRange,
+  resolveSchedule,
+  resolveSchedulePatch,
+  systemTimeZone,
+  type EventSchedule,
+  type Recurrence,
+} from './events.js';
+import {
+  SEARCH_MODES,
+  SEARCH_SORTS,
+  type Memory,
+  type MemoryCategory,
+  type SearchMode,
+  type SearchOptions,
+  type SearchSortBy,
+} from './types.js';
+import { DEFAULT_SEARCH_MODE, searchModeFor, type SearchModeConfig } from './search-modes.js';
+import { InvalidCursorError } from './filters.js';
+import { EventEndedError } from './expiry.js';
+import { QuerySyntaxError, combineSearchOptions, parseQuery, type ParsedQuery } from './query-syntax.js';
+import { DEFAULT_SEARCH_RESULTS, buildSnippet, formatSnippet, type SearchResultsConfig } from './snippets.js';
 
 // Type helper for string enums (OpenClaw compatible)
-function stringEnum<T extends string>(values: readonly T[]) {
-  return Type.Unsafe<T>({ type: 'string', enum: [...values] });
+function stringEnum<T extends string>(values: readonly T[], options: { description?: string } = {}) {
+  return Type.Unsafe<T>({ type: 'string', enum: [...values], ...options });
 }
 
-export function createMemoryTools(store: MemoryStore) {
+// Category enum with each category's description, so custom ones are usable
+function categoryEnum(categories: CategoryRegistry) {
+  return stringEnum(categories.names(), {
+    description: categories.all().map(category => `${category.name}: ${category.description}`).join('\n'),
+  });
+}
+
+// Structured fields; on memory_update null removes one
+function attributesSchema(description: string, options: { nullable?: boolean } = {}) {
+  const field = (key: typeof ATTRIBUTE_KEYS[number]) => options.nullable
+    ? Type.Optional(Type.Union([Type.String(), Type.Null()], { description: ATTRIBUTE_DESCRIPTIONS[key] }))
+    : Type.Optional(Type.String({ description: ATTRIBUTE_DESCRIPTIONS[key] }));
+  return Type.Optional(Type.Object(
+    Object.fromEntries(ATTRIBUTE_KEYS.map(key => [key, field(key)])),
+    { additionalProperties: false, description }
+  ));
+}
+
+// Invalid attributes are reported back so the agent can fix the call
+function invalidAttribute(err: AttributeValidationError) {
+  return {
+    content: [{ type: 'text' as const, text: `${err.message}. Nothing was changed.` }],
+    details: { error: 'invalid_attribute', key: err.key, message: err.message },
+  };
+}
+
+// Invalid dates are reported back the same way
+function invalidDate(err: EventTimeError) {
+  return {
+    content: [{ type: 'text' as const, text: `${err.message}. Nothing was changed.` }],
+    details: { error: 'invalid_date', field: err.field, message: err.message },
+  };
+}
+
+// A cursor from another search is reported back so the agent starts over
+function invalidCursor(err: InvalidCursorError) {
+  return {
+    content: [{ type: 'text' as const, text: `${err.message}. Search again without it.` }],
+    details: { error: 'invalid_cursor', message: err.message },
+  };
+}
+
+// Query syntax errors are reported back so the agent can fix the query
+function invalidQuery(err: QuerySyntaxError) {
+  return {
+    content: [{ type: 'text' as const, text: err.message }],
+    details: { error: 'invalid_query', field: err.field, message: err.message },
+  };
+}
+
+// Callers the namespace strategy can't identify get no memories at all
+function unidentifiedCaller() {
+  return {
+    content: [{ type: 'text' as const, text: 'Memory is unavailable here: the caller could not be identified.' }],
+    details: { error: 'unidentified_caller' },
+  };
+}
+
+type TimestampField = `${'created' | 'updated' | 'accessed'}${'From' | 'To'}`;
+
+// memory_search's created/updated/accessed date ranges as SearchOptions. Throws EventTimeError.
+function resolveTimestampRanges(
+  params: Partial<Record<TimestampField, string>>,
+  timeZone: string
+): Pick<SearchOptions, TimestampField> {
+  const options: Pick<SearchOptions, TimestampField> = {};
+  for (const prefix of ['created', 'updated', 'accessed'] as const) {
+    const fields = { from: `${prefix}From`, to: `${prefix}To` } as const;
+    const range = resolveDateRange({ from: params[fields.from], to: params[fields.to] }, { timeZone }, fields);
+    if (range.from !== undefined) options[fields.from] = range.from;
+    if (range.to !== undefined) options[fields.to] = range.to;
+  }
+  return options;
+}
+
+// An event's schedule for tool details
+function scheduleDetails(memory: Memory, timeZone: string) {
+  if (memory.startsAt === undefined) return {};
+  return {
+    startsAt: new Date(memory.startsAt).toISOString(),
+    ...(memory.endsAt !== undefined ? { endsAt: new Date(memory.endsAt).toISOString() } : {}),
+    ...(memory.recurrence ? { recurrence: memory.recurrence } : {}),
+    when: formatEventTime(memory, timeZone),
+  };
+}
+
+export interface MemoryToolsOptions {
+  /** How each tool call picks the namespace it reads and writes */
+  namespaceStrategy?: NamespaceStrategy;
+
+  /** Categories offered in tool schemas (the store's). Defaults to the built-ins. */
+  categories?: CategoryRegistry;
+
+  /** IANA timezone relative dates ("Tuesday at 3pm") are read in. Defaults to the system's. */
+  timezone?: string;
+
+  /** Search mode of calls that don't pick one, per channel. Defaults to auto everywhere. */
+  searchMode?: SearchModeConfig;
+
+  /** Snippets or whole memories in search and list output. Defaults to 200-character snippets. */
+  searchResults?: SearchResultsConfig;
+}
+
+export function createMemoryTools(store: MemoryStore, options: MemoryToolsOptions = {}) {
+  const namespaceStrategy = options.namespaceStrategy ?? 'none';
+  const categories = options.categories ?? DEFAULT_CATEGORIES;
+  const timeZone = options.timezone ?? systemTimeZone();
+  const searchMode = options.searchMode ?? DEFAULT_SEARCH_MODE;
+  const searchResults = options.searchResults ?? DEFAULT_SEARCH_RESULTS;
+
+  // Every tool call is confined to the namespace of whoever triggered it;
+  // null when the strategy can't tell who that is
+  const forContext = (ctx?: OpenClawPluginToolContext) => {
+    const namespace = resolveNamespace(ctx, namespaceStrategy);
+    return namespace === null ? null : store.forNamespace(namespace);
+  };
+
+  const modeSchema = stringEnum(SEARCH_MODES, {
+    description: 'How to match the query: auto (default), fast (quick local match), keyword (exact words), ' +
+      'semantic (similar meaning) or hybrid (keyword and semantic combined)',
+  });
+
   return {
     // ═══════════════════════════════════════════════════════════════════════
     // STORE - Add new memory
@@ -38,14 +201,17 @@ WHEN to use:
 
 WHEN NOT to use:
 - Trivial conversation (weather, greetings)
-- Already stored (use memory_update instead)
-- Temporary context (use conversation history)`,
+- Changed information (use memory_update instead)
+- Temporary context (use conversation history)
+
+Storing something already remembered reinforces the existing memory
+(higher confidence and importance, decay restarted) instead of duplicating it.`,
 
       parameters: Type.Object({
         content: Type.String({
           description: 'The fact/preference/info to remember. Be specific and atomic.'
         }),
-        category: stringEnum(MEMORY_CATEGORIES),
+        category: categoryEnum(categories),
         confidence: Type.Optional(Type.Number({
           minimum: 0,
           maximum: 1,
@@ -54,10 +220,10 @@ WHEN NOT to use:
         importance: Type.Optional(Type.Number({
           minimum: 0,
           maximum: 1,
-          description: 'How important is this. 1.0 = critical instruction, 0.3 = nice to know'
+          description: 'How important is this. 1.0 = critical instruction, 0.3 = nice to know. Omit for the category default'
         })),
         decayDays: Type.Optional(Type.Number({
-          description: 'Days until memory becomes stale. Omit for permanent. Events should have decay.'
+          description: 'Days until memory becomes stale. Omit for the category default (usually permanent). Events should have decay.'
         })),
         tags: Type.Optional(Type.Array(Type.String(), {
           description: 'Tags for categorization and retrieval'
@@ -65,6 +231,21 @@ WHEN NOT to use:
         supersedes: Type.Optional(Type.String({
           description: 'ID of memory this replaces (will delete the old one)'
         })),
+        attributes: attributesSchema(
+          'Structured fields, mainly for people and contacts (category "entity"). Searchable by exact match.'
+        ),
+        sourceMessageId: Type.Optional(Type.String({
+          description: 'ID of the message this came from, if known (kept as provenance)'
+        })),
+        startsAt: Type.Optional(Type.String({
+          description: 'When the event starts: "2026-03-05 15:00", "tomorrow at 3pm", "Tuesday", "in two weeks". Read in the user\'s timezone. For events it is otherwise taken from the content.'
+        })),
+        endsAt: Type.Optional(Type.String({
+          description: 'When the event ends, e.g. "5pm" (the day it starts) or "Friday". Default: an hour after it starts, or the end of the day for all-day events'
+        })),
+        recurrence: Type.Optional(stringEnum(RECURRENCES, {
+          description: 'How the event repeats. Recurring events don\'t expire'
+        })),
       }),
 
       async execute(
@@ -77,62 +258,115 @@ WHEN NOT to use:
           decayDays?: number;
           tags?: string[];
           supersedes?: string;
+          attributes?: MemoryAttributes;
+          sourceMessageId?: string;
+          startsAt?: string;
+          endsAt?: string;
+          recurrence?: Recurrence;
         },
-        ctx?: { messageChannel?: string; }
+        ctx?: OpenClawPluginToolContext
       ) {
+        const scoped = forContext(ctx);
+        if (!scoped) return unidentifiedCaller();
+
+        // Before anything is superseded
+        let schedule: EventSchedule;
+        try {
+          normalizeAttributes(params.attributes);
+          schedule = resolveSchedule({
+            startsAt: params.startsAt,
+            endsAt: params.endsAt,
+            recurrence: params.recurrence,
+            // Events usually say when in their text ("dentist Tuesday at 3pm")
+            content: params.category === 'event' ? params.content : undefined,
+          }, { timeZone });
+        } catch (err) {
+          if (err instanceof AttributeValidationError) return invalidAttribute(err);
+          if (err instanceof EventTimeError) return invalidDate(err);
+          throw err;
+        }
+
         // Handle explicit supersedes first (user knows what to replace)
         let supersededId: string | undefined = params.supersedes;
         if (params.supersedes) {
-          await store.delete(params.supersedes, 'superseded by new memory');
+          await scoped.delete(params.supersedes, 'superseded by new memory', {
+            action: 'supersede',
+            actor: 'memory_store',
+          });
         }
 
         // Check for similar/conflicting memories
         // Use low threshold (0.4) to catch potential conflicts, then decide based on score
-        const similar = await store.findDuplicates(params.content, 0.4);
+        const similar = await scoped.findDuplicates(params.content, 0.4);
 
         if (similar.length > 0 && !params.supersedes) {
           const match = similar[0];
           const isHighSimilarity = match.score > 0.92;
           const isSameCategory = match.memory.category === params.category;
 
-          // High similarity = likely duplicate (exact same info)
+          // High similarity = the same info stated again -> REINFORCE
           if (isHighSimilarity) {
+            const result = await scoped.reinforce(match.memory.id, {
+              sourceChannel: ctx?.messageChannel,
+              sourceMessageId: params.sourceMessageId,
+              confidence: params.confidence,
+              importance: params.importance,
+            }, { actor: 'memory_store' });
+            const { memory, previous } = result;
+            const change = (from: number, to: number) => `${from.toFixed(2)} -> ${to.toFixed(2)}`;
+
             return {
               content: [{
                 type: 'text' as const,
-                text: `Similar memory already exists: "${match.memory.content}" (${(match.score * 100).toFixed(0)}% match). Use memory_update to modify it, or pass supersedes="${match.memory.id}" to replace it.`
+                text: `Reinforced existing memory: "${memory.content}" (${(match.score * 100).toFixed(0)}% match). ` +
+                  `Confidence ${change(previous.confidence, memory.confidence)}, ` +
+                  `importance ${change(previous.importance, memory.importance)}, ` +
+                  `reinforced ${result.reinforcements} time${result.reinforcements === 1 ? '' : 's'}${result.decayRefreshed ? ', decay restarted' : ''}. ` +
+                  `Use memory_update if something changed, or pass supersedes="${memory.id}" to replace it.`
               }],
               details: {
-                action: 'duplicate',
-                existingId: match.memory.id,
-                existingContent: match.memory.content,
+                action: 'reinforced',
+                id: memory.id,
+                existingContent: memory.content,
                 similarity: match.score,
+                confidence: { from: previous.confidence, to: memory.confidence },
+                importance: { from: previous.importance, to: memory.importance },
+                reinforcements: result.reinforcements,
+                decayRefreshed: result.decayRefreshed,
               },
             };
           }
           // Same category + moderate similarity = conflicting info -> AUTO-REPLACE
           // This handles corrections like "favorite color is blue" -> "favorite color is purple"
           else if (isSameCategory && match.score > 0.5) {
-            await store.delete(match.memory.id, 'auto-superseded by updated info');
+            await scoped.delete(match.memory.id, 'auto-superseded by updated info', {
+              action: 'supersede',
+              actor: 'memory_store',
+            });
             supersededId = match.memory.id;
           }
         }
 
-        const memory = await store.create({
+        const memory = await scoped.create({
           content: params.content,
           category: params.category,
           confidence: params.confidence ?? 0.8,
-          importance: params.importance ?? 0.5,
+          importance: params.importance,
           decayDays: params.decayDays,
           tags: params.tags ?? [],
           sourceChannel: ctx?.messageChannel,
-        });
+          sourceMessageId: params.sourceMessageId,
+          supersedes: supersededId,
+          attributes: params.attributes,
+          ...schedule,
+        }, { actor: 'memory_store' });
 
         // Build response message
         const contentPreview = `${params.content.slice(0, 80)}${params.content.length > 80 ? '...' : ''}`;
+        const when = memory.startsAt !== undefined ? ` on ${formatEventTime(memory, timeZone)}` : '';
         const message = supersededId
-          ? `Updated: "${contentPreview}" [${params.category}] (replaced previous entry)`
-          : `Stored: "${contentPreview}" [${params.category}]`;
+          ? `Updated: "${contentPreview}" [${params.category}]${when} (replaced previous entry)`
+          : `Stored: "${contentPreview}" [${params.category}]${when}`;
 
         return {
           content: [{
@@ -145,6 +379,8 @@ WHEN NOT to use:
             category: memory.category,
             confidence: memory.confidence,
             supersededId,
+            ...(memory.attributes ? { attributes: memory.attributes } : {}),
+            ...scheduleDetails(memory, timeZone),
           },
         };
       },
@@ -180,6 +416,19 @@ Use when:
           maximum: 1,
           description: 'Updated importance score'
         })),
+        attributes: attributesSchema('Structured fields to set; null removes one, omitted ones are kept', { nullable: true }),
+        startsAt: Type.Optional(Type.Union([Type.String(), Type.Null()], {
+          description: 'New start of the event ("Thursday at 4pm"); null removes the date'
+        })),
+        endsAt: Type.Optional(Type.Union([Type.String(), Type.Null()], {
+          description: 'New end of the event; null for the default'
+        })),
+        recurrence: Type.Optional(Type.Union([stringEnum(RECURRENCES), Type.Null()], {
+          description: 'How the event repeats; null stops it repeating'
+        })),
+        reason: Type.Optional(Type.String({
+          description: 'Why this memory is changing (kept in its revision history)'
+        })),
       }),
 
       async execute(
@@ -189,9 +438,27 @@ Use when:
           content?: string;
           confidence?: number;
           importance?: number;
-        }
+          attributes?: AttributePatch;
+          startsAt?: string | null;
+          endsAt?: string | null;
+          recurrence?: Recurrence | null;
+          reason?: string;
+        },
+        ctx?: OpenClawPluginToolContext
       ) {
-        const existing = await store.getAsync(params.id);
+        const scoped = forContext(ctx);
+        if (!scoped) return unidentifiedCaller();
+
+        if (params.attributes) {
+          try {
+            applyAttributePatch(undefined, params.attributes);
+          } catch (err) {
+            if (err instanceof AttributeValidationError) return invalidAttribute(err);
+            throw err;
+          }
+        }
+
+        const existing = await scoped.getAsync(params.id);
         if (!existing) {
           return {
             content: [{ type: 'text' as const, text: `Memory ${params.id} not found.` }],
@@ -199,11 +466,34 @@ Use when:
           };
         }
 
-        const memory = await store.update(params.id, {
-          content: params.content,
-          confidence: params.confidence,
-          importance: params.importance,
-        });
+        let memory;
+        try {
+          const schedule = resolveSchedulePatch(params, existing, { timeZone });
+          // Reject the write if someone else changed these fields since we read them
+          memory = await scoped.update(params.id, {
+            content: params.content,
+            confidence: params.confidence,
+            importance: params.importance,
+            attributes: params.attributes,
+            ...schedule,
+          }, { actor: 'memory_update', reason: params.reason }, { expectedUpdatedAt: existing.updatedAt });
+        } catch (err) {
+          if (err instanceof EventTimeError) return invalidDate(err);
+          if (!(err instanceof MemoryConflictError)) throw err;
+          return {
+            content: [{
+              type: 'text' as const,
+              text: `Memory ${params.id} was changed concurrently (${err.fields.join(', ')}). Current content: "${err.current.content}". Review it and retry if still needed.`
+            }],
+            details: {
+              error: 'conflict',
+              id: err.current.id,
+              fields: err.fields,
+              content: err.current.content,
+              updatedAt: err.current.updatedAt,
+            },
+          };
+        }
 
         return {
           content: [{
@@ -215,6 +505,8 @@ Use when:
             id: memory.id,
             content: memory.content,
             confidence: memory.confidence,
+            ...(memory.attributes ? { attributes: memory.attributes } : {}),
+            ...scheduleDetails(memory, timeZone),
           },
         };
       },
@@ -251,10 +543,14 @@ Use when:
           id?: string;
           query?: string;
           reason?: string;
-        }
+        },
+        ctx?: OpenClawPluginToolContext
       ) {
+        const scoped = forContext(ctx);
+        if (!scoped) return unidentifiedCaller();
+
         if (params.id) {
-          const existing = await store.getAsync(params.id);
+          const existing = await scoped.getAsync(params.id);
           if (!existing) {
             return {
               content: [{ type: 'text' as const, text: `Memory ${params.id} not found.` }],
@@ -262,7 +558,7 @@ Use when:
             };
           }
 
-          await store.delete(params.id, params.reason);
+          await scoped.delete(params.id, params.reason, { actor: 'memory_forget' });
           return {
             content: [{ type: 'text' as const, text: `Forgotten: "${existing.content.slice(0, 60)}..."` }],
             details: { action: 'deleted', id: params.id },
@@ -270,10 +566,12 @@ Use when:
         }
 
         if (params.query) {
-          const results = await store.search({
+          // Match quality alone decides what gets deleted
+          const results = await scoped.search({
             query: params.query,
             limit: 5,
             minConfidence: 0.3,
+            rankBy: 'relevance',
           });
 
           if (results.length === 0) {
@@ -299,7 +597,7 @@ Use when:
 
           if (exactMatch || (results.length === 1 && topResult.score > 0.9) || clearWinner) {
             const toDelete = exactMatch || topResult;
-            await store.delete(toDelete.memory.id, params.reason);
+            await scoped.delete(toDelete.memory.id, params.reason, { actor: 'memory_forget' });
             return {
               content: [{
                 type: 'text' as const,
@@ -337,6 +635,210 @@ Use when:
       },
     },
 
+    // ═══════════════════════════════════════════════════════════════════════
+    // RESTORE - Undelete memory
+    // ═══════════════════════════════════════════════════════════════════════
+    memory_restore: {
+      name: 'memory_restore',
+      label: 'Memory Restore',
+      description: `Restore a deleted or expired memory, or list recently deleted memories.
+
+Use when:
+- A memory was forgotten or auto-superseded by mistake
+- User asks to undo a "forget"
+- An expired memory turns out to still matter
+
+Call without an id to see recently deleted memories and why they were deleted.`,
+
+      parameters: Type.Object({
+        id: Type.Optional(Type.String({
+          description: 'ID of deleted or expired memory to restore (omit to list recently deleted)'
+        })),
+        limit: Type.Optional(Type.Number({
+          maximum: 50,
+          description: 'Max deleted memories to list (default: 10)'
+        })),
+      }),
+
+      async execute(
+        _toolCallId: string,
+        params: {
+          id?: string;
+          limit?: number;
+        },
+        ctx?: OpenClawPluginToolContext
+      ) {
+        const scoped = forContext(ctx);
+        if (!scoped) return unidentifiedCaller();
+
+        if (!params.id) {
+          const deleted = scoped.listDeleted(params.limit ?? 10);
+          if (deleted.length === 0) {
+            return {
+              content: [{ type: 'text' as const, text: 'No deleted memories.' }],
+              details: { count: 0 },
+            };
+          }
+
+          const list = deleted
+            .map(m => `- [${m.id.slice(0, 8)}] [${m.category}] ${m.content.slice(0, 50)}${m.content.length > 50 ? '...' : ''} (deleted ${new Date(m.deletedAt ?? 0).toISOString()}${m.deleteReason ? `: ${m.deleteReason}` : ''})`)
+            .join('\n');
+
+          return {
+            content: [{
+              type: 'text' as const,
+              text: `Recently deleted memories:\n${list}`
+            }],
+            details: {
+              action: 'list',
+              count: deleted.length,
+              memories: deleted.map(m => ({
+                id: m.id,
+                content: m.content,
+                category: m.category,
+                deletedAt: m.deletedAt,
+                deleteReason: m.deleteReason,
+              })),
+            },
+          };
+        }
+
+        const deleted = scoped.getDeleted(params.id) ?? scoped.getArchived(params.id);
+        if (!deleted) {
+          return {
+            content: [{ type: 'text' as const, text: `Deleted memory ${params.id} not found.` }],
+            details: { error: 'not_found' },
+          };
+        }
+
+        let memory: Memory;
+        try {
+          memory = await scoped.restore(deleted.id, { actor: 'memory_restore' });
+        } catch (err) {
+          if (!(err instanceof MemoryExistsError) && !(err instanceof EventEndedError)) throw err;
+          return {
+            content: [{ type: 'text' as const, text: `${err.message}. Nothing was changed.` }],
+            details: {
+              error: err instanceof EventEndedError ? 'event_ended' : 'already_exists',
+              id: deleted.id,
+              message: err.message,
+            },
+          };
+        }
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Restored: "${memory.content.slice(0, 80)}${memory.content.length > 80 ? '...' : ''}" [${memory.category}]`
+          }],
+          details: {
+            action: 'restored',
+            id: memory.id,
+            category: memory.category,
+            previousDeleteReason: deleted.deleteReason ?? deleted.archiveReason,
+          },
+        };
+      },
+    },
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // HISTORY - Revision timeline and revert
+    // ═══════════════════════════════════════════════════════════════════════
+    memory_history: {
+      name: 'memory_history',
+      label: 'Memory History',
+      description: `Show how a memory changed over time, or revert it to an earlier revision.
+
+Use when:
+- You need to explain why you believe something ("when did I learn this?")
+- A memory_update or supersede replaced correct information
+- User asks what you used to remember about something
+
+Each revision records who changed the memory and why, with a diff.`,
+
+      parameters: Type.Object({
+        id: Type.String({
+          description: 'ID of memory (active, deleted or expired)'
+        }),
+        revertTo: Type.Optional(Type.Number({
+          minimum: 1,
+          description: 'Revision number to restore the memory to'
+        })),
+        reason: Type.Optional(Type.String({
+          description: 'Why the memory is being reverted'
+        })),
+      }),
+
+      async execute(
+        _toolCallId: string,
+        params: {
+          id: string;
+          revertTo?: number;
+          reason?: string;
+        },
+        ctx?: OpenClawPluginToolContext
+      ) {
+        const scoped = forContext(ctx);
+        if (!scoped) return unidentifiedCaller();
+
+        if (params.revertTo !== undefined) {
+          const existing = await scoped.getAsync(params.id);
+          if (!existing) {
+            return {
+              content: [{ type: 'text' as const, text: `Memory ${params.id} not found. Deleted memories must be restored with memory_restore first.` }],
+              details: { error: 'not_found' },
+            };
+          }
+
+          const revision = scoped.history(existing.id).revisions.find(r => r.revision === params.revertTo);
+          if (!revision) {
+            return {
+              content: [{ type: 'text' as const, text: `Revision ${params.revertTo} of memory ${params.id} not found.` }],
+              details: { error: 'revision_not_found' },
+            };
+          }
+
+          const memory = await scoped.revert(existing.id, params.revertTo, {
+            actor: 'memory_history',
+            reason: params.reason,
+          });
+          return {
+            content: [{
+              type: 'text' as const,
+              text: `Reverted to revision ${params.revertTo}: "${memory.content.slice(0, 80)}${memory.content.length > 80 ? '...' : ''}"`
+            }],
+            details: {
+              action: 'reverted',
+              id: memory.id,
+              revision: params.revertTo,
+              content: memory.content,
+            },
+          };
+        }
+
+        const history = scoped.history(params.id);
+        if (!history.current && history.revisions.length === 0) {
+          return {
+            content: [{ type: 'text' as const, text: `Memory ${params.id} not found.` }],
+            details: { error: 'not_found' },
+          };
+        }
+
+        const text = history.revisions.length === 0
+          ? `No revisions recorded for this memory.\n${formatHistory(history)}`
+          : formatHistory(history);
+
+        return {
+          content: [{ type: 'text' as const, text }],
+          details: {
+            action: 'history',
+            id: history.current?.id ?? params.id,
+            count: history.revisions.length,
+            timeline: buildTimeline(history),
+          },
+        };
+      },
+    },
+
     // ═══════════════════════════════════════════════════════════════════════
     // SEARCH - Semantic search
     // ═══════════════════════════════════════════════════════════════════════
@@ -349,25 +851,108 @@ Use when:
 - You need context about the user to answer well
 - User references something from the past ("remember when I told you...")
 - You want to personalize a response
-- Before storing, to check if memory already exists`,
+- Before storing, to check if memory already exists
+- User asks what's coming up (pass from/to, e.g. from "today" to "next week")
+- You want everything related to a memory, e.g. the rest of a project (pass relatedTo with its id)
+
+Filters combine with AND. Results come in pages: pass nextCursor back as cursor for more.`,
 
       parameters: Type.Object({
         query: Type.Optional(Type.String({
-          description: 'Semantic search query'
+          description: 'Search query. May include filters: category:NAME, tag:NAME, -tag:NAME, tag:a,b (any of), ' +
+            'channel:NAME, since:DATE, until:DATE, created:DATE, updated:DATE, accessed:DATE, from:DATE, to:DATE, ' +
+            'importance:N, confidence:N, sort:FIELD, order:asc|desc, mode:MODE, or an attribute (name:"Sarah Connor"). ' +
+            'Quote values and phrases with spaces, e.g. category:preference since:"last week" "dark mode"'
+        })),
+        category: Type.Optional(categoryEnum(categories)),
+        categories: Type.Optional(Type.Array(categoryEnum(categories), {
+          description: 'Filter by any of these categories'
         })),
-        category: Type.Optional(stringEnum(MEMORY_CATEGORIES)),
         tags: Type.Optional(Type.Array(Type.String(), {
           description: 'Filter by tags (AND logic)'
         })),
+        anyTags: Type.Optional(Type.Array(Type.String(), {
+          description: 'Filter by tags (OR logic: at least one)'
+        })),
+        excludeTags: Type.Optional(Type.Array(Type.String(), {
+          description: 'Leave out memories with any of these tags'
+        })),
+        sourceChannel: Type.Optional(Type.String({
+          description: 'Only memories learned in this channel (e.g. "telegram")'
+        })),
+        attributes: attributesSchema(
+          'Exact-match filter on structured fields (AND logic), e.g. { "name": "Sarah Connor" } to look up her email'
+        ),
         minConfidence: Type.Optional(Type.Number({
           minimum: 0,
           maximum: 1,
           description: 'Minimum confidence threshold (default: 0.5)'
         })),
+        minImportance: Type.Optional(Type.Number({
+          minimum: 0,
+          maximum: 1,
+          description: 'Minimum importance threshold'
+        })),
+        includeExpired: Type.Optional(Type.Boolean({
+          description: 'Include memories that have decayed (default: only with from/to)'
+        })),
         limit: Type.Optional(Type.Number({
           maximum: 50,
           description: 'Max results to return (default: 10)'
         })),
+        offset: Type.Optional(Type.Number({
+          minimum: 0,
+          description: 'Skip first N results (for pagination)'
+        })),
+        cursor: Type.Optional(Type.String({
+          description: 'nextCursor from the previous call with the same search, for the next page'
+        })),
+        sortBy: Type.Optional(stringEnum(SEARCH_SORTS, {
+          description: 'Order of results: score (default), createdAt, updatedAt, lastAccessedAt, importance, ' +
+            'confidence or startsAt (event date, the default with from/to and no query)'
+        })),
+        sortOrder: Type.Optional(stringEnum(['asc', 'desc'] as const, {
+          description: 'desc (default) or asc (default for startsAt)'
+        })),
+        explain: Type.Optional(Type.Boolean({
+          description: 'Show how each score was computed (relevance, importance, confidence, recency, decay)'
+        })),
+        relatedTo: Type.Optional(Type.String({
+          description: 'Memory ID: find memories similar to it instead of searching for query text (filters still apply)'
+        })),
+        minSimilarity: Type.Optional(Type.Number({
+          minimum: 0,
+          maximum: 1,
+          description: 'With relatedTo: lowest similarity to include (default: 0.5; lower it to widen to a shared topic; duplicates are 0.95+)'
+        })),
+        fullContent: Type.Optional(Type.Boolean({
+          description: `Show whole memories instead of snippets around the matched words (default: ${searchResults.fullContent})`
+        })),
+        from: Type.Optional(Type.String({
+          description: 'Only events happening from this date/time on ("today", "2026-03-01", "next week")'
+        })),
+        to: Type.Optional(Type.String({
+          description: 'Only events happening before the end of this date/time ("Friday", "next week")'
+        })),
+        createdFrom: Type.Optional(Type.String({
+          description: 'Only memories created from this date/time on ("last week", "2026-01-01")'
+        })),
+        createdTo: Type.Optional(Type.String({
+          description: 'Only memories created before the end of this date/time'
+        })),
+        updatedFrom: Type.Optional(Type.String({
+          description: 'Only memories last changed from this date/time on'
+        })),
+        updatedTo: Type.Optional(Type.String({
+          description: 'Only memories last changed before the end of this date/time'
+        })),
+        accessedFrom: Type.Optional(Type.String({
+          description: 'Only memories last recalled from this date/time on'
+        })),
+        accessedTo: Type.Optional(Type.String({
+          description: 'Only memories last recalled before the end of this date/time'
+        })),
+        mode: Type.Optional(modeSchema),
       }),
 
       async execute(
@@ -375,43 +960,137 @@ Use when:
         params: {
           query?: string;
           category?: MemoryCategory;
+          categories?: MemoryCategory[];
           tags?: string[];
+          anyTags?: string[];
+          excludeTags?: string[];
+          sourceChannel?: string;
+          attributes?: Record<string, string>;
           minConfidence?: number;
+          minImportance?: number;
+          includeExpired?: boolean;
           limit?: number;
-        }
+          offset?: number;
+          cursor?: string;
+          sortBy?: SearchSortBy;
+          sortOrder?: 'asc' | 'desc';
+          explain?: boolean;
+          relatedTo?: string;
+          minSimilarity?: number;
+          fullContent?: boolean;
+          from?: string;
+          to?: string;
+          mode?: SearchMode;
+        } & Partial<Record<TimestampField, string>>,
+        ctx?: OpenClawPluginToolContext
       ) {
-        const results = await store.search({
-          query: params.query,
+        const scoped = forContext(ctx);
+        if (!scoped) return unidentifiedCaller();
+
+        let parsed: ParsedQuery = { options: {} };
+        let range: { from?: number; to?: number };
+        let timestamps: Pick<SearchOptions, TimestampField>;
+        try {
+          if (params.query) parsed = parseQuery(params.query, { timeZone, categories: categories.names() });
+          range = resolveDateRange(params, { timeZone });
+          timestamps = resolveTimestampRanges(params, timeZone);
+        } catch (err) {
+          if (err instanceof QuerySyntaxError) return invalidQuery(err);
+          if (err instanceof EventTimeError) return invalidDate(err);
+          throw err;
+        }
+
+        // Filters in the query and parameters both apply; a parameter wins over the same filter in the query
+        const options = combineSearchOptions(parsed.options, {
+          query: parsed.text,
           category: params.category,
+          categories: params.categories,
           tags: params.tags,
-          minConfidence: params.minConfidence ?? 0.5,
-          limit: params.limit ?? 10,
-          excludeDecayed: true,
+          anyTags: params.anyTags,
+          excludeTags: params.excludeTags,
+          sourceChannel: params.sourceChannel,
+          attributes: params.attributes,
+          minConfidence: params.minConfidence,
+          minImportance: params.minImportance,
+          offset: params.offset,
+          cursor: params.cursor,
+          sortBy: params.sortBy,
+          sortOrder: params.sortOrder,
+          explain: params.explain,
+          mode: params.mode,
+          relatedTo: params.relatedTo,
+          minSimilarity: params.minSimilarity,
+          ...range,
+          ...timestamps,
         });
+        if (options.relatedTo !== undefined) {
+          if (options.query) {
+            return {
+              content: [{ type: 'text' as const, text: 'Search for query text or for memories related to relatedTo, not both (filters in the query are fine).' }],
+              details: { error: 'invalid_query', field: 'relatedTo', message: 'query text and relatedTo given' },
+            };
+          }
+          if (!scoped.get(options.relatedTo)) {
+            return {
+              content: [{ type: 'text' as const, text: `Memory ${options.relatedTo} not found.` }],
+              details: { error: 'not_found' },
+            };
+          }
+        }
+        const hasRange = options.from !== undefined || options.to !== undefined;
+        const mode = options.mode ?? searchModeFor(searchMode, ctx?.messageChannel);
+
+        let page;
+        try {
+          page = await scoped.searchPage({
+            ...options,
+            minConfidence: options.minConfidence ?? 0.5,
+            limit: params.limit ?? 10,
+            snippetLength: searchResults.snippetLength,
+            // With a date range, that range decides (events in the past are asked for)
+            excludeDecayed: !(params.includeExpired ?? hasRange),
+            mode,
+          });
+        } catch (err) {
+          if (err instanceof InvalidCursorError) return invalidCursor(err);
+          throw err;
+        }
+        const { results, offset, total, nextCursor } = page;
 
         // Update last accessed
-        await store.touchManyAsync(results.map(r => r.memory.id));
+        await scoped.touchManyAsync(results.map(r => r.memory.id));
 
         if (results.length === 0) {
           return {
             content: [{ type: 'text' as const, text: 'No relevant memories found.' }],
-            details: { count: 0 },
+            details: { count: 0, total, mode },
           };
         }
 
+        const fullContent = params.fullContent ?? searchResults.fullContent;
         const text = results
           .map((r, i) =>
-            `${i + 1}. [${r.memory.category}] ${r.memory.content} (${(r.score * 100).toFixed(0)}% match, ${(r.memory.confidence * 100).toFixed(0)}% confident)`
+            `${offset + i + 1}. [${r.memory.category}] ${fullContent || !r.snippet ? r.memory.content : formatSnippet(r.snippet)}${r.memory.attributes ? ` {${formatAttributes(r.memory.attributes)}}` : ''}` +
+            `${r.memory.startsAt !== undefined ? ` @ ${formatEventTime(r.memory, timeZone)}` : ''}` +
+            ` (${(r.score * 100).toFixed(0)}% match, ${(r.memory.confidence * 100).toFixed(0)}% confident)` +
+            (r.breakdown ? `\n   ${formatBreakdown(r.breakdown)}` : '')
           )
           .join('\n');
 
         return {
           content: [{
             type: 'text' as const,
-            text: `Found ${results.length} memories:\n\n${text}`
+            text: (total > results.length
+              ? `Found ${total} memories, showing ${offset + 1}-${offset + results.length}:\n\n${text}`
+              : `Found ${results.length} memories:\n\n${text}`) +
+              (nextCursor ? `\n\nMore results: search again with cursor "${nextCursor}".` : '')
           }],
           details: {
             count: results.length,
+            total,
+            offset,
+            ...(nextCursor ? { nextCursor } : {}),
+            mode,
             memories: results.map(r => ({
               id: r.memory.id,
               content: r.memory.content,
@@ -419,7 +1098,11 @@ Use when:
               confidence: r.memory.confidence,
               importance: r.memory.importance,
               score: r.score,
+              ...(r.snippet ? { snippet: formatSnippet(r.snippet) } : {}),
               tags: r.memory.tags,
+              ...(r.memory.attributes ? { attributes: r.memory.attributes } : {}),
+              ...scheduleDetails(r.memory, timeZone),
+              ...(r.breakdown ? { breakdown: r.breakdown } : {}),
             })),
           },
         };
@@ -446,6 +1129,7 @@ Use when:
         maxMemories: Type.Optional(Type.Number({
           description: 'Max memories to include in summary (default: 20)'
         })),
+        mode: Type.Optional(modeSchema),
       }),
 
       async execute(
@@ -453,12 +1137,18 @@ Use when:
         params: {
           topic: string;
           maxMemories?: number;
-        }
+          mode?: SearchMode;
+        },
+        ctx?: OpenClawPluginToolContext
       ) {
-        const results = await store.search({
+        const scoped = forContext(ctx);
+        if (!scoped) return unidentifiedCaller();
+
+        const results = await scoped.search({
           query: params.topic,
           limit: params.maxMemories ?? 20,
           excludeDecayed: true,
+          mode: params.mode ?? searchModeFor(searchMode, ctx?.messageChannel),
         });
 
         if (results.length === 0) {
@@ -506,7 +1196,7 @@ Use when:
       description: `List all memories, optionally filtered. Use for browsing/auditing, not semantic search.`,
 
       parameters: Type.Object({
-        category: Type.Optional(stringEnum(MEMORY_CATEGORIES)),
+        category: Type.Optional(categoryEnum(categories)),
         sortBy: Type.Optional(stringEnum([
           'createdAt', 'updatedAt', 'importance', 'confidence', 'lastAccessedAt'
         ] as const)),
@@ -525,9 +1215,13 @@ Use when:
           sortBy?: 'createdAt' | 'updatedAt' | 'importance' | 'confidence' | 'lastAccessedAt';
           limit?: number;
           offset?: number;
-        }
+        },
+        ctx?: OpenClawPluginToolContext
       ) {
-        const results = await store.listAsync({
+        const scoped = forContext(ctx);
+        if (!scoped) return unidentifiedCaller();
+
+        const results = await scoped.listAsync({
           category: params.category,
           sortBy: params.sortBy ?? 'createdAt',
           sortOrder: 'desc',
@@ -544,7 +1238,7 @@ Use when:
 
         const text = results.items
           .map((m, i) =>
-            `${i + 1}. [${m.category}] ${m.content.slice(0, 60)}${m.content.length > 60 ? '...' : ''} (${(m.confidence * 100).toFixed(0)}%)`
+            `${i + 1}. [${m.category}] ${searchResults.fullContent ? m.content : buildSnippet(m.content, undefined, { length: searchResults.snippetLength }).text} (${(m.confidence * 100).toFixed(0)}%)`
           )
           .join('\n');
 
@@ -5,6 +5,10 @@
  * confidence scoring, decay, and semantic search.
  */
 
+import type { AttributePatch, MemoryAttributes } from './attributes.js';
+import type { ScoreBreakdown } from './ranking.js';
+import type { Recurrence } from './events.js';
+
 export const MEMORY_CATEGORIES = [
   'fact',         // "User's dog is named Rex"
   'preference',   // "User prefers dark mode"
@@ -16,7 +20,22 @@ export const MEMORY_CATEGORIES = [
   'entity',       // Contact info, phone numbers, emails
 ] as const;
 
-export type MemoryCategory = typeof MEMORY_CATEGORIES[number];
+export type BuiltinMemoryCategory = typeof MEMORY_CATEGORIES[number];
+
+/**
+ * A built-in category or one defined in plugin config (see CategoryRegistry)
+ */
+export type MemoryCategory = BuiltinMemoryCategory | (string & {});
+
+// How a search query is matched (see search-modes.ts)
+export const SEARCH_MODES = ['auto', 'fast', 'keyword', 'semantic', 'hybrid'] as const;
+
+export type SearchMode = typeof SEARCH_MODES[number];
+
+// Orders search results can be sorted in (score is the ranking)
+export const SEARCH_SORTS = ['score', 'createdAt', 'updatedAt', 'lastAccessedAt', 'importance', 'confidence', 'startsAt'] as const;
+
+export type SearchSortBy = typeof SEARCH_SORTS[number];
 
 export interface Memory {
   id: string;
@@ -34,19 +53,58 @@ export interface Memory {
   // Provenance
   sourceChannel?: string;    // 'whatsapp' | 'telegram' | 'discord' | etc
   sourceMessageId?: string;  // for traceability
+  namespace?: string;        // whose memory this is; undefined = default namespace
 
   // Relations
   tags: string[];
   supersedes?: string;       // id of memory this updates/replaces
 
+  // Structured fields (email, phone, ...), validated on write
+  attributes?: MemoryAttributes;
+
+  // Later mentions that backed this memory up (see reinforcement.ts), oldest first
+  evidence?: MemoryEvidence[];
+
+  // When an event happens (see events.ts)
+  startsAt?: number;         // Unix timestamp ms
+  endsAt?: number;           // Unix timestamp ms; default: an hour after startsAt
+  recurrence?: Recurrence;   // repeats from startsAt; recurring events don't expire by date
+
   // Soft delete
   deletedAt?: number;
   deleteReason?: string;
+
+  // Expired and moved to the archive (see expiry.ts); never purged
+  archivedAt?: number;
+  archiveReason?: string;
+
+  // Frontmatter keys we don't know about (e.g. added by hand), kept on rewrite
+  extraFrontmatter?: Record<string, unknown>;
+}
+
+export interface MemoryEvidence {
+  at: number;                // Unix timestamp ms
+  channel?: string;          // where it was mentioned again
+  messageId?: string;
 }
 
 export interface MemorySearchResult {
   memory: Memory;
-  score: number;             // Similarity score 0-1
+  score: number;             // Ranking score 0-1 (match score with rankBy 'relevance')
+  breakdown?: ScoreBreakdown; // How the score was computed (SearchOptions.explain)
+  snippet?: MemorySnippet;   // The part of the content that matched (see snippets.ts)
+}
+
+export interface MemorySnippet {
+  text: string;              // single line, with … where the content was cut
+  highlights: Array<[number, number]>; // [start, end) of matched words in text
+}
+
+export interface MemorySearchPage {
+  results: MemorySearchResult[];
+  offset: number;            // position of the first result in all of them
+  total: number;             // results across all pages (for a query, of its SEARCH_CANDIDATES best hits)
+  nextCursor?: string;       // pass as SearchOptions.cursor for the next page; unset on the last
 }
 
 export interface CreateMemoryInput {
@@ -58,14 +116,40 @@ export interface CreateMemoryInput {
   tags?: string[];
   sourceChannel?: string;
   sourceMessageId?: string;
+  supersedes?: string;
+  namespace?: string;
+  attributes?: MemoryAttributes;
+  startsAt?: number;
+  endsAt?: number;
+  recurrence?: Recurrence;
 }
 
 export interface UpdateMemoryInput {
   content?: string;
+  category?: MemoryCategory;
   confidence?: number;
   importance?: number;
   decayDays?: number | null;
   tags?: string[];
+  attributes?: AttributePatch;  // merged into the current ones; null removes a key
+  evidence?: MemoryEvidence[];  // replaces the current list
+  startsAt?: number | null;     // null clears the field
+  endsAt?: number | null;
+  recurrence?: Recurrence | null;
+}
+
+export interface ReinforceInput {
+  sourceChannel?: string;
+  sourceMessageId?: string;
+  confidence?: number;       // how sure the new mention is; raises confidence at least this far
+  importance?: number;       // raises importance at least this far
+}
+
+export interface ReinforceResult {
+  memory: Memory;
+  previous: { confidence: number; importance: number };
+  reinforcements: number;    // times reinforced (evidence kept)
+  decayRefreshed: boolean;   // the memory decays and its clock was restarted
 }
 
 export interface SearchOptions {
@@ -77,6 +161,30 @@ export interface SearchOptions {
   limit?: number;
   excludeDecayed?: boolean;
   includeDeleted?: boolean;
+  namespace?: string;
+  attributes?: Record<string, string>;  // exact match on every key (see matchesAttributes)
+  rankBy?: 'blended' | 'relevance';     // default blended: relevance, importance, confidence, recency, decay
+  explain?: boolean;                    // include each result's ScoreBreakdown
+  from?: number;                        // only events with an occurrence ending after this (Unix ms)
+  to?: number;                          // only events with an occurrence starting before this (Unix ms)
+  mode?: SearchMode;                    // how the query is matched (default auto)
+  categories?: MemoryCategory[];        // any of these categories (together with category)
+  anyTags?: string[];                   // at least one of these tags (tags needs all of them)
+  excludeTags?: string[];               // none of these tags
+  sourceChannel?: string;               // only memories first learned in this channel
+  createdFrom?: number;                 // created at or after (Unix ms)
+  createdTo?: number;                   // created before (Unix ms)
+  updatedFrom?: number;                 // last changed at or after (Unix ms)
+  updatedTo?: number;                   // last changed before (Unix ms)
+  accessedFrom?: number;                // last accessed at or after (Unix ms)
+  accessedTo?: number;                  // last accessed before (Unix ms)
+  offset?: number;                      // results to skip (pagination)
+  cursor?: string;                      // nextCursor of the previous page; overrides offset
+  sortBy?: SearchSortBy;                // default score, or startsAt for a date range without a query
+  sortOrder?: 'asc' | 'desc';           // default desc, asc for startsAt
+  snippetLength?: number;               // longest result snippet in characters (default 200)
+  relatedTo?: string;                   // memories similar to this one (id) instead of a query
+  minSimilarity?: number;               // with relatedTo: lowest similarity, 0-1 (default 0.5)
 }
 
 export interface ListOptions {
@@ -85,4 +193,68 @@ export interface ListOptions {
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
+  namespace?: string;
+}
+
+export interface PurgeDeletedOptions {
+  retentionDays?: number;    // purge memories deleted more than N days ago
+  maxItems?: number;         // keep at most N deleted memories (oldest purged first)
+  dryRun?: boolean;          // report what would be purged without removing anything
+}
+
+export interface PurgeDeletedResult {
+  purged: Array<{ id: string; deletedAt?: number; deleteReason?: string }>;
+  remaining: number;
+  dryRun: boolean;
+}
+
+export interface ExpireDecayedOptions {
+  dryRun?: boolean;          // report what would expire without archiving anything
+}
+
+export interface ExpireDecayedResult {
+  expired: Array<{ id: string; category: MemoryCategory; content: string; reason: string }>;
+  dryRun: boolean;
+}
+
+export interface UpcomingOptions {
+  withinMs: number;          // how far ahead to look
+  limit?: number;            // most items returned, soonest first
+  now?: number;              // defaults to Date.now()
+}
+
+export interface UpcomingItem {
+  memory: Memory;
+  kind: 'event' | 'birthday';
+  start: number;             // this occurrence (Unix timestamp ms)
+  end: number;
+  age?: number;              // birthdays with a known year: the age turned
+}
+
+export interface WriteConditions {
+  // Compare-and-swap: the version of the memory the caller read. If it changed
+  // since, the update is merged when it touches different fields, else rejected.
+  expectedUpdatedAt?: number;
+}
+
+export type RevisionAction = 'update' | 'supersede' | 'delete' | 'archive' | 'revert' | 'reinforce';
+
+export interface RevisionMeta {
+  action?: RevisionAction;   // defaults to the operation being performed
+  actor?: string;            // what made the change: 'memory_update', 'cli', ...
+  reason?: string;           // why it changed
+}
+
+export interface MemoryRevision {
+  revision: number;          // 1-based, in order of recording
+  action: RevisionAction;
+  recordedAt: number;        // Unix timestamp ms
+  actor?: string;
+  reason?: string;
+  memory: Memory;            // the memory as it was before the change
+}
+
+export interface MemoryHistoryResult {
+  current: Memory | null;    // active, soft-deleted or archived memory
+  revisions: MemoryRevision[];
 }
@@ -0,0 +1,66 @@
+/**
+ * Upcoming Events Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { formatUpcoming, resolveUpcomingEvents, upcomingEventsEnabledFor } from './upcoming.js';
+import { MemoryStoreV2 } from './store.js';
+
+// Monday 2026-03-02, 10:00 in Berlin
+const NOW = Date.UTC(2026, 2, 2, 9);
+const HOUR = 3600000;
+
+describe('MemoryStore upcoming', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir, 'memories', { timezone: 'Europe/Berlin' });
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list events and birthdays due soon, soonest first', async () => {
+    await store.create({ content: 'Dentist', category: 'event', startsAt: Date.UTC(2026, 2, 3, 14) });
+    await store.create({ content: 'Team standup', category: 'event', startsAt: Date.UTC(2026, 1, 2, 8), recurrence: 'weekly' });
+    await store.create({ content: 'Conference', category: 'event', startsAt: Date.UTC(2026, 2, 20, 8) });
+    await store.create({ content: "User's sister", category: 'entity', attributes: { name: 'Sarah', birthday: '1985-03-03' } });
+    await store.create({ content: 'Wedding anniversary', category: 'fact', attributes: { birthday: '--03-02' } });
+
+    const items = store.upcoming({ withinMs: 48 * HOUR, now: NOW });
+    expect(items.map(item => [item.kind, item.memory.content])).toEqual([
+      ['birthday', "User's sister"],
+      ['event', 'Dentist'],
+    ]);
+
+    // The recurring standup is on Mondays at 09:00; today's is over
+    expect(store.upcoming({ withinMs: 7 * 24 * HOUR, now: NOW, limit: 3 }).map(item => item.memory.content))
+      .toEqual(["User's sister", 'Dentist', 'Team standup']);
+
+    expect(formatUpcoming(items, 48, 'Europe/Berlin')).toBe(
+      '<upcoming-events>\nComing up in the next 48 hours:\n' +
+      "- Tue 2026-03-03: Sarah's birthday (turns 41)\n" +
+      '- Tue 2026-03-03 15:00: Dentist\n' +
+      '</upcoming-events>'
+    );
+    expect(formatUpcoming([], 48)).toBeNull();
+  });
+});
+
+describe('upcomingEventsEnabledFor', () => {
+  it('should let channels override the global switch', () => {
+    const config = resolveUpcomingEvents({ enabled: true, maxItems: 0, channels: { telegram: false } });
+    expect(config.maxItems).toBe(5);
+    expect(upcomingEventsEnabledFor(config, 'telegram')).toBe(false);
+    expect(upcomingEventsEnabledFor(config, 'discord')).toBe(true);
+    expect(upcomingEventsEnabledFor(resolveUpcomingEvents({ channels: { slack: true } }), 'slack')).toBe(true);
+    expect(upcomingEventsEnabledFor(resolveUpcomingEvents(), undefined)).toBe(false);
+  });
+});
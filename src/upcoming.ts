@@ -0,0 +1,132 @@
+/**
+ * Upcoming Events
+ *
+ * What's due soon, injected as an <upcoming-events> block when an agent
+ * starts: dated events with an occurrence in the next few hours and
+ * birthdays of people (relationship and entity memories with a birthday
+ * attribute), so the agent can bring them up without being asked.
+ */
+
+import type { Memory, UpcomingItem } from './types.js';
+import { formatEventTime, nextBirthday, nextOccurrence } from './events.js';
+
+// Categories whose birthday attribute counts as an upcoming date
+export const BIRTHDAY_CATEGORIES = ['relationship', 'entity'];
+
+export interface UpcomingEventsConfig {
+  enabled: boolean;
+  /** How far ahead to look */
+  withinHours: number;
+  /** Most items in the block */
+  maxItems: number;
+  /** Per-channel switch (messageProvider -> on/off); unlisted channels follow enabled */
+  channels: Record<string, boolean>;
+}
+
+/**
+ * Upcoming events settings as written in plugin config
+ */
+export interface UpcomingEventsSettings {
+  enabled?: boolean;
+  withinHours?: number;
+  maxItems?: number;
+  channels?: Record<string, boolean>;
+}
+
+export const DEFAULT_UPCOMING_EVENTS: UpcomingEventsConfig = {
+  enabled: false,
+  withinHours: 48,
+  maxItems: 5,
+  channels: {},
+};
+
+const HOUR_MS = 3600000;
+
+/**
+ * Fill in missing or invalid settings from the defaults
+ */
+export function resolveUpcomingEvents(partial: UpcomingEventsSettings = {}): UpcomingEventsConfig {
+  const positive = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+  const channels: Record<string, boolean> = {};
+  if (partial.channels && typeof partial.channels === 'object') {
+    for (const [channel, on] of Object.entries(partial.channels)) {
+      if (typeof on === 'boolean') channels[channel] = on;
+    }
+  }
+
+  return {
+    enabled: partial.enabled === true,
+    withinHours: positive(partial.withinHours, DEFAULT_UPCOMING_EVENTS.withinHours),
+    maxItems: Math.floor(positive(partial.maxItems, DEFAULT_UPCOMING_EVENTS.maxItems)),
+    channels,
+  };
+}
+
+/**
+ * Whether the block is injected for a channel (the agent context's messageProvider)
+ */
+export function upcomingEventsEnabledFor(config: UpcomingEventsConfig, channel?: string): boolean {
+  if (channel !== undefined && config.channels[channel] !== undefined) return config.channels[channel];
+  return config.enabled;
+}
+
+export function upcomingWindowMs(config: UpcomingEventsConfig): number {
+  return config.withinHours * HOUR_MS;
+}
+
+/**
+ * Events and birthdays among the given memories that happen within
+ * [now, now + withinMs), soonest first. Ongoing events and today's
+ * birthdays are included.
+ */
+export function findUpcoming(
+  memories: Memory[],
+  options: { withinMs: number; limit?: number; now?: number; timeZone?: string }
+): UpcomingItem[] {
+  const now = options.now ?? Date.now();
+  const until = now + options.withinMs;
+  const items: UpcomingItem[] = [];
+
+  for (const memory of memories) {
+    const occurrence = nextOccurrence(memory, now, options.timeZone);
+    if (occurrence && occurrence.start < until) {
+      items.push({ memory, kind: 'event', ...occurrence });
+    }
+
+    const birthday = memory.attributes?.birthday;
+    if (birthday && BIRTHDAY_CATEGORIES.includes(memory.category)) {
+      const next = nextBirthday(birthday, now, options.timeZone);
+      if (next && next.start < until) items.push({ memory, kind: 'birthday', ...next });
+    }
+  }
+
+  items.sort((a, b) => a.start - b.start);
+  return options.limit !== undefined ? items.slice(0, options.limit) : items;
+}
+
+/**
+ * The <upcoming-events> block, or null when there's nothing to show
+ */
+export function formatUpcoming(items: UpcomingItem[], withinHours: number, timeZone?: string): string | null {
+  if (items.length === 0) return null;
+
+  const lines = items.map(item => {
+    if (item.kind === 'birthday') {
+      const name = item.memory.attributes?.name ?? item.memory.content;
+      const when = formatEventTime({ ...item.memory, startsAt: item.start, endsAt: item.end, recurrence: undefined }, timeZone);
+      return `- ${when}: ${name}'s birthday${item.age !== undefined ? ` (turns ${item.age})` : ''}`;
+    }
+    // This occurrence, not the first one
+    const occurrence: Memory = {
+      ...item.memory,
+      startsAt: item.start,
+      endsAt: item.memory.endsAt !== undefined ? item.end : undefined,
+      recurrence: undefined,
+    };
+    return `- ${formatEventTime(occurrence, timeZone)}: ${item.memory.content}`;
+  });
+
+  return `<upcoming-events>\nComing up in the next ${withinHours} hours:\n${lines.join('\n')}\n</upcoming-events>`;
+}
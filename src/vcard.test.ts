@@ -0,0 +1,99 @@
+/**
+ * vCard Import and Export Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { formatVCards, importVCards, parseVCards } from './vcard.js';
+import { MemoryStoreV2 } from './store.js';
+
+describe('parseVCards', () => {
+  it('should read vCard 3.0 and 4.0 cards from other address books', () => {
+    const text = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Sarah Connor',
+      'N:Connor;Sarah;;;',
+      'item1.EMAIL;TYPE=INTERNET:work@cyberdyne.com',
+      'item2.EMAIL;TYPE=INTERNET,PREF:sarah@example.com',
+      'TEL;TYPE=CELL:+1 555 123 4567',
+      'ADR;TYPE=HOME:;;12 Main St;Springfield;IL;62701;USA',
+      'BDAY:19850513',
+      'ORG:Cyberdyne Systems;Security',
+      'NOTE:Sister\\, lives in Springfield.\\nCall on Sundays.',
+      'CATEGORIES:family,close',
+      'END:VCARD',
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Kyle',
+      'BDAY:--0229',
+      'EMAIL:not an email',
+      'URL:https://example.com/',
+      ' kyle',
+      'END:VCARD',
+    ].join('\r\n');
+
+    const [sarah, kyle] = parseVCards(text);
+    expect(sarah).toMatchObject({
+      attributes: {
+        name: 'Sarah Connor',
+        email: 'sarah@example.com',
+        phone: '+15551234567',
+        address: '12 Main St, Springfield, IL, 62701, USA',
+        birthday: '1985-05-13',
+        organization: 'Cyberdyne Systems, Security',
+      },
+      note: 'Sister, lives in Springfield.\nCall on Sundays.',
+      categories: ['family', 'close'],
+    });
+    expect(kyle.attributes).toEqual({ name: 'Kyle', birthday: '--02-29', url: 'https://example.com/kyle' });
+    expect(kyle.rejected.map(r => r.key)).toEqual(['email']);
+  });
+});
+
+describe('vCard round trip', () => {
+  let tempDir: string;
+  let store: MemoryStoreV2;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    store = new MemoryStoreV2(tempDir);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should export contacts and update them on re-import', async () => {
+    const sarah = await store.create({
+      content: 'Sarah is my sister; she; likes long walks, and writing very long notes that need folding',
+      category: 'entity',
+      tags: ['family'],
+      attributes: { name: 'Sarah Jane Connor', email: 'sarah@example.com', address: '12 Main St, Springfield' },
+    });
+    await store.create({ content: 'No attributes here', category: 'fact' });
+
+    const exported = formatVCards(store.list({ limit: 100 }).items);
+    expect(exported.match(/BEGIN:VCARD/g)).toHaveLength(1);
+    expect(exported).toContain('N:Connor;Sarah;Jane;;');
+    expect(exported.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+
+    const edited = exported.replace('sarah@example.com', 'sarah@newmail.com');
+    const result = await importVCards(store, edited + 'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Kyle Reese\r\nEND:VCARD\r\n');
+
+    expect(result).toMatchObject({ updated: [sarah.id], skipped: 0 });
+    expect(store.get(sarah.id)).toMatchObject({
+      content: sarah.content,
+      tags: ['family'],
+      attributes: { name: 'Sarah Jane Connor', email: 'sarah@newmail.com', address: '12 Main St, Springfield' },
+    });
+    expect(store.get(result.created[0])).toMatchObject({
+      content: 'Contact: Kyle Reese',
+      category: 'entity',
+      attributes: { name: 'Kyle Reese' },
+    });
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * vCard Import and Export
+ *
+ * Moves contacts between the store and address books. Each contact is a
+ * memory whose structured attributes map onto vCard properties; the
+ * memory's content travels as NOTE and its id as UID, so exporting and
+ * re-importing updates memories instead of duplicating them.
+ *
+ * Writes vCard 3.0 (the version every address book reads) and reads
+ * 2.1, 3.0 and 4.0.
+ */
+
+import { normalizeAttribute, AttributeValidationError, type AttributeKey, type MemoryAttributes } from './attributes.js';
+import type { MemoryStoreV2 } from './store.js';
+import type { Memory, MemoryCategory, RevisionMeta } from './types.js';
+
+export interface VCardContact {
+  uid?: string;
+  attributes: MemoryAttributes;
+  note?: string;
+  categories: string[];
+  /** Values that didn't pass attribute validation and were left out */
+  rejected: Array<{ key: AttributeKey; value: string; reason: string }>;
+}
+
+export interface VCardImportResult {
+  created: string[];
+  updated: string[];
+  /** Cards without a name, email or phone */
+  skipped: number;
+  warnings: string[];
+}
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Single-valued properties <-> attributes (ADR, ORG and BDAY need converting)
+const PROPERTY_ATTRIBUTES: Record<string, AttributeKey> = {
+  FN: 'name',
+  NICKNAME: 'nickname',
+  EMAIL: 'email',
+  TEL: 'phone',
+  URL: 'url',
+  TITLE: 'title',
+};
+
+/**
+ * Serialize memories as vCards. Memories without attributes are skipped.
+ */
+export function formatVCards(memories: Memory[]): string {
+  return memories
+    .filter(memory => memory.attributes)
+    .map(formatVCard)
+    .join('');
+}
+
+/**
+ * One memory as a vCard
+ */
+export function formatVCard(memory: Memory): string {
+  const attributes = memory.attributes ?? {};
+  const name = attributes.name ?? attributes.nickname ?? attributes.email ?? memory.content.split('\n')[0];
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `UID:${escapeText(memory.id)}`,
+    `FN:${escapeText(name)}`,
+    `N:${structuredName(attributes.name)}`,
+  ];
+
+  if (attributes.nickname) lines.push(`NICKNAME:${escapeText(attributes.nickname)}`);
+  if (attributes.email) lines.push(`EMAIL;TYPE=INTERNET:${escapeText(attributes.email)}`);
+  if (attributes.phone) lines.push(`TEL:${escapeText(attributes.phone)}`);
+  if (attributes.address) lines.push(`ADR:;;${escapeText(attributes.address)};;;;`);
+  if (attributes.birthday) lines.push(`BDAY:${attributes.birthday}`);
+  if (attributes.url) lines.push(`URL:${attributes.url}`);
+  if (attributes.organization) lines.push(`ORG:${escapeText(attributes.organization)}`);
+  if (attributes.title) lines.push(`TITLE:${escapeText(attributes.title)}`);
+  if (memory.tags.length > 0) lines.push(`CATEGORIES:${memory.tags.map(escapeText).join(',')}`);
+  lines.push(`NOTE:${escapeText(memory.content)}`);
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse every vCard in a file
+ */
+export function parseVCards(text: string): VCardContact[] {
+  // Unfold continuation lines (RFC 6350 section 3.2)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const contacts: VCardContact[] = [];
+  let card: VCardProperty[] | null = null;
+
+  for (const line of lines) {
+    const property = parseLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VCARD') {
+      card = [];
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VCARD') {
+      if (card) contacts.push(toContact(card));
+      card = null;
+    } else if (card) {
+      card.push(property);
+    }
+  }
+
+  return contacts;
+}
+
+/**
+ * Import contacts as entity memories. A card whose UID is the id of an
+ * existing memory updates that memory; every other card creates one.
+ */
+export async function importVCards(
+  store: MemoryStoreV2,
+  text: string,
+  options: { category?: MemoryCategory; meta?: RevisionMeta } = {}
+): Promise<VCardImportResult> {
+  const result: VCardImportResult = { created: [], updated: [], skipped: 0, warnings: [] };
+
+  for (const contact of parseVCards(text)) {
+    const { attributes } = contact;
+    const label = attributes.name ?? attributes.email ?? attributes.phone;
+    for (const rejected of contact.rejected) {
+      result.warnings.push(`${label ?? 'contact'}: skipped ${rejected.key} "${rejected.value}" (${rejected.reason})`);
+    }
+    if (!label) {
+      result.skipped++;
+      continue;
+    }
+
+    // Cards from other address books have their own UIDs; only full memory ids count
+    const existing = contact.uid && UUID.test(contact.uid) ? store.get(contact.uid) : null;
+    if (existing) {
+      await store.update(existing.id, {
+        attributes,
+        ...(contact.note ? { content: contact.note } : {}),
+        ...(contact.categories.length > 0 ? { tags: contact.categories } : {}),
+      }, options.meta);
+      result.updated.push(existing.id);
+    } else {
+      const memory = await store.create({
+        content: contact.note ?? `Contact: ${label}`,
+        category: options.category ?? 'entity',
+        confidence: 1,
+        tags: contact.categories,
+        attributes,
+      }, options.meta);
+      result.created.push(memory.id);
+    }
+  }
+
+  return result;
+}
+
+function parseLine(line: string): VCardProperty | null {
+  // The first colon outside a quoted parameter value ends the name
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  // Drop the group prefix (item1.EMAIL)
+  const name = rawName.slice(rawName.lastIndexOf('.') + 1).toUpperCase();
+
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    // vCard 2.1 allows bare values: TEL;HOME;PREF:...
+    const key = eq < 0 ? 'TYPE' : param.slice(0, eq).toUpperCase();
+    const values = (eq < 0 ? param : param.slice(eq + 1)).replace(/"/g, '').split(',');
+    params[key] = [...(params[key] ?? []), ...values.map(v => v.toUpperCase())];
+  }
+
+  let value = line.slice(colon + 1);
+  if (params['ENCODING']?.includes('QUOTED-PRINTABLE')) {
+    value = decodeQuotedPrintable(value);
+  }
+  return { name, params, value };
+}
+
+function toContact(card: VCardProperty[]): VCardContact {
+  const contact: VCardContact = { attributes: {}, categories: [], rejected: [] };
+
+  const set = (key: AttributeKey, raw: string, preferred: boolean) => {
+    const value = raw.trim();
+    if (!value || (contact.attributes[key] !== undefined && !preferred)) return;
+    try {
+      contact.attributes[key] = normalizeAttribute(key, value);
+    } catch (err) {
+      if (!(err instanceof AttributeValidationError)) throw err;
+      contact.rejected.push({ key, value, reason: err.message });
+    }
+  };
+
+  for (const { name, params, value } of card) {
+    const preferred = params['TYPE']?.includes('PREF') || params['PREF'] !== undefined;
+    switch (name) {
+      case 'UID':
+        contact.uid = unescapeText(value).replace(/^urn:uuid:/i, '');
+        break;
+      case 'N':
+        // Only used when there is no FN (vCard 2.1)
+        if (!card.some(p => p.name === 'FN')) {
+          const [family = '', given = '', additional = '', prefix = '', suffix = ''] = splitStructured(value);
+          set('name', [prefix, given, additional, family, suffix].filter(Boolean).join(' '), false);
+        }
+        break;
+      case 'ADR':
+        set('address', splitStructured(value).filter(Boolean).join(', '), preferred);
+        break;
+      case 'ORG':
+        set('organization', splitStructured(value).filter(Boolean).join(', '), false);
+        break;
+      case 'BDAY':
+        set('birthday', toIsoBirthday(value.trim()), false);
+        break;
+      case 'NOTE':
+        contact.note = unescapeText(value).trim() || undefined;
+        break;
+      case 'CATEGORIES':
+        contact.categories = splitList(value);
+        break;
+      default:
+        if (PROPERTY_ATTRIBUTES[name]) {
+          set(PROPERTY_ATTRIBUTES[name], unescapeText(value).replace(/^(mailto|tel):/i, ''), preferred);
+        }
+    }
+  }
+
+  return contact;
+}
+
+// 19850513, 1985-05-13, --0513 or --05-13 -> YYYY-MM-DD / --MM-DD
+function toIsoBirthday(value: string): string {
+  const date = value.split('T')[0];
+  const full = date.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (full) return `${full[1]}-${full[2]}-${full[3]}`;
+  const noYear = date.match(/^--(\d{2})-?(\d{2})$/);
+  if (noYear) return `--${noYear[1]}-${noYear[2]}`;
+  return value;
+}
+
+// "Sarah Jane Connor" -> Connor;Sarah;Jane;;
+function structuredName(name: string | undefined): string {
+  const parts = (name ?? '').split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return ';;;;';
+  if (parts.length === 1) return `;${escapeText(parts[0])};;;`;
+  const family = parts.pop()!;
+  const [given, ...additional] = parts;
+  return `${escapeText(family)};${escapeText(given)};${escapeText(additional.join(' '))};;`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+// Split on unescaped separators, then unescape each component
+function splitOn(value: string, separator: ';' | ','): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[++i];
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts.map(part => unescapeText(part).trim());
+}
+
+function splitStructured(value: string): string[] {
+  return splitOn(value, ';');
+}
+
+function splitList(value: string): string[] {
+  return splitOn(value, ',').filter(Boolean);
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes = value
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, 'latin1').toString('utf-8');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the 75
+    if (size + charSize > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
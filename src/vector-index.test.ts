@@ -0,0 +1,112 @@
+/**
+ * Vector Index Tests
+ *
+ * The index on its own, with a toy embedding provider (letter counts) so
+ * what gets embedded and when can be followed exactly.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { VectorIndex, VECTORS_FILENAME } from './vector-index.js';
+import { INDEX_DIR } from './sidecar.js';
+import { QMDClient } from './qmd.js';
+import type { EmbeddingProvider } from './embeddings.js';
+import type { Memory } from './types.js';
+
+function memory(id: string, content: string, updatedAt = 0): Memory {
+  return {
+    id,
+    content,
+    category: 'fact',
+    confidence: 0.8,
+    importance: 0.5,
+    decayDays: null,
+    createdAt: 0,
+    updatedAt,
+    lastAccessedAt: 0,
+    tags: [],
+  };
+}
+
+function letters(name: string, embedded: string[]): EmbeddingProvider {
+  return {
+    name,
+    dimensions: 26,
+    async embed(texts) {
+      embedded.push(...texts);
+      return texts.map(text => {
+        const vector = new Float32Array(26);
+        for (const c of text.toLowerCase()) if (c >= 'a' && c <= 'z') vector[c.charCodeAt(0) - 97]++;
+        return vector;
+      });
+    },
+  };
+}
+
+describe('VectorIndex', () => {
+  let tempDir: string;
+  let memories: Memory[];
+  let embedded: string[];
+
+  const open = (provider = 'letters') => new VectorIndex({
+    memoriesPath: tempDir,
+    memories: () => memories,
+    qmd: new QMDClient(tempDir, 'memories', { disabled: true }),
+    embeddings: () => letters(provider, embedded),
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-tools-test-'));
+    memories = [];
+    embedded = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should only embed memories that are new or changed and drop the ones that are gone', async () => {
+    memories = [memory('cat', 'User has a cat'), memory('tea', 'User drinks green tea')];
+    const index = open();
+
+    expect((await index.query('cats', { limit: 5 }))[0].id).toBe('cat');
+    expect(embedded).toEqual(['User has a cat', 'User drinks green tea', 'cats']);
+
+    embedded.length = 0;
+    memories = [memory('cat', 'User has a dog', 1)];
+    const hits = await index.query('dog', { limit: 5 });
+    expect(hits.map(hit => hit.id)).toEqual(['cat']);
+    expect(embedded).toEqual(['User has a dog', 'dog']);
+    expect(await index.status()).toMatchObject({ documents: 1 });
+  });
+
+  it('should only return hits that are close enough and accepted', async () => {
+    memories = [memory('cat', 'User has a cat'), memory('tea', 'User drinks green tea')];
+    const index = open();
+
+    expect((await index.query('zzz', { limit: 5 }))).toEqual([]);
+    expect((await index.query('user', { limit: 5, accept: id => id !== 'cat' })).map(hit => hit.id)).toEqual(['tea']);
+
+    const similar = await index.findSimilar('User has a cat', { threshold: 0.99 });
+    expect(similar.map(hit => hit.id)).toEqual(['cat']);
+    expect(similar[0].score).toBeCloseTo(1);
+  });
+
+  it('should keep vectors across restarts but not across providers', async () => {
+    memories = [memory('cat', 'User has a cat')];
+    const first = open();
+    await first.query('cat', { limit: 5 });
+    first.close();
+    expect(fs.existsSync(path.join(tempDir, INDEX_DIR, VECTORS_FILENAME))).toBe(true);
+
+    embedded.length = 0;
+    await open().query('cat', { limit: 5 });
+    expect(embedded).toEqual(['cat']);
+
+    embedded.length = 0;
+    await open('other').query('cat', { limit: 5 });
+    expect(embedded).toEqual(['User has a cat', 'cat']);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Vector Index
+ *
+ * An embedding of every memory's content, searched by cosine similarity,
+ * for semantic search and duplicate detection without QMD. Vectors come
+ * from the configured embedding provider (embeddings.ts) and are kept in
+ * .index/vectors.json in the memories directory, sealed with the store's
+ * cipher when encryption is on (an unsealed file is then ignored). Like the BM25 index, it's checked against
+ * the memories before each search and only changed memories are embedded
+ * again; switching provider re-embeds everything.
+ */
+
+import type { Memory } from './types.js';
+import type { EmbeddingProvider } from './embeddings.js';
+import type {
+  SearchEngine,
+  SearchEngineContext,
+  SearchEngineStatus,
+  SearchHit,
+  SearchQueryOptions,
+  SimilarOptions,
+} from './search-engine.js';
+import { SidecarFile } from './sidecar.js';
+
+export const VECTORS_FILENAME = 'vectors.json';
+
+// Queries whose cosine with a memory is below this aren't about it at all
+export const MIN_QUERY_SIMILARITY = 0.15;
+
+// Texts per embed() call when catching up
+const BATCH_SIZE = 64;
+
+const FORMAT_VERSION = 1;
+
+interface StoredVector {
+  updatedAt: number;
+  /** Unit-length Float32Array */
+  vector: Float32Array;
+}
+
+interface VectorFile {
+  version: number;
+  provider: string;
+  dimensions: number;
+  /** Id -> [updatedAt, base64 of the float32 vector] */
+  vectors: Record<string, [number, string]>;
+}
+
+export class VectorIndex implements SearchEngine {
+  readonly name = 'vector';
+  readonly methods = ['semantic'] as const;
+  readonly fast = true;
+  private context: SearchEngineContext;
+  private provider: EmbeddingProvider;
+  private file: SidecarFile;
+  private vectors = new Map<string, StoredVector>();
+  private loaded = false;
+  // Embedding is async; work runs one task at a time so updates never interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(context: SearchEngineContext) {
+    this.context = context;
+    this.provider = context.embeddings();
+    this.file = new SidecarFile(context.memoriesPath, VECTORS_FILENAME, { cipher: context.cipher });
+  }
+
+  index(memories: Memory[]): Promise<void> {
+    return this.enqueue(() => this.embed(memories));
+  }
+
+  remove(ids: string[]): Promise<void> {
+    return this.enqueue(async () => {
+      this.load();
+      let removed = false;
+      for (const id of ids) removed = this.vectors.delete(id) || removed;
+      if (removed) this.scheduleSave();
+    });
+  }
+
+  query(query: string, options: SearchQueryOptions): Promise<SearchHit[]> {
+    return this.enqueue(async () => {
+      await this.sync(this.context.memories());
+      return this.nearest(query, { threshold: MIN_QUERY_SIMILARITY, limit: options.limit, accept: options.accept });
+    });
+  }
+
+  findSimilar(content: string, options: SimilarOptions): Promise<SearchHit[]> {
+    return this.enqueue(async () => {
+      await this.sync(this.context.memories());
+      return this.nearest(content, {
+        threshold: options.threshold,
+        limit: options.limit ?? 3,
+        accept: options.accept,
+        similarity: true,
+      });
+    });
+  }
+
+  status(): Promise<SearchEngineStatus> {
+    return this.enqueue(async () => {
+      this.load();
+      return {
+        name: this.name,
+        available: true,
+        documents: this.vectors.size,
+        detail: `${this.provider.name} embeddings, ${this.provider.dimensions} dimensions`,
+      };
+    });
+  }
+
+  rebuild(memories: Memory[]): Promise<void> {
+    return this.enqueue(async () => {
+      this.load();
+      this.vectors.clear();
+      await this.embed(memories);
+    });
+  }
+
+  close(): void {
+    this.file.flush();
+  }
+
+  /**
+   * Embed memories that are new or changed since they were embedded and
+   * drop the ones that are gone
+   */
+  private async sync(memories: Memory[]): Promise<void> {
+    this.load();
+    const current = new Set(memories.map(memory => memory.id));
+    for (const id of this.vectors.keys()) {
+      if (!current.has(id)) {
+        this.vectors.delete(id);
+        this.scheduleSave();
+      }
+    }
+    await this.embed(memories.filter(memory => this.vectors.get(memory.id)?.updatedAt !== memory.updatedAt));
+  }
+
+  private async embed(memories: Memory[]): Promise<void> {
+    this.load();
+    for (let start = 0; start < memories.length; start += BATCH_SIZE) {
+      const batch = memories.slice(start, start + BATCH_SIZE);
+      const vectors = await this.provider.embed(batch.map(memory => memory.content));
+      batch.forEach((memory, i) => {
+        this.vectors.set(memory.id, { updatedAt: memory.updatedAt, vector: normalize(vectors[i], this.provider.dimensions) });
+      });
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Memories closest to a text. Queries are scored by cosine; duplicate
+   * checks (similarity) by the provider's similarity, which is calibrated
+   * for "says the same thing".
+   */
+  private async nearest(
+    text: string,
+    options: { threshold: number; limit: number; accept?: (id: string) => boolean; similarity?: boolean }
+  ): Promise<SearchHit[]> {
+    const [raw] = await this.provider.embed([text]);
+    const target = normalize(raw, this.provider.dimensions);
+    const hits: SearchHit[] = [];
+    for (const [id, { vector }] of this.vectors) {
+      let cosine = 0;
+      for (let i = 0; i < vector.length; i++) cosine += vector[i] * target[i];
+      const calibrated = options.similarity && this.provider.similarity ? this.provider.similarity(cosine) : cosine;
+      const score = Math.min(1, Math.max(0, calibrated));
+      if (score > 0 && score >= options.threshold && (!options.accept || options.accept(id))) hits.push({ id, score });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Read the saved vectors once. A file from another provider, an older
+   * format or one that can't be read leaves the index empty.
+   */
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const text = this.file.read();
+    if (text === null) return;
+    try {
+      const file = JSON.parse(text) as VectorFile;
+      if (
+        file.version !== FORMAT_VERSION ||
+        file.provider !== this.provider.name ||
+        file.dimensions !== this.provider.dimensions ||
+        !file.vectors || typeof file.vectors !== 'object'
+      ) {
+        return;
+      }
+      for (const [id, entry] of Object.entries(file.vectors)) {
+        if (!Array.isArray(entry) || typeof entry[0] !== 'number' || typeof entry[1] !== 'string') continue;
+        const bytes = Buffer.from(entry[1], 'base64');
+        if (bytes.length !== this.provider.dimensions * 4) continue;
+        // Copied out so the vector is aligned and owns its memory
+        const vector = new Float32Array(this.provider.dimensions);
+        new Uint8Array(vector.buffer).set(bytes);
+        this.vectors.set(id, { updatedAt: entry[0], vector });
+      }
+    } catch {
+      // Re-embedded on the next sync
+    }
+  }
+
+  private scheduleSave(): void {
+    this.file.scheduleWrite(() => {
+      const file: VectorFile = {
+        version: FORMAT_VERSION,
+        provider: this.provider.name,
+        dimensions: this.provider.dimensions,
+        vectors: {},
+      };
+      for (const [id, { updatedAt, vector }] of this.vectors) {
+        file.vectors[id] = [updatedAt, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64')];
+      }
+      return JSON.stringify(file);
+    });
+  }
+}
+
+/**
+ * Unit-length copy of a vector (all zeros stays all zeros)
+ */
+function normalize(values: ArrayLike<number>, dimensions: number): Float32Array {
+  if (values.length !== dimensions) {
+    throw new Error(`Embedding has ${values.length} dimensions, expected ${dimensions}`);
+  }
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}